@@ -0,0 +1,36 @@
+import { isRouteErrorResponse, Link } from "react-router";
+
+import { useTranslation } from "~/lib/i18n";
+
+// Full-page error for route ErrorBoundaries, 404s read as `notFoundMessage`
+export function ErrorPage({
+  error,
+  notFoundMessage,
+}: {
+  error: unknown;
+  notFoundMessage: string;
+}) {
+  const { t } = useTranslation();
+  const message =
+    isRouteErrorResponse(error) && error.status === 404
+      ? notFoundMessage
+      : error instanceof Error
+        ? error.message
+        : t("error.unknown");
+
+  return (
+    <div className="min-h-screen bg-gray-50 dark:bg-gray-900 flex items-center justify-center">
+      <div className="text-center">
+        <h1 className="text-2xl font-bold text-gray-900 dark:text-white mb-4">
+          {message}
+        </h1>
+        <Link
+          to="/"
+          className="bg-blue-600 hover:bg-blue-700 text-white px-4 py-2 rounded-md transition-colors"
+        >
+          {t("error.backHome")}
+        </Link>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,84 @@
+import { useSearchParams } from "react-router";
+
+import { useTranslation } from "~/lib/i18n";
+import { MOVIES_PER_PAGE, PAGE_SIZES, type GridOptions } from "~/lib/movies";
+
+const toggleClassName = "px-3 py-1 text-sm transition-colors";
+const activeClassName = "bg-blue-600 text-white";
+const inactiveClassName =
+  "bg-white text-gray-700 hover:bg-gray-100 dark:bg-gray-800 dark:text-gray-300 dark:hover:bg-gray-700";
+
+// Switch between numbered pages and continuous scrolling, and pick a page size
+export function GridControls({
+  grid,
+  startIndex,
+}: {
+  grid: GridOptions;
+  // First movie currently shown, kept in view when the layout changes
+  startIndex: number;
+}) {
+  const [searchParams, setSearchParams] = useSearchParams();
+  const { t, formatNumber } = useTranslation();
+
+  const setView = (view: GridOptions["view"]) => {
+    const params = new URLSearchParams(searchParams);
+    params.delete("page");
+    params.delete("pos");
+    if (view === "scroll") {
+      params.set("view", "scroll");
+      if (startIndex > 0) params.set("pos", String(startIndex));
+    } else {
+      params.delete("view");
+      const page = Math.floor(grid.position / grid.perPage) + 1;
+      if (page > 1) params.set("page", String(page));
+    }
+    setSearchParams(params, { preventScrollReset: true });
+  };
+
+  const setPerPage = (perPage: number) => {
+    const params = new URLSearchParams(searchParams);
+    if (perPage === MOVIES_PER_PAGE) params.delete("per_page");
+    else params.set("per_page", String(perPage));
+    const page = Math.floor(startIndex / perPage) + 1;
+    if (page > 1) params.set("page", String(page));
+    else params.delete("page");
+    setSearchParams(params, { preventScrollReset: true });
+  };
+
+  return (
+    <div className="flex flex-wrap items-center justify-end gap-4 mb-6 text-sm text-gray-700 dark:text-gray-300">
+      {grid.view === "pages" && (
+        <label className="flex items-center gap-2">
+          {t("grid.perPage")}
+          <select
+            value={grid.perPage}
+            onChange={(e) => setPerPage(Number(e.target.value))}
+            className="px-2 py-1 border border-gray-300 dark:border-gray-600 rounded-md dark:bg-gray-700 dark:text-white"
+          >
+            {PAGE_SIZES.map((size) => (
+              <option key={size} value={size}>
+                {formatNumber(size)}
+              </option>
+            ))}
+          </select>
+        </label>
+      )}
+      <div className="flex rounded-md overflow-hidden border border-gray-300 dark:border-gray-600">
+        <button
+          onClick={() => setView("pages")}
+          aria-pressed={grid.view === "pages"}
+          className={`${toggleClassName} ${grid.view === "pages" ? activeClassName : inactiveClassName}`}
+        >
+          {t("grid.pages")}
+        </button>
+        <button
+          onClick={() => setView("scroll")}
+          aria-pressed={grid.view === "scroll"}
+          className={`${toggleClassName} ${grid.view === "scroll" ? activeClassName : inactiveClassName}`}
+        >
+          {t("grid.continuous")}
+        </button>
+      </div>
+    </div>
+  );
+}
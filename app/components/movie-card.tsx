@@ -0,0 +1,155 @@
+import { Link, useLocation } from "react-router";
+
+import { MoviePoster } from "~/components/movie-poster";
+import { WatchlistButtons } from "~/components/watchlist-buttons";
+import { useTranslation } from "~/lib/i18n";
+import { moviePath, watchPath, type Movie } from "~/lib/movies";
+import { excerptAround, highlightText } from "~/lib/search";
+
+export function Highlight({ text, terms }: { text: string; terms: string[] }) {
+  return (
+    <>
+      {highlightText(text, terms).map((segment, i) =>
+        segment.match ? (
+          <mark
+            key={i}
+            className="bg-yellow-200 dark:bg-yellow-600 text-inherit rounded-sm"
+          >
+            {segment.text}
+          </mark>
+        ) : (
+          segment.text
+        )
+      )}
+    </>
+  );
+}
+
+// Grid card, `highlightTerms` are only set while searching. The player pages
+// through the list the card is on. `preview` shows an unsaved movie, see
+// MoviePoster.
+export function MovieCard({
+  movie,
+  highlightTerms = [],
+  preview = false,
+}: {
+  movie: Movie;
+  highlightTerms?: string[];
+  preview?: boolean;
+}) {
+  const location = useLocation();
+  const { t, genreName } = useTranslation();
+
+  return (
+    <div className="bg-white dark:bg-gray-800 rounded-lg shadow-md overflow-hidden hover:shadow-lg transition-shadow duration-300">
+      <Link to={moviePath(movie)} state={{ from: location }} className="block">
+        <div className="aspect-[2/3] relative">
+          <MoviePoster movie={movie} preview={preview} />
+          <div className="absolute top-2 right-2 bg-black bg-opacity-75 text-white text-xs px-2 py-1 rounded">
+            {movie.rating}
+          </div>
+          {movie.linkIssues && movie.linkIssues.length > 0 && (
+            <div className="absolute top-2 left-2 bg-red-600 text-white text-xs font-medium px-2 py-1 rounded">
+              {movie.linkIssues.includes("video")
+                ? t("movie.videoUnavailable")
+                : t("movie.posterUnavailable")}
+            </div>
+          )}
+        </div>
+      </Link>
+      <div className="p-4">
+        <Link
+          to={moviePath(movie)}
+          state={{ from: location }}
+          className="block hover:text-blue-600 dark:hover:text-blue-400 transition-colors"
+        >
+          <h3 className="font-semibold text-gray-900 dark:text-white text-sm mb-2 line-clamp-2 hover:text-blue-600 dark:hover:text-blue-400">
+            <Highlight text={movie.title} terms={highlightTerms} />
+          </h3>
+        </Link>
+        <div className="flex items-center justify-between text-xs text-gray-600 dark:text-gray-400 mb-2">
+          <span>{movie.year}</span>
+          <div className="flex flex-wrap gap-1 flex-row">
+            {movie.genres.slice(0, 2).map((genre) => (
+              <span
+                key={genre}
+                className="bg-gray-100 dark:bg-gray-700 px-2 py-1 rounded text-xs"
+              >
+                {genreName(genre)}
+              </span>
+            ))}
+          </div>
+        </div>
+        {highlightTerms.length > 0 && movie.description && (
+          <p className="text-xs text-gray-600 dark:text-gray-400 mb-2 line-clamp-3">
+            <Highlight
+              text={excerptAround(movie.description, highlightTerms)}
+              terms={highlightTerms}
+            />
+          </p>
+        )}
+        <div className="flex gap-2">
+          <Link
+            to={moviePath(movie)}
+            state={{ from: location }}
+            className="flex-1 bg-blue-600 hover:bg-blue-700 text-white text-xs px-3 py-2 rounded text-center transition-colors"
+          >
+            {t("movie.details")}
+          </Link>
+          <Link
+            to={watchPath(movie, location)}
+            className="flex-1 bg-green-600 hover:bg-green-700 text-white text-xs px-3 py-2 rounded text-center transition-colors"
+          >
+            {t("movie.watch")}
+          </Link>
+        </div>
+        <WatchlistButtons movieId={movie.id} className="flex gap-2 mt-2" />
+      </div>
+    </div>
+  );
+}
+
+// Grid of cards with the empty state shared by the listing pages
+export function MovieGrid({
+  movies,
+  highlightTerms,
+  emptyMessage,
+  onClear,
+}: {
+  movies: Movie[];
+  highlightTerms?: string[];
+  emptyMessage: string;
+  // Offered in the empty state when filters are active
+  onClear?: () => void;
+}) {
+  const { t } = useTranslation();
+  if (movies.length === 0) {
+    return (
+      <div className="text-center py-12">
+        <p className="text-gray-600 dark:text-gray-400 text-lg">
+          {emptyMessage}
+        </p>
+        {onClear && (
+          <button
+            onClick={onClear}
+            className="mt-4 bg-blue-600 hover:bg-blue-700 text-white px-4 py-2 rounded-md transition-colors"
+          >
+            {t("grid.clearFilters")}
+          </button>
+        )}
+      </div>
+    );
+  }
+
+  return (
+    <div className="grid grid-cols-1 sm:grid-cols-2 md:grid-cols-3 lg:grid-cols-4 xl:grid-cols-5 gap-6">
+      {movies.map((movie) => (
+        <MovieCard
+          key={movie.id}
+          movie={movie}
+          highlightTerms={highlightTerms}
+        />
+      ))}
+    </div>
+  );
+}
@@ -0,0 +1,118 @@
+import { Link } from "react-router";
+
+import { MoviePoster } from "~/components/movie-poster";
+import { useTranslation } from "~/lib/i18n";
+import { genrePath, yearPath, type Movie } from "~/lib/movies";
+
+// The main panel of the movie detail page, also rendered as the admin preview
+export function MovieDetails({
+  movie,
+  actions,
+  preview = false,
+}: {
+  movie: Movie;
+  // Watch and watchlist buttons below the description
+  actions: React.ReactNode;
+  // Show `image_url` as is instead of the resized poster
+  preview?: boolean;
+}) {
+  const { t, genreName } = useTranslation();
+
+  return (
+    <div className="bg-white dark:bg-gray-800 rounded-lg shadow-lg overflow-hidden">
+      <div className="grid grid-cols-1 lg:grid-cols-3 gap-8">
+        {/* Movie Poster */}
+        <div className="lg:col-span-1">
+          <div className="aspect-[2/3] relative">
+            <MoviePoster movie={movie} layout="detail" preview={preview} />
+            <div className="absolute top-4 right-4 bg-black bg-opacity-75 text-white text-sm px-3 py-2 rounded-lg">
+              {movie.rating}
+            </div>
+          </div>
+        </div>
+
+        {/* Movie Information */}
+        <div className="lg:col-span-2 p-8">
+          <div className="flex flex-col h-full">
+            <div className="flex-1">
+              <h1 className="text-4xl font-bold text-gray-900 dark:text-white mb-4">
+                {movie.title}
+              </h1>
+
+              {/* Basic Info */}
+              <div className="flex flex-wrap items-center gap-4 mb-6">
+                <Link
+                  to={yearPath(movie.year)}
+                  className="text-lg text-gray-600 dark:text-gray-400 hover:text-blue-600 dark:hover:text-blue-400"
+                >
+                  {movie.year}
+                </Link>
+                <div className="flex flex-wrap gap-2">
+                  {movie.genres.map((genre) => (
+                    <Link
+                      key={genre}
+                      to={genrePath(genre)}
+                      className="bg-blue-100 dark:bg-blue-900 text-blue-800 dark:text-blue-200 hover:bg-blue-200 dark:hover:bg-blue-800 px-3 py-1 rounded-full text-sm font-medium transition-colors"
+                    >
+                      {genreName(genre)}
+                    </Link>
+                  ))}
+                </div>
+              </div>
+
+              {/* Description */}
+              <div className="mb-8">
+                <h2 className="text-xl font-semibold text-gray-900 dark:text-white mb-3">
+                  {t("movie.description")}
+                </h2>
+                <p className="text-gray-700 dark:text-gray-300 leading-relaxed text-lg">
+                  {movie.description}
+                </p>
+              </div>
+
+              {actions}
+            </div>
+
+            {/* Additional Info */}
+            <div className="mt-8 pt-6 border-t border-gray-200 dark:border-gray-700">
+              <div className="grid grid-cols-2 gap-4 text-sm">
+                <div>
+                  <span className="font-medium text-gray-900 dark:text-white">
+                    {t("movie.title")}
+                  </span>
+                  <span className="ml-2 text-gray-600 dark:text-gray-400">
+                    {movie.title}
+                  </span>
+                </div>
+                <div>
+                  <span className="font-medium text-gray-900 dark:text-white">
+                    {t("movie.year")}
+                  </span>
+                  <span className="ml-2 text-gray-600 dark:text-gray-400">
+                    {movie.year}
+                  </span>
+                </div>
+                <div>
+                  <span className="font-medium text-gray-900 dark:text-white">
+                    {t("movie.rating")}
+                  </span>
+                  <span className="ml-2 text-gray-600 dark:text-gray-400">
+                    {movie.rating}
+                  </span>
+                </div>
+                <div>
+                  <span className="font-medium text-gray-900 dark:text-white">
+                    {t("movie.genres")}
+                  </span>
+                  <span className="ml-2 text-gray-600 dark:text-gray-400">
+                    {movie.genres.map(genreName).join(", ")}
+                  </span>
+                </div>
+              </div>
+            </div>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,346 @@
+import { useEffect, useRef, useState } from "react";
+import { useSearchParams } from "react-router";
+
+import type { FilterOptions } from "~/lib/catalog";
+import { useTranslation, type MessageKey } from "~/lib/i18n";
+import {
+  countInRange,
+  hasActiveFilters,
+  MOVIE_SORTS,
+  type MovieFacets,
+  type MovieFilters,
+  type MovieSort,
+} from "~/lib/movies";
+
+const SEARCH_DEBOUNCE_MS = 300;
+
+const selectClassName =
+  "w-full px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-transparent dark:bg-gray-700 dark:text-white";
+
+// Message of each MOVIE_SORTS order
+const SORT_LABELS: Record<MovieSort, MessageKey> = {
+  "": "sort.relevance",
+  "rating-desc": "sort.ratingDesc",
+  "rating-asc": "sort.ratingAsc",
+  "year-desc": "sort.yearDesc",
+  "year-asc": "sort.yearAsc",
+  "title-asc": "sort.titleAsc",
+  "title-desc": "sort.titleDesc",
+};
+
+// Format a range bound for a <select> value, "" when unset
+function boundValue(value: number | null, digits = 0) {
+  return value === null ? "" : value.toFixed(digits);
+}
+
+// Back to the first page, or the top in continuous mode
+function resetPosition(params: URLSearchParams) {
+  params.delete("page");
+  params.delete("pos");
+}
+
+// Filter state lives in the URL, these update it and go back to the first page
+export function useFilterParams() {
+  const [searchParams, setSearchParams] = useSearchParams();
+
+  // Update a single filter param
+  const setFilter = (name: string, value: string) => {
+    const params = new URLSearchParams(searchParams);
+    if (value) params.set(name, value);
+    else params.delete(name);
+    resetPosition(params);
+    setSearchParams(params, { preventScrollReset: true });
+  };
+
+  // Genres are repeated `genre` params
+  const toggleGenre = (genre: string) => {
+    const params = new URLSearchParams(searchParams);
+    const selected = params.getAll("genre");
+    params.delete("genre");
+    const next = selected.includes(genre)
+      ? selected.filter((g) => g !== genre)
+      : [...selected, genre];
+    next.forEach((g) => params.append("genre", g));
+    resetPosition(params);
+    setSearchParams(params, { preventScrollReset: true });
+  };
+
+  // Clear all filters, the chosen sort order and params that aren't filters are kept
+  const clearFilters = () => {
+    const params = new URLSearchParams(searchParams);
+    for (const name of [
+      "search",
+      "genre",
+      "genre_match",
+      "year_from",
+      "year_to",
+      "rating_min",
+      "rating_max",
+    ]) {
+      params.delete(name);
+    }
+    resetPosition(params);
+    setSearchParams(params);
+  };
+
+  return { setFilter, toggleGenre, clearFilters };
+}
+
+export function FilterPanel({
+  filters,
+  facets,
+  filterOptions,
+  defaultSortLabel,
+}: {
+  filters: MovieFilters;
+  facets: MovieFacets;
+  filterOptions: FilterOptions;
+  // Label of the unsorted order when not searching
+  defaultSortLabel?: string;
+}) {
+  const { setFilter, toggleGenre, clearFilters } = useFilterParams();
+  const { t, formatNumber, genreName } = useTranslation();
+  const withCount = (label: string, count: number) =>
+    `${label} (${formatNumber(count)})`;
+
+  // The search box is kept locally so typing stays responsive, the URL is updated debounced
+  const [searchTerm, setSearchTerm] = useState(filters.search);
+  const lastSubmittedSearch = useRef(filters.search);
+
+  // Update the search box from URL when it changes (e.g., browser back/forward)
+  useEffect(() => {
+    if (filters.search === lastSubmittedSearch.current) return;
+    lastSubmittedSearch.current = filters.search;
+    setSearchTerm(filters.search);
+  }, [filters.search]);
+
+  useEffect(() => {
+    if (searchTerm === lastSubmittedSearch.current) return;
+    const timeout = setTimeout(() => {
+      lastSubmittedSearch.current = searchTerm;
+      setFilter("search", searchTerm);
+    }, SEARCH_DEBOUNCE_MS);
+    return () => clearTimeout(timeout);
+  }, [searchTerm]);
+
+  const filtersActive = hasActiveFilters(filters);
+
+  return (
+    <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-6">
+      <div className="bg-white dark:bg-gray-800 rounded-lg shadow-md p-6 mb-8">
+        <h2 className="text-lg font-semibold text-gray-900 dark:text-white mb-4">
+          {t("filters.title")}
+        </h2>
+
+        {/* Search Bar */}
+        <div className="mb-4">
+          <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-2">
+            {t("filters.search")}
+          </label>
+          <input
+            type="text"
+            value={searchTerm}
+            onChange={(e) => setSearchTerm(e.target.value)}
+            placeholder={t("filters.searchPlaceholder")}
+            className="w-full px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-transparent dark:bg-gray-700 dark:text-white"
+          />
+        </div>
+
+        {/* Genres */}
+        <div className="mb-4">
+          <div className="flex items-center justify-between mb-2">
+            <span className="block text-sm font-medium text-gray-700 dark:text-gray-300">
+              {t("filters.genres")}
+            </span>
+            <div
+              role="group"
+              aria-label={t("filters.genreMatch")}
+              className="inline-flex rounded-md border border-gray-300 dark:border-gray-600 overflow-hidden text-xs"
+            >
+              {(
+                [
+                  ["any", t("filters.matchAny")],
+                  ["all", t("filters.matchAll")],
+                ] as const
+              ).map(([match, label]) => (
+                <button
+                  key={match}
+                  type="button"
+                  aria-pressed={filters.genreMatch === match}
+                  onClick={() =>
+                    setFilter("genre_match", match === "all" ? "all" : "")
+                  }
+                  className={`px-3 py-1 transition-colors ${
+                    filters.genreMatch === match
+                      ? "bg-blue-600 text-white"
+                      : "bg-white text-gray-700 hover:bg-gray-50 dark:bg-gray-700 dark:text-gray-300 dark:hover:bg-gray-600"
+                  }`}
+                >
+                  {label}
+                </button>
+              ))}
+            </div>
+          </div>
+          <div className="flex flex-wrap gap-2">
+            {filterOptions.genres.map((genre) => {
+              const selected = filters.genres.includes(genre);
+              const count = facets.genres[genre] ?? 0;
+              return (
+                <button
+                  key={genre}
+                  type="button"
+                  aria-pressed={selected}
+                  disabled={!selected && count === 0}
+                  onClick={() => toggleGenre(genre)}
+                  className={`px-3 py-1 rounded-full text-sm transition-colors disabled:opacity-40 disabled:cursor-not-allowed ${
+                    selected
+                      ? "bg-blue-600 text-white"
+                      : "bg-gray-100 text-gray-700 hover:bg-gray-200 dark:bg-gray-700 dark:text-gray-300 dark:hover:bg-gray-600"
+                  }`}
+                >
+                  {genreName(genre)}{" "}
+                  <span
+                    className={
+                      selected
+                        ? "text-blue-100"
+                        : "text-gray-500 dark:text-gray-400"
+                    }
+                  >
+                    {formatNumber(count)}
+                  </span>
+                </button>
+              );
+            })}
+          </div>
+        </div>
+
+        {/* Filter Dropdowns */}
+        <div className="grid grid-cols-1 md:grid-cols-3 gap-4 mb-4">
+          <div>
+            <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-2">
+              {t("filters.year")}
+            </label>
+            <div className="flex items-center gap-2">
+              <select
+                aria-label={t("filters.yearFrom")}
+                value={boundValue(filters.yearFrom)}
+                onChange={(e) => setFilter("year_from", e.target.value)}
+                className={selectClassName}
+              >
+                <option value="">{t("filters.any")}</option>
+                {filterOptions.years.map((year) => (
+                  <option key={year} value={year}>
+                    {withCount(
+                      year,
+                      countInRange(facets.years, Number(year), filters.yearTo)
+                    )}
+                  </option>
+                ))}
+              </select>
+              <span className="text-gray-500 dark:text-gray-400">–</span>
+              <select
+                aria-label={t("filters.yearTo")}
+                value={boundValue(filters.yearTo)}
+                onChange={(e) => setFilter("year_to", e.target.value)}
+                className={selectClassName}
+              >
+                <option value="">{t("filters.any")}</option>
+                {filterOptions.years.map((year) => (
+                  <option key={year} value={year}>
+                    {withCount(
+                      year,
+                      countInRange(facets.years, filters.yearFrom, Number(year))
+                    )}
+                  </option>
+                ))}
+              </select>
+            </div>
+          </div>
+
+          <div>
+            <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-2">
+              {t("filters.rating")}
+            </label>
+            <div className="flex items-center gap-2">
+              <select
+                aria-label={t("filters.ratingMin")}
+                value={boundValue(filters.ratingMin, 1)}
+                onChange={(e) => setFilter("rating_min", e.target.value)}
+                className={selectClassName}
+              >
+                <option value="">{t("filters.min")}</option>
+                {filterOptions.ratingSteps.map((rating) => (
+                  <option key={rating} value={rating}>
+                    {withCount(
+                      `≥ ${rating}`,
+                      countInRange(
+                        facets.ratings,
+                        Number(rating),
+                        filters.ratingMax
+                      )
+                    )}
+                  </option>
+                ))}
+              </select>
+              <span className="text-gray-500 dark:text-gray-400">–</span>
+              <select
+                aria-label={t("filters.ratingMax")}
+                value={boundValue(filters.ratingMax, 1)}
+                onChange={(e) => setFilter("rating_max", e.target.value)}
+                className={selectClassName}
+              >
+                <option value="">{t("filters.max")}</option>
+                {filterOptions.ratingSteps.map((rating) => (
+                  <option key={rating} value={rating}>
+                    {withCount(
+                      `≤ ${rating}`,
+                      countInRange(
+                        facets.ratings,
+                        filters.ratingMin,
+                        Number(rating)
+                      )
+                    )}
+                  </option>
+                ))}
+              </select>
+            </div>
+            {(filters.ratingMin !== null || filters.ratingMax !== null) && (
+              <p className="mt-1 text-xs text-gray-500 dark:text-gray-400">
+                {t("filters.unratedHidden")}
+              </p>
+            )}
+          </div>
+
+          <div>
+            <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-2">
+              {t("filters.sort")}
+            </label>
+            <select
+              value={filters.sort}
+              onChange={(e) => setFilter("sort", e.target.value)}
+              className={selectClassName}
+            >
+              {MOVIE_SORTS.map((sort) => (
+                <option key={sort} value={sort}>
+                  {sort === "" && !filters.search
+                    ? (defaultSortLabel ?? t("sort.featured"))
+                    : t(SORT_LABELS[sort])}
+                </option>
+              ))}
+            </select>
+          </div>
+        </div>
+
+        {/* Clear Filters Button */}
+        {filtersActive && (
+          <button
+            onClick={clearFilters}
+            className="bg-red-600 hover:bg-red-700 text-white text-sm px-4 py-2 rounded-md transition-colors"
+          >
+            {t("filters.clearAll")}
+          </button>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,175 @@
+import { useState } from "react";
+import { Form, useNavigation } from "react-router";
+
+import { MovieCard } from "~/components/movie-card";
+import { MovieDetails } from "~/components/movie-details";
+import {
+  MOVIE_FORM_FIELDS,
+  validateMovieForm,
+  type MovieFormErrors,
+  type MovieFormField,
+  type MovieFormValues,
+} from "~/lib/movie-form";
+import { toMovie } from "~/lib/movies";
+
+const FIELD_LABELS: Record<MovieFormField, string> = {
+  title: "Title",
+  year: "Year",
+  rating: "Rating (0-10)",
+  genres: "Genres (comma-separated)",
+  image_url: "Poster URL",
+  video_source: "Video embed URL",
+  description: "Description",
+};
+
+const inputClassName =
+  "w-full px-3 py-2 border rounded-md bg-white dark:bg-gray-700 text-gray-900 dark:text-white focus:outline-none focus:ring-2 focus:ring-blue-500";
+
+/**
+ * Create and edit form of the admin area. Errors show as soon as a field is
+ * left, the action checks everything again and its `errors` show until the
+ * field is edited. The preview renders the card and the detail panel the
+ * way the saved movie will look.
+ */
+export function MovieForm({
+  initialValues,
+  url = "",
+  errors: serverErrors = {},
+  formError,
+  submitLabel,
+}: {
+  initialValues: MovieFormValues;
+  // Listing url of the movie being edited, kept as is
+  url?: string;
+  errors?: MovieFormErrors;
+  // A problem with the whole movie, e.g. a duplicate
+  formError?: string;
+  submitLabel: string;
+}) {
+  const navigation = useNavigation();
+  const [values, setValues] = useState(initialValues);
+  const [touched, setTouched] = useState<Set<MovieFormField>>(new Set());
+  const { record, errors, valid } = validateMovieForm(values);
+  const movie = toMovie({ ...record, url }, "preview");
+
+  const fieldError = (field: MovieFormField) =>
+    touched.has(field) ? errors[field] : serverErrors[field];
+  const touch = (field: MovieFormField) =>
+    setTouched((current) => new Set(current).add(field));
+
+  return (
+    <div className="grid grid-cols-1 xl:grid-cols-2 gap-8">
+      <Form
+        method="post"
+        noValidate
+        onSubmit={(event) => {
+          if (!valid) {
+            event.preventDefault();
+            setTouched(new Set(MOVIE_FORM_FIELDS));
+          }
+        }}
+        className="bg-white dark:bg-gray-800 rounded-lg shadow-md p-6 space-y-5"
+      >
+        {formError && (
+          <p
+            role="alert"
+            className="rounded-md bg-red-50 dark:bg-red-900/40 text-red-800 dark:text-red-200 px-4 py-3"
+          >
+            {formError}
+          </p>
+        )}
+        {MOVIE_FORM_FIELDS.map((field) => {
+          const error = fieldError(field);
+          const props = {
+            id: field,
+            name: field,
+            value: values[field],
+            onChange: (
+              event: React.ChangeEvent<HTMLInputElement | HTMLTextAreaElement>
+            ) => {
+              const { value } = event.currentTarget;
+              setValues((current) => ({ ...current, [field]: value }));
+              // Server errors are for the submitted value
+              if (serverErrors[field]) touch(field);
+            },
+            onBlur: () => touch(field),
+            "aria-invalid": error ? true : undefined,
+            "aria-describedby": error ? `${field}-error` : undefined,
+            className: `${inputClassName} ${
+              error
+                ? "border-red-500 dark:border-red-400"
+                : "border-gray-300 dark:border-gray-600"
+            }`,
+          };
+          return (
+            <div key={field}>
+              <label
+                htmlFor={field}
+                className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1"
+              >
+                {FIELD_LABELS[field]}
+              </label>
+              {field === "description" ? (
+                <textarea rows={6} {...props} />
+              ) : (
+                <input
+                  type={
+                    field === "image_url" || field === "video_source"
+                      ? "url"
+                      : "text"
+                  }
+                  inputMode={
+                    field === "year"
+                      ? "numeric"
+                      : field === "rating"
+                        ? "decimal"
+                        : undefined
+                  }
+                  {...props}
+                />
+              )}
+              {error && (
+                <p
+                  id={`${field}-error`}
+                  className="mt-1 text-sm text-red-600 dark:text-red-400"
+                >
+                  {error}
+                </p>
+              )}
+            </div>
+          );
+        })}
+        <button
+          type="submit"
+          name="intent"
+          value="save"
+          disabled={navigation.state === "submitting"}
+          className="bg-blue-600 hover:bg-blue-700 disabled:opacity-50 text-white px-6 py-2 rounded-md font-medium transition-colors"
+        >
+          {submitLabel}
+        </button>
+      </Form>
+
+      <section aria-label="Preview" className="space-y-6">
+        <h2 className="text-xl font-semibold text-gray-900 dark:text-white">
+          Preview
+        </h2>
+        {/* Links in the preview point at pages that don't exist yet */}
+        <div inert className="space-y-6">
+          <div className="w-48">
+            <MovieCard movie={movie} preview />
+          </div>
+          <MovieDetails
+            movie={movie}
+            preview
+            actions={
+              <div className="bg-green-600 text-white text-center px-6 py-3 rounded-lg font-semibold">
+                Watch Movie
+              </div>
+            }
+          />
+        </div>
+      </section>
+    </div>
+  );
+}
@@ -0,0 +1,73 @@
+import { Link } from "react-router";
+
+import { MovieGrid } from "~/components/movie-card";
+import { MovieRow } from "~/components/movie-row";
+import { Pagination } from "~/components/pagination";
+import { SiteHeader } from "~/components/site-header";
+import type { MoviePage } from "~/lib/catalog";
+import { useTranslation } from "~/lib/i18n";
+import type { Movie, MovieSummary } from "~/lib/movies";
+
+export interface LandingRow {
+  title: string;
+  movies: MovieSummary[];
+  moreLink?: { to: string; label: string };
+}
+
+// Genre and year pages: heading, highlight rows, then every movie paginated
+export function MovieLanding({
+  heading,
+  description,
+  rows,
+  links = [],
+  listTitle,
+  page,
+}: {
+  heading: string;
+  description: string;
+  rows: LandingRow[];
+  // Related pages, e.g. the previous and next year
+  links?: { to: string; label: string }[];
+  listTitle: string;
+  page: MoviePage<Movie>;
+}) {
+  const { movies, ...pagination } = page;
+  const { t } = useTranslation();
+
+  return (
+    <div className="min-h-screen bg-gray-50 dark:bg-gray-900">
+      <SiteHeader subtitle={description} />
+
+      <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-8">
+        <div className="flex flex-wrap items-baseline justify-between gap-4">
+          <h1 className="text-3xl font-bold text-gray-900 dark:text-white">
+            {heading}
+          </h1>
+          {links.length > 0 && (
+            <nav className="flex gap-4 text-sm">
+              {links.map((link) => (
+                <Link
+                  key={link.to}
+                  to={link.to}
+                  className="text-blue-600 hover:text-blue-800 dark:text-blue-400 dark:hover:text-blue-200"
+                >
+                  {link.label}
+                </Link>
+              ))}
+            </nav>
+          )}
+        </div>
+
+        {/* Highlights only on the first page */}
+        {pagination.currentPage === 1 &&
+          rows.map((row) => <MovieRow key={row.title} {...row} />)}
+
+        <h2 className="mt-10 mb-6 text-xl font-semibold text-gray-900 dark:text-white">
+          {listTitle}
+        </h2>
+        <MovieGrid movies={movies} emptyMessage={t("grid.empty")} />
+        <Pagination {...pagination} />
+      </div>
+    </div>
+  );
+}
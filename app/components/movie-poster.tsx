@@ -0,0 +1,65 @@
+import type { Movie } from "~/lib/movies";
+import {
+  POSTER_SIZES,
+  posterPath,
+  posterPlaceholderUrl,
+  posterSrcSet,
+} from "~/lib/posters";
+
+export function MoviePoster({
+  movie,
+  layout = "grid",
+  preview = false,
+  className = "w-full h-full object-cover",
+}: {
+  // Without an id (e.g. a genre tile) the placeholder is shown
+  movie: Pick<Movie, "title" | "image_url"> &
+    Partial<Pick<Movie, "id" | "year">>;
+  layout?: keyof typeof POSTER_SIZES;
+  // Load `image_url` directly, for unsaved movies in the admin preview
+  preview?: boolean;
+  className?: string;
+}) {
+  const placeholder = posterPlaceholderUrl(movie);
+
+  if (!movie.id || !movie.image_url) {
+    return <img src={placeholder} alt={movie.title} className={className} />;
+  }
+
+  if (preview) {
+    return (
+      <img
+        src={movie.image_url}
+        alt={movie.title}
+        className={className}
+        onError={(e) => {
+          if (e.currentTarget.src !== placeholder) {
+            e.currentTarget.src = placeholder;
+          }
+        }}
+      />
+    );
+  }
+
+  return (
+    <img
+      src={posterPath({ id: movie.id, image_url: movie.image_url })}
+      srcSet={posterSrcSet({ id: movie.id, image_url: movie.image_url })}
+      sizes={POSTER_SIZES[layout]}
+      alt={movie.title}
+      // The detail poster is the main image of its page
+      loading={layout === "detail" ? "eager" : "lazy"}
+      decoding="async"
+      className={className}
+      onError={(e) => {
+        // The route answers with a placeholder itself, this covers the
+        // server being unreachable
+        const target = e.currentTarget;
+        if (target.src !== placeholder) {
+          target.removeAttribute("srcset");
+          target.src = placeholder;
+        }
+      }}
+    />
+  );
+}
@@ -0,0 +1,61 @@
+import { Link, useLocation } from "react-router";
+
+import { MoviePoster } from "~/components/movie-poster";
+import { moviePath, type MovieSummary } from "~/lib/movies";
+
+// A titled, horizontally scrolling row of posters, e.g. "More like this"
+export function MovieRow({
+  title,
+  movies,
+  moreLink,
+}: {
+  title: string;
+  movies: MovieSummary[];
+  moreLink?: { to: string; label: string };
+}) {
+  const location = useLocation();
+  if (movies.length === 0) return null;
+
+  return (
+    <section className="mt-10">
+      <div className="flex items-baseline justify-between mb-4">
+        <h2 className="text-xl font-semibold text-gray-900 dark:text-white">
+          {title}
+        </h2>
+        {moreLink && (
+          <Link
+            to={moreLink.to}
+            className="text-sm text-blue-600 hover:text-blue-800 dark:text-blue-400 dark:hover:text-blue-200"
+          >
+            {moreLink.label} →
+          </Link>
+        )}
+      </div>
+      <div className="flex gap-4 overflow-x-auto pb-2">
+        {movies.map((movie) => (
+          <Link
+            key={movie.id}
+            to={moviePath(movie)}
+            state={{ from: location }}
+            className="w-36 shrink-0 bg-white dark:bg-gray-800 rounded-lg shadow-md overflow-hidden hover:shadow-lg transition-shadow duration-300"
+          >
+            <div className="aspect-[2/3] relative">
+              <MoviePoster movie={movie} layout="row" />
+              <div className="absolute top-2 right-2 bg-black bg-opacity-75 text-white text-xs px-2 py-1 rounded">
+                {movie.rating}
+              </div>
+            </div>
+            <div className="p-2">
+              <h3 className="font-semibold text-gray-900 dark:text-white text-xs line-clamp-2">
+                {movie.title}
+              </h3>
+              <div className="text-xs text-gray-600 dark:text-gray-400">
+                {movie.year}
+              </div>
+            </div>
+          </Link>
+        ))}
+      </div>
+    </section>
+  );
+}
@@ -0,0 +1,19 @@
+import { useTranslation } from "~/lib/i18n";
+import { useIsOnline } from "~/lib/offline";
+
+// Shown while the browser has no connection, pages then come from the saved catalog
+export function OfflineIndicator() {
+  const isOnline = useIsOnline();
+  const { t } = useTranslation();
+  if (isOnline) return null;
+
+  return (
+    <div
+      role="status"
+      className="fixed bottom-4 left-1/2 -translate-x-1/2 z-50 flex items-center gap-2 px-4 py-2 rounded-full shadow-lg bg-gray-900 text-white text-sm dark:bg-gray-100 dark:text-gray-900"
+    >
+      <span className="w-2 h-2 rounded-full bg-amber-400" aria-hidden="true" />
+      {t("offline.status")}
+    </div>
+  );
+}
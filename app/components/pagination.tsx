@@ -0,0 +1,94 @@
+import { useSearchParams } from "react-router";
+
+import type { MoviePage } from "~/lib/catalog";
+import { useTranslation } from "~/lib/i18n";
+
+const pageButtonClassName =
+  "px-3 py-2 text-sm font-medium text-gray-500 bg-white border border-gray-300 rounded-md hover:bg-gray-50 disabled:opacity-50 disabled:cursor-not-allowed dark:bg-gray-800 dark:text-gray-400 dark:border-gray-600 dark:hover:bg-gray-700";
+
+// Page links for a paginated grid, the page number is kept in the URL
+export function Pagination({
+  currentPage,
+  totalPages,
+  totalResults,
+  startIndex,
+  perPage,
+}: Omit<MoviePage<unknown>, "movies">) {
+  const [searchParams, setSearchParams] = useSearchParams();
+  const { t, formatNumber } = useTranslation();
+
+  if (totalPages <= 1) return null;
+
+  const handlePageChange = (page: number) => {
+    const params = new URLSearchParams(searchParams);
+    // include page param only when greater than 1 to keep URLs tidy
+    if (page > 1) params.set("page", String(page));
+    else params.delete("page");
+    setSearchParams(params);
+    window.scrollTo({ top: 0, behavior: "smooth" });
+  };
+
+  return (
+    <div className="mt-12 flex flex-col items-center">
+      <div className="flex items-center space-x-2">
+        {/* Previous Button */}
+        <button
+          onClick={() => handlePageChange(currentPage - 1)}
+          disabled={currentPage === 1}
+          className={pageButtonClassName}
+        >
+          {t("pagination.previous")}
+        </button>
+
+        {/* Page Numbers */}
+        <div className="flex space-x-1">
+          {Array.from({ length: Math.min(5, totalPages) }, (_, i) => {
+            let pageNum;
+            if (totalPages <= 5) {
+              pageNum = i + 1;
+            } else if (currentPage <= 3) {
+              pageNum = i + 1;
+            } else if (currentPage >= totalPages - 2) {
+              pageNum = totalPages - 4 + i;
+            } else {
+              pageNum = currentPage - 2 + i;
+            }
+
+            return (
+              <button
+                key={pageNum}
+                onClick={() => handlePageChange(pageNum)}
+                className={`px-3 py-2 text-sm font-medium rounded-md cursor-pointer ${
+                  currentPage === pageNum
+                    ? "bg-blue-600 text-white"
+                    : "text-gray-500 bg-white border border-gray-300 hover:bg-gray-50 dark:bg-gray-800 dark:text-gray-400 dark:border-gray-600 dark:hover:bg-gray-700"
+                }`}
+              >
+                {formatNumber(pageNum)}
+              </button>
+            );
+          })}
+        </div>
+
+        {/* Next Button */}
+        <button
+          onClick={() => handlePageChange(currentPage + 1)}
+          disabled={currentPage === totalPages}
+          className={pageButtonClassName}
+        >
+          {t("pagination.next")}
+        </button>
+      </div>
+
+      <div className="mt-4 text-sm text-gray-600 dark:text-gray-400">
+        {t("pagination.summary", {
+          page: currentPage,
+          pages: totalPages,
+          from: startIndex + 1,
+          to: Math.min(startIndex + perPage, totalResults),
+          count: totalResults,
+        })}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,77 @@
+import { Form, Link, useLocation } from "react-router";
+
+import { ThemeSwitcher } from "~/components/theme-switcher";
+import { LOCALES, LOCALE_CODES, localePath, useTranslation } from "~/lib/i18n";
+
+const navLinkClassName =
+  "text-sm font-medium text-blue-600 hover:text-blue-700 dark:text-blue-400 dark:hover:text-blue-300";
+
+export function SiteHeader({ subtitle }: { subtitle: React.ReactNode }) {
+  const { t, locale } = useTranslation();
+  const location = useLocation();
+
+  return (
+    <div className="bg-white dark:bg-gray-800 shadow-sm border-b border-gray-200 dark:border-gray-700">
+      <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-6">
+        <div className="flex items-center gap-4">
+          <Link to="/">
+            <img
+              src="/silver1.png"
+              alt={t("header.logoAlt")}
+              className="h-16 w-auto"
+            />
+          </Link>
+          <div>
+            <h1 className="text-3xl font-bold text-gray-900 dark:text-white">
+              SilverStream
+            </h1>
+            <p className="mt-2 text-gray-600 dark:text-gray-400">{subtitle}</p>
+          </div>
+          <nav className="ml-auto flex items-center gap-6">
+            <Link to="/genres" className={navLinkClassName}>
+              {t("header.genres")}
+            </Link>
+            <Link to="/watchlist" className={navLinkClassName}>
+              {t("header.watchlist")}
+            </Link>
+            {/* Saves the choice in a cookie and comes back to this page */}
+            <Form
+              method="post"
+              action="/locale"
+              preventScrollReset
+              role="group"
+              aria-label={t("header.language")}
+              className="flex rounded-md border border-gray-300 dark:border-gray-600 overflow-hidden text-xs"
+            >
+              <input
+                type="hidden"
+                name="redirectTo"
+                value={localePath(location)}
+              />
+              {LOCALE_CODES.map((code) => (
+                <button
+                  key={code}
+                  type="submit"
+                  name="locale"
+                  value={code}
+                  lang={code}
+                  title={LOCALES[code]}
+                  aria-label={LOCALES[code]}
+                  aria-pressed={code === locale}
+                  className={`px-2 py-1 font-medium uppercase transition-colors ${
+                    code === locale
+                      ? "bg-blue-600 text-white"
+                      : "bg-white text-gray-700 hover:bg-gray-50 dark:bg-gray-700 dark:text-gray-300 dark:hover:bg-gray-600"
+                  }`}
+                >
+                  {code}
+                </button>
+              ))}
+            </Form>
+            <ThemeSwitcher />
+          </nav>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,76 @@
+import { useFetcher, useLocation } from "react-router";
+
+import { useTranslation, type MessageKey } from "~/lib/i18n";
+import { THEME_ACTION, THEMES, useTheme, type Theme } from "~/lib/theme";
+
+// Heroicons outlines: sun, moon and a monitor for the OS setting
+const THEME_ICONS: Record<Theme, string> = {
+  light:
+    "M12 3v2.25m6.364.386-1.591 1.591M21 12h-2.25m-.386 6.364-1.591-1.591M12 18.75V21m-4.773-4.227-1.591 1.591M5.25 12H3m4.227-4.773L5.636 5.636M15.75 12a3.75 3.75 0 1 1-7.5 0 3.75 3.75 0 0 1 7.5 0Z",
+  dark: "M21.752 15.002A9.72 9.72 0 0 1 18 15.75c-5.385 0-9.75-4.365-9.75-9.75 0-1.33.266-2.597.748-3.752A9.753 9.753 0 0 0 3 11.25C3 16.635 7.365 21 12.75 21a9.753 9.753 0 0 0 9.002-5.998Z",
+  system:
+    "M9 17.25v1.007a3 3 0 0 1-.879 2.122L7.5 21h9l-.621-.621A3 3 0 0 1 15 18.257V17.25m6-12V15a2.25 2.25 0 0 1-2.25 2.25H5.25A2.25 2.25 0 0 1 3 15V5.25m18 0A2.25 2.25 0 0 0 18.75 3H5.25A2.25 2.25 0 0 0 3 5.25m18 0V12a2.25 2.25 0 0 1-2.25 2.25H5.25A2.25 2.25 0 0 1 3 12V5.25",
+};
+
+const THEME_LABELS: Record<Theme, MessageKey> = {
+  light: "theme.light",
+  dark: "theme.dark",
+  system: "theme.system",
+};
+
+// Light, dark or the OS setting, saved in a cookie for the server render
+export function ThemeSwitcher() {
+  const fetcher = useFetcher({ key: "theme" });
+  const theme = useTheme();
+  const location = useLocation();
+  const { t } = useTranslation();
+
+  return (
+    <fetcher.Form
+      method="post"
+      action={THEME_ACTION}
+      preventScrollReset
+      role="group"
+      aria-label={t("theme.label")}
+      className="flex rounded-md border border-gray-300 dark:border-gray-600 overflow-hidden"
+    >
+      <input
+        type="hidden"
+        name="redirectTo"
+        value={location.pathname + location.search}
+      />
+      {THEMES.map((option) => (
+        <button
+          key={option}
+          type="submit"
+          name="theme"
+          value={option}
+          title={t(THEME_LABELS[option])}
+          aria-label={t(THEME_LABELS[option])}
+          aria-pressed={option === theme}
+          className={`p-1.5 transition-colors ${
+            option === theme
+              ? "bg-blue-600 text-white"
+              : "bg-white text-gray-700 hover:bg-gray-50 dark:bg-gray-700 dark:text-gray-300 dark:hover:bg-gray-600"
+          }`}
+        >
+          <svg
+            className="w-4 h-4"
+            fill="none"
+            stroke="currentColor"
+            strokeWidth={1.5}
+            viewBox="0 0 24 24"
+            xmlns="http://www.w3.org/2000/svg"
+            aria-hidden="true"
+          >
+            <path
+              strokeLinecap="round"
+              strokeLinejoin="round"
+              d={THEME_ICONS[option]}
+            />
+          </svg>
+        </button>
+      ))}
+    </fetcher.Form>
+  );
+}
@@ -0,0 +1,277 @@
+import {
+  useCallback,
+  useEffect,
+  useLayoutEffect,
+  useRef,
+  useState,
+} from "react";
+import { useSearchParams } from "react-router";
+
+import { MovieCard, MovieGrid } from "~/components/movie-card";
+import { filterMovies, paginate } from "~/lib/catalog";
+import { useTranslation } from "~/lib/i18n";
+import { SCROLL_CHUNK_SIZE, parseMovieFilters, type Movie } from "~/lib/movies";
+import { withOfflineFallback } from "~/lib/offline";
+
+// Rows rendered above and below the viewport
+const OVERSCAN_ROWS = 2;
+// Used until the first row has been measured
+const ESTIMATED_ROW_HEIGHT = 560;
+const POSITION_UPDATE_MS = 250;
+
+// Same breakpoints as the classic grid (sm, md, lg, xl)
+function columnsForWidth(width: number) {
+  if (width >= 1280) return 5;
+  if (width >= 1024) return 4;
+  if (width >= 768) return 3;
+  if (width >= 640) return 2;
+  return 1;
+}
+
+async function fetchChunk(search: string, chunk: number) {
+  return withOfflineFallback(
+    async () => {
+      const params = new URLSearchParams(search);
+      params.set("page", String(chunk + 1));
+      params.set("per_page", String(SCROLL_CHUNK_SIZE));
+      const response = await fetch(`/api/v1/movies?${params}`);
+      if (!response.ok) throw new Error(`HTTP ${response.status}`);
+      const { data } = (await response.json()) as { data: Movie[] };
+      return data;
+    },
+    (catalog) =>
+      paginate(
+        filterMovies(catalog, parseMovieFilters(new URLSearchParams(search)))
+          .movies,
+        chunk + 1,
+        SCROLL_CHUNK_SIZE
+      ).movies
+  );
+}
+
+function CardPlaceholder() {
+  return (
+    <div className="bg-white dark:bg-gray-800 rounded-lg shadow-md overflow-hidden animate-pulse">
+      <div className="aspect-[2/3] bg-gray-200 dark:bg-gray-700" />
+      <div className="p-4 space-y-2">
+        <div className="h-4 bg-gray-200 dark:bg-gray-700 rounded" />
+        <div className="h-3 w-1/2 bg-gray-200 dark:bg-gray-700 rounded" />
+      </div>
+    </div>
+  );
+}
+
+/**
+ * Continuous grid over a whole result list. Only the rows near the viewport
+ * are mounted, missing movies are fetched from the JSON API in chunks as they
+ * scroll into view, and the first visible movie is kept in the `pos` param.
+ * Remount it (via `key`) when the list itself changes.
+ */
+export function VirtualMovieGrid({
+  movies: initialMovies,
+  startIndex,
+  position,
+  totalResults,
+  highlightTerms,
+  apiSearch,
+}: {
+  // One chunk of the list, starting at `startIndex`
+  movies: Movie[];
+  startIndex: number;
+  // Movie to scroll to on mount
+  position: number;
+  totalResults: number;
+  highlightTerms: string[];
+  // Filter params for /api/v1/movies
+  apiSearch: string;
+}) {
+  const [, setSearchParams] = useSearchParams();
+  const { t } = useTranslation();
+  const containerRef = useRef<HTMLDivElement>(null);
+  const [items, setItems] = useState(() => {
+    const list: (Movie | undefined)[] = new Array(totalResults);
+    initialMovies.forEach((movie, i) => (list[startIndex + i] = movie));
+    return list;
+  });
+  const loadingChunks = useRef(new Set<number>());
+  // 0 until mounted, the server renders a plain grid
+  const [columns, setColumns] = useState(0);
+  const [rowHeight, setRowHeight] = useState(ESTIMATED_ROW_HEIGHT);
+  const [rows, setRows] = useState({ first: 0, last: 0 });
+  const restored = useRef(false);
+
+  const totalRows = columns ? Math.ceil(totalResults / columns) : 0;
+
+  const loadChunk = useCallback(
+    async (chunk: number) => {
+      if (loadingChunks.current.has(chunk)) return;
+      loadingChunks.current.add(chunk);
+      try {
+        const data = await fetchChunk(apiSearch, chunk);
+        setItems((current) => {
+          const next = [...current];
+          data.forEach((movie, i) => {
+            next[chunk * SCROLL_CHUNK_SIZE + i] = movie;
+          });
+          return next;
+        });
+      } catch (err) {
+        console.error(
+          `Could not load movies ${chunk * SCROLL_CHUNK_SIZE}+`,
+          err
+        );
+        // Allow a retry on the next scroll
+        loadingChunks.current.delete(chunk);
+      }
+    },
+    [apiSearch]
+  );
+
+  // Which rows are near the viewport
+  const updateRows = useCallback(() => {
+    const container = containerRef.current;
+    if (!container || !columns) return;
+    const top = container.getBoundingClientRect().top + window.scrollY;
+    const first = Math.floor((window.scrollY - top) / rowHeight);
+    const last = Math.floor(
+      (window.scrollY + window.innerHeight - top) / rowHeight
+    );
+    setRows({
+      first: Math.max(0, first - OVERSCAN_ROWS),
+      last: Math.min(totalRows - 1, Math.max(0, last + OVERSCAN_ROWS)),
+    });
+  }, [columns, rowHeight, totalRows]);
+
+  useEffect(() => {
+    const onResize = () => setColumns(columnsForWidth(window.innerWidth));
+    onResize();
+    window.addEventListener("resize", onResize);
+    return () => window.removeEventListener("resize", onResize);
+  }, []);
+
+  useEffect(() => {
+    let frame = 0;
+    const onScroll = () => {
+      cancelAnimationFrame(frame);
+      frame = requestAnimationFrame(updateRows);
+    };
+    updateRows();
+    window.addEventListener("scroll", onScroll, { passive: true });
+    window.addEventListener("resize", onScroll);
+    return () => {
+      cancelAnimationFrame(frame);
+      window.removeEventListener("scroll", onScroll);
+      window.removeEventListener("resize", onScroll);
+    };
+  }, [updateRows]);
+
+  // Fetch the chunks of any visible movie that isn't loaded yet
+  useEffect(() => {
+    if (!columns) return;
+    const firstIndex = rows.first * columns;
+    const lastIndex = Math.min(totalResults - 1, (rows.last + 1) * columns - 1);
+    for (let i = firstIndex; i <= lastIndex; i++) {
+      if (!items[i]) loadChunk(Math.floor(i / SCROLL_CHUNK_SIZE));
+    }
+  }, [rows, columns, items, totalResults, loadChunk]);
+
+  // Rows have the same height except for the odd two-line title, so the
+  // tallest rendered row is used for all of them
+  useLayoutEffect(() => {
+    const container = containerRef.current;
+    if (!container) return;
+    let tallest = 0;
+    container
+      .querySelectorAll<HTMLElement>("[data-grid-row]")
+      .forEach((row) => (tallest = Math.max(tallest, row.offsetHeight)));
+    if (tallest > 0 && Math.abs(tallest - rowHeight) > 1) {
+      setRowHeight(tallest);
+    }
+  });
+
+  // Scroll to the saved position once the layout is known
+  useEffect(() => {
+    if (restored.current || !columns || !containerRef.current) return;
+    restored.current = true;
+    if (position === 0) return;
+    const top =
+      containerRef.current.getBoundingClientRect().top + window.scrollY;
+    window.scrollTo({
+      top: top + Math.floor(position / columns) * rowHeight,
+    });
+  }, [columns, position, rowHeight]);
+
+  // Keep the first visible movie in the URL, without reloading the list
+  useEffect(() => {
+    if (!columns || !restored.current) return;
+    const timeout = setTimeout(() => {
+      const container = containerRef.current;
+      if (!container) return;
+      const offset = -container.getBoundingClientRect().top;
+      const firstVisible =
+        Math.max(0, Math.floor(offset / rowHeight)) * columns;
+      setSearchParams(
+        (params) => {
+          if (firstVisible > 0) params.set("pos", String(firstVisible));
+          else params.delete("pos");
+          return params;
+        },
+        { replace: true, preventScrollReset: true }
+      );
+    }, POSITION_UPDATE_MS);
+    return () => clearTimeout(timeout);
+  }, [rows, columns, rowHeight, setSearchParams]);
+
+  if (!columns) {
+    return (
+      <MovieGrid
+        movies={initialMovies}
+        highlightTerms={highlightTerms}
+        emptyMessage={t("grid.emptyFiltered")}
+      />
+    );
+  }
+
+  const renderedRows = [];
+  for (let row = rows.first; row <= rows.last && row < totalRows; row++) {
+    const cells = [];
+    for (let col = 0; col < columns; col++) {
+      const index = row * columns + col;
+      if (index >= totalResults) break;
+      const movie = items[index];
+      cells.push(
+        movie ? (
+          <MovieCard
+            key={movie.id}
+            movie={movie}
+            highlightTerms={highlightTerms}
+          />
+        ) : (
+          <CardPlaceholder key={`placeholder-${index}`} />
+        )
+      );
+    }
+    renderedRows.push(
+      <div
+        key={row}
+        data-grid-row
+        className="grid gap-6 pb-6"
+        style={{ gridTemplateColumns: `repeat(${columns}, minmax(0, 1fr))` }}
+      >
+        {cells}
+      </div>
+    );
+  }
+
+  return (
+    <div
+      ref={containerRef}
+      style={{
+        paddingTop: rows.first * rowHeight,
+        paddingBottom: Math.max(0, totalRows - rows.last - 1) * rowHeight,
+      }}
+    >
+      {renderedRows}
+    </div>
+  );
+}
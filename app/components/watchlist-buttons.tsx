@@ -0,0 +1,52 @@
+import { useTranslation } from "~/lib/i18n";
+import {
+  toggleWatched,
+  toggleWatchlist,
+  useWatchlistEntry,
+} from "~/lib/watchlist";
+
+const sizeClassNames = {
+  sm: "text-xs px-3 py-2 rounded",
+  lg: "px-6 py-3 rounded-lg font-semibold",
+};
+const activeClassName =
+  "bg-amber-100 border-amber-300 text-amber-800 dark:bg-amber-900 dark:border-amber-700 dark:text-amber-100";
+const inactiveClassName =
+  "border-gray-300 text-gray-700 hover:bg-gray-100 dark:border-gray-600 dark:text-gray-300 dark:hover:bg-gray-700";
+
+export function WatchlistButtons({
+  movieId,
+  size = "sm",
+  className = "flex gap-2",
+}: {
+  movieId: string;
+  size?: keyof typeof sizeClassNames;
+  className?: string;
+}) {
+  const buttonClassName = `flex-1 text-center border transition-colors ${sizeClassNames[size]}`;
+  const entry = useWatchlistEntry(movieId);
+  const { t } = useTranslation();
+  const onWatchlist = Boolean(entry.addedAt);
+  const watched = Boolean(entry.watchedAt);
+
+  return (
+    <div className={className}>
+      <button
+        type="button"
+        aria-pressed={onWatchlist}
+        onClick={() => toggleWatchlist(movieId)}
+        className={`${buttonClassName} ${onWatchlist ? activeClassName : inactiveClassName}`}
+      >
+        {onWatchlist ? t("watchlist.onWatchlist") : t("watchlist.add")}
+      </button>
+      <button
+        type="button"
+        aria-pressed={watched}
+        onClick={() => toggleWatched(movieId)}
+        className={`${buttonClassName} ${watched ? activeClassName : inactiveClassName}`}
+      >
+        {watched ? t("watchlist.watched") : t("watchlist.markWatched")}
+      </button>
+    </div>
+  );
+}
@@ -0,0 +1,91 @@
+/**
+ * Admin sign-in
+ * One shared password (ADMIN_PASSWORD) and a signed session cookie
+ * (SESSION_SECRET) scoped to /admin. Without a password the admin area
+ * doesn't exist and every /admin URL is a 404.
+ */
+
+import { createHash, timingSafeEqual } from "node:crypto";
+import { createCookieSessionStorage, data, redirect } from "react-router";
+
+const SESSION_MAX_AGE = 60 * 60 * 8;
+
+// Shown in the audit log
+const ADMIN_ACTOR = "admin";
+
+const sessionStorage = createCookieSessionStorage<{ actor: string }>({
+  cookie: {
+    name: "__admin",
+    path: "/admin",
+    httpOnly: true,
+    sameSite: "lax",
+    secure: process.env.NODE_ENV === "production",
+    maxAge: SESSION_MAX_AGE,
+    // The server refuses to start with a password and no secret, see
+    // server/config.ts. The dev server falls back to the password itself.
+    secrets: [process.env.SESSION_SECRET || process.env.ADMIN_PASSWORD || ""],
+  },
+});
+
+export function isAdminEnabled() {
+  return Boolean(process.env.ADMIN_PASSWORD);
+}
+
+function assertAdminEnabled() {
+  if (!isAdminEnabled()) throw data(null, { status: 404 });
+}
+
+// Hashing first gives equal lengths, which timingSafeEqual requires
+function checkPassword(password: string) {
+  const digest = (value: string) => createHash("sha256").update(value).digest();
+  return timingSafeEqual(
+    digest(password),
+    digest(process.env.ADMIN_PASSWORD ?? "")
+  );
+}
+
+// Only redirect back to admin pages after signing in
+export function safeNext(next: string | null) {
+  return next?.startsWith("/admin") ? next : "/admin";
+}
+
+// The signed-in actor, or a redirect to the sign-in page
+export async function requireAdmin(request: Request) {
+  assertAdminEnabled();
+  const session = await sessionStorage.getSession(
+    request.headers.get("Cookie")
+  );
+  const actor = session.get("actor");
+  if (!actor) {
+    const url = new URL(request.url);
+    const next = new URLSearchParams({ next: url.pathname + url.search });
+    throw redirect(`/admin/login?${next}`);
+  }
+  return actor;
+}
+
+export async function isSignedIn(request: Request) {
+  assertAdminEnabled();
+  const session = await sessionStorage.getSession(
+    request.headers.get("Cookie")
+  );
+  return Boolean(session.get("actor"));
+}
+
+// Set-Cookie header for a new session, null when the password is wrong
+export async function signIn(request: Request, password: string) {
+  assertAdminEnabled();
+  if (!checkPassword(password)) return null;
+  const session = await sessionStorage.getSession(
+    request.headers.get("Cookie")
+  );
+  session.set("actor", ADMIN_ACTOR);
+  return sessionStorage.commitSession(session);
+}
+
+export async function signOut(request: Request) {
+  const session = await sessionStorage.getSession(
+    request.headers.get("Cookie")
+  );
+  return sessionStorage.destroySession(session);
+}
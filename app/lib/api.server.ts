@@ -0,0 +1,136 @@
+/**
+ * Helpers for the versioned JSON API under /api/v1
+ * Every response is JSON with an ETag, errors share one body shape:
+ * `{ "error": { "status": 404, "code": "not_found", "message": "..." } }`
+ */
+
+import { createHash } from "node:crypto";
+import { logger } from "../../server/logger";
+import { CACHE_CONTROL, type CachePolicy } from "./cache-policy";
+
+export const MAX_PER_PAGE = 100;
+
+const API_HEADERS = {
+  "Content-Type": "application/json; charset=utf-8",
+  "Access-Control-Allow-Origin": "*",
+};
+
+export class ApiError extends Error {
+  constructor(
+    public status: number,
+    public code: string,
+    message: string
+  ) {
+    super(message);
+    this.name = "ApiError";
+  }
+}
+
+function etagFor(body: string) {
+  return `"${createHash("sha1").update(body).digest("base64url")}"`;
+}
+
+function matchesEtag(request: Request, etag: string) {
+  const ifNoneMatch = request.headers.get("If-None-Match");
+  if (!ifNoneMatch) return false;
+  return ifNoneMatch
+    .split(",")
+    .map((tag) => tag.trim().replace(/^W\//, ""))
+    .some((tag) => tag === "*" || tag === etag);
+}
+
+// A payload serialized once, for a response sent unchanged many times
+export interface SerializedJson {
+  body: string;
+  etag: string;
+}
+
+export function serializeJson(payload: unknown): SerializedJson {
+  const body = JSON.stringify(payload);
+  return { body, etag: etagFor(body) };
+}
+
+export function apiJson(
+  request: Request,
+  payload: unknown,
+  policy: CachePolicy = "api"
+) {
+  return serializedApiJson(request, serializeJson(payload), policy);
+}
+
+export function serializedApiJson(
+  request: Request,
+  { body, etag }: SerializedJson,
+  policy: CachePolicy = "api"
+) {
+  const headers = {
+    ...API_HEADERS,
+    ETag: etag,
+    "Cache-Control": CACHE_CONTROL[policy],
+  };
+
+  if (matchesEtag(request, etag)) {
+    return new Response(null, { status: 304, headers });
+  }
+  return new Response(body, { status: 200, headers });
+}
+
+export function apiErrorResponse(error: ApiError) {
+  return new Response(
+    JSON.stringify({
+      error: { status: error.status, code: error.code, message: error.message },
+    }),
+    {
+      status: error.status,
+      headers: { ...API_HEADERS, "Cache-Control": CACHE_CONTROL.none },
+    }
+  );
+}
+
+// Run an API handler, turning its result into a JSON response (unless it is
+// one already) and any failure into a JSON error
+export async function handleApiRequest(
+  request: Request,
+  handler: () => unknown | Promise<unknown>
+) {
+  try {
+    const result = await handler();
+    return result instanceof Response ? result : apiJson(request, result);
+  } catch (err) {
+    if (err instanceof ApiError) return apiErrorResponse(err);
+    const url = new URL(request.url);
+    logger.error("unhandled API error", {
+      method: request.method,
+      path: url.pathname + url.search,
+      error: err,
+    });
+    return apiErrorResponse(
+      new ApiError(500, "internal_error", "Unexpected server error")
+    );
+  }
+}
+
+export function methodNotAllowed() {
+  return apiErrorResponse(
+    new ApiError(405, "method_not_allowed", "Only GET requests are supported")
+  );
+}
+
+// Strict positive integer query param, unlike the home grid which silently falls back
+export function readPositiveInt(
+  params: URLSearchParams,
+  name: string,
+  fallback: number,
+  max = Number.MAX_SAFE_INTEGER
+) {
+  const raw = params.get(name);
+  if (raw === null || raw === "") return fallback;
+  if (!/^\d+$/.test(raw) || Number(raw) < 1) {
+    throw new ApiError(
+      400,
+      "invalid_parameter",
+      `"${name}" must be a positive integer`
+    );
+  }
+  return Math.min(Number(raw), max);
+}
@@ -0,0 +1,69 @@
+/**
+ * HTTP caching policy
+ * Every Cache-Control value the app sends comes from here. Routes use
+ * CACHE_CONTROL directly; STATIC_CACHE_RULES decide the headers of files in
+ * build/client, applied by the Express server (server/app.ts) and written to
+ * `_headers` for Netlify by scripts/build-cache-headers.ts.
+ */
+
+export const CACHE_CONTROL = {
+  // Fingerprinted build output, a new build means new file names
+  immutable: "public, max-age=31536000, immutable",
+  // Unhashed files from public/ (logo, icons, manifest)
+  static: "public, max-age=86400, stale-while-revalidate=604800",
+  // movies.json and /api/v1/catalog, always revalidated against their
+  // content-hash ETag
+  catalog: "public, max-age=0, must-revalidate",
+  // Browsers check on every visit so catalog updates show up right away,
+  // shared caches may keep a page for a few minutes
+  html: "public, max-age=0, s-maxage=300, must-revalidate",
+  // Pages that depend on the visitor's cookies or Accept-Language
+  personalized: "private, max-age=0, must-revalidate",
+  api: "public, max-age=60, must-revalidate",
+  // sitemap.xml, robots.txt
+  crawler: "public, max-age=86400, must-revalidate",
+  poster: "public, max-age=604800, stale-while-revalidate=86400",
+  // Short-lived so a recovered poster origin shows up soon
+  placeholder: "public, max-age=3600",
+  // The service worker script must always be checked for updates
+  revalidate: "no-cache",
+  none: "no-store",
+} as const;
+
+export type CachePolicy = keyof typeof CACHE_CONTROL;
+
+export interface StaticCacheRule {
+  // A path, or a prefix ending in `/*`
+  pattern: string;
+  policy: CachePolicy;
+}
+
+// First match wins
+export const STATIC_CACHE_RULES: StaticCacheRule[] = [
+  { pattern: "/assets/*", policy: "immutable" },
+  { pattern: "/data/*", policy: "catalog" },
+  { pattern: "/sw.js", policy: "revalidate" },
+  { pattern: "/*", policy: "static" },
+];
+
+// Served with an ETag that is a hash of their content, so revalidation
+// survives redeploys and gives the same answer on every server
+export const CONTENT_HASHED_PATHS = ["/data/movies.json"];
+
+export function matchesCachePattern(pattern: string, pathname: string) {
+  return pattern.endsWith("/*")
+    ? pathname.startsWith(pattern.slice(0, -1))
+    : pathname === pattern;
+}
+
+export function staticCachePolicy(pathname: string): CachePolicy {
+  const rule = STATIC_CACHE_RULES.find(({ pattern }) =>
+    matchesCachePattern(pattern, pathname)
+  );
+  return rule?.policy ?? "static";
+}
+
+// For route `headers` exports
+export function cacheHeaders(policy: CachePolicy) {
+  return { "Cache-Control": CACHE_CONTROL[policy] };
+}
@@ -0,0 +1,156 @@
+import { describe, expect, it } from "vitest";
+import { mergeCatalog, parseCsv } from "./catalog-merge";
+import type { MovieRecord, MoviesData } from "./movies";
+
+function record(fields: Partial<MovieRecord> & { title: string }): MovieRecord {
+  return {
+    year: "2000",
+    rating: "",
+    genres: [],
+    url: "",
+    image_url: "",
+    video_source: "",
+    description: "",
+    ...fields,
+  };
+}
+
+const embed = (imdbId: string) => `https://vidsrc.net/embed/movie/${imdbId}/`;
+
+function catalogOf(records: MovieRecord[]): MoviesData {
+  return { total_movies: records.length, movies: records };
+}
+
+describe("parseCsv", () => {
+  it("splits rows and fields", () => {
+    expect(parseCsv("title,year\nHeat,1995\r\nRonin,1998\n")).toEqual([
+      ["title", "year"],
+      ["Heat", "1995"],
+      ["Ronin", "1998"],
+    ]);
+  });
+
+  it("reads quoted commas, newlines and doubled quotes", () => {
+    expect(
+      parseCsv('title,description\n"Heat, Part 1","Two lines\nsaid ""hi"""')
+    ).toEqual([
+      ["title", "description"],
+      ["Heat, Part 1", 'Two lines\nsaid "hi"'],
+    ]);
+  });
+
+  it("skips blank rows and keeps empty fields", () => {
+    expect(parseCsv("a,b\n\n,2\n  \n")).toEqual([
+      ["a", "b"],
+      ["", "2"],
+    ]);
+  });
+});
+
+describe("mergeCatalog", () => {
+  const heat = record({
+    title: "Heat",
+    year: "1995",
+    rating: "8.3 / 10",
+    url: "https://example.com/movies/heat-1995/",
+    video_source: embed("tt0113277"),
+  });
+  const ronin = record({ title: "Ronin", year: "1998" });
+  const catalog = catalogOf([heat, ronin]);
+
+  it("updates matches with non-empty batch fields and lists the changes", () => {
+    const { data, diff } = mergeCatalog(catalog, [
+      record({ title: "Ronin", year: "1998", rating: "7.2 / 10" }),
+    ]);
+
+    expect(data.movies[1]).toEqual({ ...ronin, rating: "7.2 / 10" });
+    expect(diff.updated).toEqual([
+      {
+        record: data.movies[1],
+        changes: [{ field: "rating", from: "", to: "7.2 / 10" }],
+      },
+    ]);
+    expect(diff.unchanged).toBe(1);
+    // The input is left alone
+    expect(catalog.movies[1].rating).toBe("");
+  });
+
+  it("matches by IMDb id and title, whatever the year", () => {
+    const { data, diff } = mergeCatalog(catalog, [
+      record({
+        title: "heat",
+        year: "1996",
+        video_source: embed("tt0113277"),
+      }),
+    ]);
+
+    expect(diff.added).toEqual([]);
+    expect(data.movies[0].year).toBe("1996");
+  });
+
+  it("doesn't rename a movie that shares the IMDb id under another title", () => {
+    const batchRecord = record({
+      title: "Heat (Director's Cut)",
+      year: "1995",
+      video_source: embed("tt0113277"),
+    });
+    const { data, diff } = mergeCatalog(catalog, [batchRecord]);
+
+    expect(data.movies).toEqual([heat, ronin, batchRecord]);
+    expect(diff.added).toEqual([batchRecord]);
+  });
+
+  it("matches by title and year unless the IMDb ids differ", () => {
+    const other = record({
+      title: "Heat",
+      year: "1995",
+      video_source: embed("tt9999999"),
+    });
+    expect(mergeCatalog(catalog, [other]).diff.added).toEqual([other]);
+
+    const { diff } = mergeCatalog(catalog, [
+      record({ title: "Heat", year: "1995", description: "Crime saga" }),
+    ]);
+    expect(diff.added).toEqual([]);
+    expect(diff.updated[0].changes).toEqual([
+      { field: "description", from: "", to: "Crime saga" },
+    ]);
+  });
+
+  it("keeps the listing url and stored id of a match", () => {
+    const stored = { ...heat, id: "heat-1995-2" };
+    const { data, diff } = mergeCatalog(catalogOf([stored]), [
+      {
+        ...heat,
+        url: "https://example.com/movies/heat-remastered/",
+        id: "other",
+      },
+    ]);
+
+    expect(data.movies).toEqual([stored]);
+    expect(diff.updated).toEqual([]);
+  });
+
+  it("appends new movies and merges repeats within the batch", () => {
+    const { data, diff } = mergeCatalog(catalog, [
+      record({ title: "Collateral", year: "2004" }),
+      record({ title: "Collateral", year: "2004", rating: "7.5 / 10" }),
+    ]);
+
+    expect(data.total_movies).toBe(3);
+    expect(data.movies[2].rating).toBe("7.5 / 10");
+    expect(diff.added.map(({ title }) => title)).toEqual(["Collateral"]);
+    expect(diff.updated).toEqual([]);
+  });
+
+  it("removes movies missing from the batch only with prune", () => {
+    const batch = [record({ title: "Heat", year: "1995" })];
+
+    expect(mergeCatalog(catalog, batch).data.movies).toHaveLength(2);
+
+    const { data, diff } = mergeCatalog(catalog, batch, { prune: true });
+    expect(data).toEqual(catalogOf([heat]));
+    expect(diff.removed).toEqual([ronin]);
+    expect(diff.unchanged).toBe(1);
+  });
+});
@@ -0,0 +1,169 @@
+/**
+ * Merging scrape batches into the catalog
+ * Batch records are matched to catalog records by IMDb id and title, then by
+ * title and year. Matches are updated field by field, the rest are added.
+ * Used by scripts/ingest-catalog.ts, along with the CSV reader for batches.
+ */
+
+import { getImdbId, type MovieRecord, type MoviesData } from "./movies";
+
+export interface RecordChange {
+  field: keyof MovieRecord;
+  from: string;
+  to: string;
+}
+
+export interface MergeDiff {
+  added: MovieRecord[];
+  updated: { record: MovieRecord; changes: RecordChange[] }[];
+  removed: MovieRecord[];
+  unchanged: number;
+}
+
+export interface MergeOptions {
+  // The batch is a complete scrape: catalog records it doesn't contain are
+  // removed
+  prune?: boolean;
+}
+
+function titleYearKey(record: Pick<MovieRecord, "title" | "year">) {
+  return `${record.title.toLowerCase()}|${record.year}`;
+}
+
+function imdbTitleKey(imdbId: string, record: Pick<MovieRecord, "title">) {
+  return `${imdbId}|${record.title.toLowerCase()}`;
+}
+
+function fieldText(value: MovieRecord[keyof MovieRecord]) {
+  return Array.isArray(value) ? value.join(", ") : (value ?? "");
+}
+
+// Ids come from the listing url (or a stored id), a matched movie keeps both
+const KEPT_FIELDS: (keyof MovieRecord)[] = ["url", "id"];
+
+/**
+ * Merge normalized batch records into `data`. Empty batch fields (a column
+ * missing from a CSV, a poster the scraper didn't find) keep the catalog
+ * value. New records are appended so existing movie ids don't change.
+ */
+export function mergeCatalog(
+  data: MoviesData,
+  batch: MovieRecord[],
+  { prune = false }: MergeOptions = {}
+): { data: MoviesData; diff: MergeDiff } {
+  const movies = data.movies.map((record) => ({ ...record }));
+  const byImdbTitle = new Map<string, number>();
+  const byTitleYear = new Map<string, number>();
+  const index = (record: MovieRecord, i: number) => {
+    const imdbId = getImdbId(record);
+    const key = imdbId && imdbTitleKey(imdbId, record);
+    if (key && !byImdbTitle.has(key)) byImdbTitle.set(key, i);
+    if (!byTitleYear.has(titleYearKey(record))) {
+      byTitleYear.set(titleYearKey(record), i);
+    }
+  };
+  movies.forEach(index);
+
+  // The IMDb id and title, like duplicateKey, since one IMDb id can be listed
+  // under several titles. Title and year only match a movie without another
+  // IMDb id.
+  const findMatch = (record: MovieRecord) => {
+    const imdbId = getImdbId(record);
+    const i = imdbId
+      ? byImdbTitle.get(imdbTitleKey(imdbId, record))
+      : undefined;
+    if (i !== undefined) return i;
+
+    const j = byTitleYear.get(titleYearKey(record));
+    const otherImdbId = j === undefined ? null : getImdbId(movies[j]);
+    return imdbId && otherImdbId && otherImdbId !== imdbId ? undefined : j;
+  };
+
+  const diff: MergeDiff = { added: [], updated: [], removed: [], unchanged: 0 };
+  const matched = new Set<number>();
+  const updated = new Map<number, RecordChange[]>();
+
+  for (const record of batch) {
+    const i = findMatch(record);
+    if (i === undefined) {
+      movies.push({ ...record });
+      index(record, movies.length - 1);
+      matched.add(movies.length - 1);
+      diff.added.push(record);
+      continue;
+    }
+
+    matched.add(i);
+    const existing = movies[i];
+    const changes = updated.get(i) ?? [];
+    for (const field of Object.keys(record) as (keyof MovieRecord)[]) {
+      if (KEPT_FIELDS.includes(field)) continue;
+      const to = fieldText(record[field]);
+      const from = fieldText(existing[field]);
+      if (to === "" || to === from) continue;
+      changes.push({ field, from, to });
+      Object.assign(existing, { [field]: record[field] });
+    }
+    // A record added earlier in the same batch stays in `added`
+    if (changes.length > 0 && i < data.movies.length) updated.set(i, changes);
+  }
+
+  for (const [i, changes] of updated) {
+    diff.updated.push({ record: movies[i], changes });
+  }
+
+  let merged = movies;
+  if (prune) {
+    merged = movies.filter((record, i) => {
+      if (matched.has(i)) return true;
+      diff.removed.push(record);
+      return false;
+    });
+  }
+
+  diff.unchanged = data.movies.length - updated.size - diff.removed.length;
+  return {
+    data: { total_movies: merged.length, movies: merged },
+    diff,
+  };
+}
+
+// RFC 4180: quoted fields may contain commas, newlines and doubled quotes
+export function parseCsv(source: string) {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = "";
+  let quoted = false;
+
+  for (let i = 0; i < source.length; i++) {
+    const char = source[i];
+    if (quoted) {
+      if (char === '"' && source[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"') {
+      quoted = true;
+    } else if (char === ",") {
+      row.push(field);
+      field = "";
+    } else if (char === "\n" || char === "\r") {
+      if (char === "\r" && source[i + 1] === "\n") i++;
+      row.push(field);
+      rows.push(row);
+      row = [];
+      field = "";
+    } else {
+      field += char;
+    }
+  }
+  if (field !== "" || row.length > 0) {
+    row.push(field);
+    rows.push(row);
+  }
+  return rows.filter((cells) => cells.some((cell) => cell.trim() !== ""));
+}
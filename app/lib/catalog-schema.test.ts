@@ -0,0 +1,144 @@
+import { describe, expect, it } from "vitest";
+import {
+  CatalogStructureError,
+  duplicateKey,
+  normalizeMoviesData,
+} from "./catalog-schema";
+import type { MovieRecord } from "./movies";
+
+const embed = (imdbId: string) => `https://vidsrc.net/embed/movie/${imdbId}/`;
+
+const heat: MovieRecord = {
+  title: "Heat",
+  year: "1995",
+  rating: "8.3 / 10",
+  genres: ["Crime", "Drama"],
+  url: "https://example.com/movies/heat-1995/",
+  image_url: "https://example.com/heat.jpg",
+  video_source: embed("tt0113277"),
+  description: "A group of professional bank robbers...",
+};
+
+function normalize(movies: unknown[]) {
+  return normalizeMoviesData({ total_movies: movies.length, movies });
+}
+
+describe("normalizeMoviesData", () => {
+  it("keeps valid records as they are", () => {
+    const { data, report } = normalize([heat]);
+
+    expect(data).toEqual({ total_movies: 1, movies: [heat] });
+    expect(report).toMatchObject({
+      total: 1,
+      accepted: 1,
+      rejected: [],
+      repaired: [],
+      duplicates: [],
+    });
+  });
+
+  it("repairs text, ratings, genres, URLs and missing fields", () => {
+    const { data, report } = normalize([
+      {
+        title: "  Heat ",
+        year: 1995,
+        rating: "8.3/10",
+        genres: ["Crime", " ", "Crime", 7, "Drama "],
+        url: "not a url",
+        image_url: "ftp://example.com/heat.jpg",
+        video_source: embed("tt0113277"),
+        extra: true,
+      },
+    ]);
+
+    expect(data.movies).toEqual([
+      {
+        title: "Heat",
+        year: "1995",
+        rating: "8.3 / 10",
+        genres: ["Crime", "Drama"],
+        url: "",
+        image_url: "",
+        video_source: embed("tt0113277"),
+        description: "",
+      },
+    ]);
+    expect(report.repaired.map(({ field }) => field).sort()).toEqual([
+      "description",
+      "extra",
+      "genres",
+      "image_url",
+      "rating",
+      "title",
+      "url",
+      "year",
+    ]);
+  });
+
+  it("clears unparseable ratings and drops invalid ids", () => {
+    const { data } = normalize([
+      { ...heat, rating: "N/A", id: "Not A Slug" },
+      { ...heat, title: "Ronin", id: "ronin-1998-2" },
+    ]);
+
+    expect(data.movies[0].rating).toBe("");
+    expect(data.movies[0]).not.toHaveProperty("id");
+    expect(data.movies[1].id).toBe("ronin-1998-2");
+  });
+
+  it("rejects records without a title or a valid year", () => {
+    const { data, report } = normalize([
+      "Heat",
+      { ...heat, title: " " },
+      { ...heat, year: "soon" },
+      heat,
+    ]);
+
+    expect(data.movies).toEqual([heat]);
+    expect(report.rejected.map(({ index, field }) => [index, field])).toEqual([
+      [0, undefined],
+      [1, "title"],
+      [2, "year"],
+    ]);
+  });
+
+  it("removes movies listed twice", () => {
+    const { data, report } = normalize([
+      heat,
+      // Same IMDb id and title, another year
+      { ...heat, year: "1996", url: "" },
+      // Same IMDb id under another title is another movie
+      { ...heat, title: "Heat (Director's Cut)" },
+      // Without an IMDb id, title and year
+      { ...heat, video_source: "", title: "Ronin", year: "1998" },
+      { ...heat, video_source: "", title: "ronin", year: "1998" },
+      { ...heat, video_source: "", title: "Ronin", year: "1999" },
+    ]);
+
+    expect(data.movies.map(({ title, year }) => `${title} ${year}`)).toEqual([
+      "Heat 1995",
+      "Heat (Director's Cut) 1995",
+      "Ronin 1998",
+      "Ronin 1999",
+    ]);
+    expect(report.duplicates.map(({ index }) => index)).toEqual([1, 4]);
+    expect(report.accepted).toBe(4);
+  });
+
+  it("throws on a file that isn't a catalog", () => {
+    expect(() => normalizeMoviesData([])).toThrow(CatalogStructureError);
+    expect(() => normalizeMoviesData({ movies: {} })).toThrow(
+      CatalogStructureError
+    );
+    expect(() =>
+      normalizeMoviesData({ total_movies: "1", movies: [] })
+    ).toThrow(CatalogStructureError);
+  });
+});
+
+describe("duplicateKey", () => {
+  it("uses the IMDb id and title, else title and year", () => {
+    expect(duplicateKey(heat)).toBe("tt0113277|heat");
+    expect(duplicateKey({ ...heat, video_source: "" })).toBe("heat|1995");
+  });
+});
@@ -0,0 +1,257 @@
+/**
+ * Runtime schema for movies.json
+ * Checks the `MoviesData` shape, repairs what can be repaired (trims text,
+ * drops empty genres, canonicalizes ratings, fills missing optional fields),
+ * rejects records that can't be used and removes duplicate listings.
+ * Used by the build step and again when the server loads the catalog.
+ */
+
+import { getImdbId, parseRating, parseYear, slugify } from "./movies";
+import type { MovieRecord, MoviesData } from "./movies";
+
+export interface CatalogIssue {
+  // Position of the record in the input file
+  index: number;
+  title?: string;
+  field?: string;
+  message: string;
+}
+
+export interface CatalogReport {
+  total: number;
+  accepted: number;
+  rejected: CatalogIssue[];
+  repaired: CatalogIssue[];
+  duplicates: CatalogIssue[];
+}
+
+// The file itself is unusable, e.g. `movies` is not an array
+export class CatalogStructureError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "CatalogStructureError";
+  }
+}
+
+const RECORD_FIELDS: (keyof MovieRecord)[] = [
+  "title",
+  "year",
+  "rating",
+  "genres",
+  "url",
+  "image_url",
+  "video_source",
+  "description",
+  "id",
+];
+
+const URL_FIELDS = ["url", "image_url", "video_source"] as const;
+
+function isObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+export function isHttpUrl(value: string) {
+  try {
+    const { protocol } = new URL(value);
+    return protocol === "http:" || protocol === "https:";
+  } catch {
+    return false;
+  }
+}
+
+// "7.2/10", "7.2" and 7.2 all become "7.2 / 10"
+export function formatRating(value: number) {
+  return `${value.toFixed(1)} / 10`;
+}
+
+type RecordResult =
+  | { record: MovieRecord; repairs: Omit<CatalogIssue, "index" | "title">[] }
+  | { error: Omit<CatalogIssue, "index" | "title"> };
+
+function normalizeRecord(raw: unknown): RecordResult {
+  if (!isObject(raw)) {
+    return { error: { message: "record is not an object" } };
+  }
+
+  const repairs: Omit<CatalogIssue, "index" | "title">[] = [];
+  const text = (field: keyof MovieRecord) => {
+    const value = raw[field];
+    if (value === undefined || value === null) {
+      repairs.push({ field, message: "missing, set to empty" });
+      return "";
+    }
+    if (typeof value !== "string" && typeof value !== "number") {
+      repairs.push({ field, message: `unexpected ${typeof value}, cleared` });
+      return "";
+    }
+    const trimmed = String(value).trim();
+    if (trimmed !== value) {
+      repairs.push({ field, message: "converted to trimmed text" });
+    }
+    return trimmed;
+  };
+
+  if (typeof raw.title !== "string" || raw.title.trim() === "") {
+    return { error: { field: "title", message: "title is missing" } };
+  }
+  const year = text("year");
+  if (parseYear(year) === null) {
+    return {
+      error: {
+        field: "year",
+        message: `invalid year ${JSON.stringify(raw.year)}`,
+      },
+    };
+  }
+
+  const record: MovieRecord = {
+    title: text("title"),
+    year,
+    rating: text("rating"),
+    genres: [],
+    url: text("url"),
+    image_url: text("image_url"),
+    video_source: text("video_source"),
+    description: text("description"),
+  };
+
+  if (raw.id !== undefined) {
+    if (typeof raw.id === "string" && raw.id && slugify(raw.id) === raw.id) {
+      record.id = raw.id;
+    } else {
+      repairs.push({
+        field: "id",
+        message: `invalid id ${JSON.stringify(raw.id)}, removed`,
+      });
+    }
+  }
+
+  const ratingValue = parseRating(record.rating);
+  if (ratingValue === null) {
+    if (record.rating !== "") {
+      repairs.push({
+        field: "rating",
+        message: `unparseable rating "${record.rating}", cleared`,
+      });
+      record.rating = "";
+    }
+  } else if (formatRating(ratingValue) !== record.rating) {
+    repairs.push({
+      field: "rating",
+      message: `"${record.rating}" rewritten as "${formatRating(ratingValue)}"`,
+    });
+    record.rating = formatRating(ratingValue);
+  }
+
+  if (Array.isArray(raw.genres)) {
+    const genres = raw.genres
+      .filter((genre): genre is string => typeof genre === "string")
+      .map((genre) => genre.trim())
+      .filter(Boolean);
+    record.genres = Array.from(new Set(genres));
+    if (record.genres.length !== raw.genres.length) {
+      repairs.push({
+        field: "genres",
+        message: "removed empty, duplicate or non-text genres",
+      });
+    }
+  } else {
+    repairs.push({ field: "genres", message: "not a list, set to empty" });
+  }
+
+  for (const field of URL_FIELDS) {
+    if (record[field] !== "" && !isHttpUrl(record[field])) {
+      repairs.push({
+        field,
+        message: `invalid URL "${record[field]}", cleared`,
+      });
+      record[field] = "";
+    }
+  }
+
+  for (const key of Object.keys(raw)) {
+    if (!RECORD_FIELDS.includes(key as keyof MovieRecord)) {
+      repairs.push({ field: key, message: "unknown field removed" });
+    }
+  }
+
+  return { record, repairs };
+}
+
+// The same IMDb id under the same title is one movie listed twice (usually with
+// different years), records without an IMDb id fall back to title and year
+export function duplicateKey(record: MovieRecord) {
+  const title = record.title.toLowerCase();
+  const imdbId = getImdbId(record);
+  return imdbId ? `${imdbId}|${title}` : `${title}|${record.year}`;
+}
+
+/**
+ * Validate and normalize parsed movies.json content. Throws a
+ * CatalogStructureError when the file shape is wrong, bad records are
+ * dropped and listed in the report instead.
+ */
+export function normalizeMoviesData(raw: unknown): {
+  data: MoviesData;
+  report: CatalogReport;
+} {
+  if (!isObject(raw)) {
+    throw new CatalogStructureError("catalog is not a JSON object");
+  }
+  if (!Array.isArray(raw.movies)) {
+    throw new CatalogStructureError(`"movies" must be an array`);
+  }
+  if (raw.total_movies !== undefined && typeof raw.total_movies !== "number") {
+    throw new CatalogStructureError(`"total_movies" must be a number`);
+  }
+
+  const report: CatalogReport = {
+    total: raw.movies.length,
+    accepted: 0,
+    rejected: [],
+    repaired: [],
+    duplicates: [],
+  };
+  const movies: MovieRecord[] = [];
+  const seen = new Map<string, number>();
+
+  raw.movies.forEach((item: unknown, index) => {
+    const result = normalizeRecord(item);
+    const title =
+      isObject(item) && typeof item.title === "string" ? item.title : undefined;
+
+    if ("error" in result) {
+      report.rejected.push({ index, title, ...result.error });
+      return;
+    }
+    for (const repair of result.repairs) {
+      report.repaired.push({ index, title, ...repair });
+    }
+
+    const key = duplicateKey(result.record);
+    const firstIndex = seen.get(key);
+    if (firstIndex !== undefined) {
+      report.duplicates.push({
+        index,
+        title,
+        message: `same movie as record ${firstIndex}, listed again for ${result.record.year}`,
+      });
+      return;
+    }
+    seen.set(key, index);
+    movies.push(result.record);
+  });
+
+  report.accepted = movies.length;
+  return { data: { total_movies: movies.length, movies }, report };
+}
+
+export function summarizeReport(report: CatalogReport) {
+  return (
+    `${report.accepted}/${report.total} movies accepted, ` +
+    `${report.rejected.length} rejected, ` +
+    `${report.duplicates.length} duplicates removed, ` +
+    `${report.repaired.length} repairs`
+  );
+}
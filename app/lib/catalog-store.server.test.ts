@@ -0,0 +1,80 @@
+import { mkdtemp, readFile, rm, writeFile } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import path from "node:path";
+import { afterAll, beforeAll, describe, expect, it, vi } from "vitest";
+import type { MovieRecord } from "./movies";
+
+// The modules read their paths on import, see beforeAll
+let store: typeof import("./catalog-store.server");
+let getCatalog: typeof import("./catalog.server").getCatalog;
+
+let dir: string;
+let storePath: string;
+
+function record(title: string, rating = ""): MovieRecord {
+  return {
+    title,
+    year: "1995",
+    rating,
+    genres: ["Crime"],
+    url: "",
+    image_url: "",
+    video_source: "",
+    description: "",
+  };
+}
+
+beforeAll(async () => {
+  dir = await mkdtemp(path.join(tmpdir(), "catalog-store-"));
+  storePath = path.join(dir, "catalog.json");
+  // "Heat" and "Heat!" share the heat-1995 slug
+  const movies = [record("Heat"), record("Heat!"), record("Ronin")];
+  await writeFile(storePath, JSON.stringify({ total_movies: 3, movies }));
+  vi.stubEnv("CATALOG_STORE_PATH", storePath);
+  vi.stubEnv("CATALOG_AUDIT_PATH", path.join(dir, "audit.jsonl"));
+  store = await import("./catalog-store.server");
+  ({ getCatalog } = await import("./catalog.server"));
+});
+
+afterAll(async () => {
+  vi.unstubAllEnvs();
+  await rm(dir, { recursive: true, force: true });
+});
+
+const ids = async () => (await getCatalog()).movies.map((movie) => movie.id);
+
+describe("catalog store ids", () => {
+  it("keeps a suffixed id when the movie it collided with is deleted", async () => {
+    expect(await ids()).toEqual(["heat-1995", "heat-1995-2", "ronin-1995"]);
+
+    await store.deleteMovie("test", "heat-1995");
+
+    expect(await ids()).toEqual(["heat-1995-2", "ronin-1995"]);
+    const saved = JSON.parse(await readFile(storePath, "utf8"));
+    expect(saved.movies[0]).toMatchObject({
+      title: "Heat!",
+      id: "heat-1995-2",
+    });
+  });
+
+  it("keeps it through edits that don't change the slug", async () => {
+    const id = await store.updateMovie(
+      "test",
+      "heat-1995-2",
+      record("Heat!", "7.5 / 10")
+    );
+
+    expect(id).toBe("heat-1995-2");
+    expect(await ids()).toEqual(["heat-1995-2", "ronin-1995"]);
+  });
+
+  it("gives a new movie a free id and stores it when suffixed", async () => {
+    expect(await store.createMovie("test", record("Heat?"))).toBe("heat-1995");
+    expect(await store.createMovie("test", record("Heat."))).toBe(
+      "heat-1995-3"
+    );
+
+    await store.deleteMovie("test", "heat-1995");
+    expect(await ids()).toEqual(["heat-1995-2", "ronin-1995", "heat-1995-3"]);
+  });
+});
@@ -0,0 +1,215 @@
+/**
+ * Editable catalog store
+ * Admin changes are saved to a JSON file on the server (CATALOG_STORE_PATH)
+ * rather than the movies.json shipped with the build. The first change copies
+ * the current catalog there. Writes go one at a time and replace the file
+ * atomically, every change is appended to an audit log (CATALOG_AUDIT_PATH).
+ */
+
+import { mkdir, open, readFile } from "node:fs/promises";
+import path from "node:path";
+import { movieIds } from "./catalog";
+import { duplicateKey } from "./catalog-schema";
+import {
+  CATALOG_STORE_PATH,
+  invalidateCatalog,
+  readMoviesData,
+} from "./catalog.server";
+import { writeFileAtomic } from "./files.server";
+import { getMovieId, type MovieRecord, type MoviesData } from "./movies";
+
+const AUDIT_PATH = process.env.CATALOG_AUDIT_PATH || "data/audit.jsonl";
+
+export type AuditAction = "create" | "update" | "delete";
+
+export interface AuditEntry {
+  time: string;
+  actor: string;
+  action: AuditAction;
+  movie_id: string;
+  title: string;
+  // Changed fields, the whole record for creates and deletes
+  changes: Partial<Record<keyof MovieRecord, { from?: unknown; to?: unknown }>>;
+}
+
+export class CatalogStoreError extends Error {
+  constructor(
+    message: string,
+    public status: 404 | 409
+  ) {
+    super(message);
+    this.name = "CatalogStoreError";
+  }
+}
+
+// Every write waits for the previous one, so two saves can't interleave
+let queue: Promise<unknown> = Promise.resolve();
+
+function resolvePath(file: string) {
+  return path.resolve(process.cwd(), file);
+}
+
+async function appendAudit(entry: AuditEntry) {
+  const file = resolvePath(AUDIT_PATH);
+  await mkdir(path.dirname(file), { recursive: true });
+  const handle = await open(file, "a");
+  try {
+    await handle.appendFile(`${JSON.stringify(entry)}\n`);
+    await handle.sync();
+  } finally {
+    await handle.close();
+  }
+}
+
+function diffRecords(before: MovieRecord | null, after: MovieRecord | null) {
+  const changes: AuditEntry["changes"] = {};
+  const fields = Object.keys(before ?? after ?? {}) as (keyof MovieRecord)[];
+  for (const field of fields) {
+    const from = before?.[field];
+    const to = after?.[field];
+    if (JSON.stringify(from) !== JSON.stringify(to)) {
+      changes[field] = { from, to };
+    }
+  }
+  return changes;
+}
+
+// Store the id of each movie that got a suffix, which otherwise depends on
+// the movies before it (see movieIds). Afterwards a movie's id is its stored
+// id or its slug, see storedId.
+function storeSuffixedIds(movies: MovieRecord[]) {
+  const ids = movieIds(movies);
+  return movies.map((record, i) =>
+    storedId(record) === ids[i] ? record : { ...record, id: ids[i] }
+  );
+}
+
+function storedId(record: MovieRecord) {
+  return record.id ?? getMovieId(record);
+}
+
+function findIndex(data: MoviesData, id: string) {
+  const index = data.movies.findIndex((record) => storedId(record) === id);
+  if (index === -1) throw new CatalogStoreError("Movie not found", 404);
+  return index;
+}
+
+function assertUnique(data: MoviesData, record: MovieRecord, except = -1) {
+  const key = duplicateKey(record);
+  const duplicate = data.movies.find(
+    (other, index) => index !== except && duplicateKey(other) === key
+  );
+  if (duplicate) {
+    throw new CatalogStoreError(
+      `"${duplicate.title}" (${duplicate.year}) is already in the catalog`,
+      409
+    );
+  }
+}
+
+type Change = (data: MoviesData) => {
+  action: AuditAction;
+  before: MovieRecord | null;
+  after: MovieRecord | null;
+  // Where the movie ended up in the new catalog, to look up its id.
+  // Deletes return the id instead.
+  index?: number;
+  id?: string;
+};
+
+function applyChange(actor: string, change: Change) {
+  const result = queue.then(async () => {
+    // Read the file rather than the cached catalog, which may be stale
+    const current = await readMoviesData();
+    // Existing movies keep their ids whatever the change, new and renamed
+    // ones get theirs stored after it
+    const data: MoviesData = {
+      ...current,
+      movies: storeSuffixedIds(current.movies),
+    };
+    const { action, before, after, index, id } = change(data);
+    data.movies = storeSuffixedIds(data.movies);
+    data.total_movies = data.movies.length;
+
+    const record = (after ?? before)!;
+    const movieId = id ?? storedId(data.movies[index!]);
+
+    await writeFileAtomic(
+      resolvePath(CATALOG_STORE_PATH),
+      `${JSON.stringify(data, null, 2)}\n`
+    );
+    invalidateCatalog();
+    await appendAudit({
+      time: new Date().toISOString(),
+      actor,
+      action,
+      movie_id: movieId,
+      title: record.title,
+      changes: diffRecords(before, after),
+    });
+    return movieId;
+  });
+  // A failed write must not block the ones after it
+  queue = result.catch(() => {});
+  return result;
+}
+
+// Resolves to the new movie's id
+export function createMovie(actor: string, record: MovieRecord) {
+  return applyChange(actor, (data) => {
+    assertUnique(data, record);
+    data.movies.push(record);
+    return {
+      action: "create",
+      before: null,
+      after: record,
+      index: data.movies.length - 1,
+    };
+  });
+}
+
+// Resolves to the movie's id, which changes with the title or year of a
+// movie without a listing url. The listing url isn't editable and is kept.
+export function updateMovie(
+  actor: string,
+  id: string,
+  changes: Omit<MovieRecord, "url" | "id">
+) {
+  return applyChange(actor, (data) => {
+    const index = findIndex(data, id);
+    const before = data.movies[index];
+    const record: MovieRecord = { ...changes, url: before.url };
+    // A stored id belongs to the slug it was made from
+    if (before.id && getMovieId(record) === getMovieId(before)) {
+      record.id = before.id;
+    }
+    assertUnique(data, record, index);
+    data.movies[index] = record;
+    return { action: "update", before, after: record, index };
+  });
+}
+
+export function deleteMovie(actor: string, id: string) {
+  return applyChange(actor, (data) => {
+    const index = findIndex(data, id);
+    const [before] = data.movies.splice(index, 1);
+    return { action: "delete", before, after: null, id };
+  });
+}
+
+// Most recent first
+export async function readAuditLog(limit = 100): Promise<AuditEntry[]> {
+  let content: string;
+  try {
+    content = await readFile(resolvePath(AUDIT_PATH), "utf8");
+  } catch (err) {
+    if ((err as NodeJS.ErrnoException).code === "ENOENT") return [];
+    throw err;
+  }
+  return content
+    .split("\n")
+    .filter(Boolean)
+    .slice(-limit)
+    .reverse()
+    .map((line) => JSON.parse(line) as AuditEntry);
+}
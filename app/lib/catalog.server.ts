@@ -0,0 +1,70 @@
+/**
+ * Server-side movie catalog
+ * Loads movies.json once per process and keeps it indexed in memory so route
+ * loaders only send the slice each page needs.
+ */
+
+import { readFile } from "node:fs/promises";
+import path from "node:path";
+import { logger } from "../../server/logger";
+import { createCatalog, type Catalog } from "./catalog";
+import { normalizeMoviesData, summarizeReport } from "./catalog-schema";
+import type { MoviesData } from "./movies";
+
+// Written by the admin area (catalog-store.server.ts), once it exists it
+// replaces the catalog shipped with the build
+export const CATALOG_STORE_PATH =
+  process.env.CATALOG_STORE_PATH || "data/catalog.json";
+
+// `public/` is used by the dev server, `build/client/` by the production build
+const CATALOG_PATHS = [
+  CATALOG_STORE_PATH,
+  process.env.CATALOG_PATH,
+  "public/data/movies.json",
+  "build/client/data/movies.json",
+].filter((p): p is string => Boolean(p));
+
+let catalogPromise: Promise<Catalog> | null = null;
+
+export async function readMoviesData(): Promise<MoviesData> {
+  for (const candidate of CATALOG_PATHS) {
+    const file = path.resolve(process.cwd(), candidate);
+    try {
+      // The build normalizes the file already, this guards against hand edits
+      const { data, report } = normalizeMoviesData(
+        JSON.parse(await readFile(file, "utf8"))
+      );
+      if (report.accepted !== report.total || report.repaired.length > 0) {
+        logger.warn("catalog needed normalizing", {
+          file,
+          report: summarizeReport(report),
+        });
+      }
+      return data;
+    } catch (err) {
+      if ((err as NodeJS.ErrnoException).code === "ENOENT") continue;
+      throw err;
+    }
+  }
+  throw new Error(
+    `Movie catalog not found (looked in ${CATALOG_PATHS.join(", ")})`
+  );
+}
+
+export function getCatalog(): Promise<Catalog> {
+  if (!catalogPromise) {
+    catalogPromise = readMoviesData()
+      .then(createCatalog)
+      .catch((err) => {
+        // Don't cache a failed load, retry on the next request
+        catalogPromise = null;
+        throw err;
+      });
+  }
+  return catalogPromise;
+}
+
+// Reload on the next request, after the store was written
+export function invalidateCatalog() {
+  catalogPromise = null;
+}
@@ -0,0 +1,202 @@
+import { describe, expect, it } from "vitest";
+import {
+  createCatalog,
+  filterMovies,
+  findMovieById,
+  paginate,
+  sortMovies,
+} from "./catalog";
+import { parseMovieFilters, type MovieRecord } from "./movies";
+
+function record(fields: Partial<MovieRecord> & { title: string }): MovieRecord {
+  return {
+    year: "2000",
+    rating: "",
+    genres: [],
+    url: "",
+    image_url: "",
+    video_source: "",
+    description: "",
+    ...fields,
+  };
+}
+
+function catalogOf(records: MovieRecord[]) {
+  return createCatalog({ total_movies: records.length, movies: records });
+}
+
+const filters = (query: string) =>
+  parseMovieFilters(new URLSearchParams(query));
+
+const catalog = catalogOf([
+  record({
+    title: "Heat",
+    year: "1995",
+    rating: "8.3",
+    genres: ["Action", "Crime"],
+    description: "A group of professional bank robbers.",
+  }),
+  record({
+    title: "Up",
+    year: "2009",
+    rating: "8.3",
+    genres: ["Animation", "Adventure"],
+  }),
+  record({ title: "Arrival", year: "2016", rating: "7.9", genres: ["Drama"] }),
+  record({ title: "Unrated Drama", year: "", rating: "", genres: ["Drama"] }),
+  record({
+    title: "Inside Man",
+    year: "2006",
+    rating: "7.6",
+    genres: ["Crime", "Drama"],
+    description: "A heist in a Manhattan bank.",
+  }),
+]);
+
+const titles = (movies: { title: string }[]) => movies.map((m) => m.title);
+
+describe("createCatalog", () => {
+  it("suffixes colliding ids in catalog order", () => {
+    const twins = catalogOf([
+      record({ title: "Twins", year: "1988" }),
+      record({ title: "Twins", year: "1988" }),
+      record({ title: "Twins", year: "1988", url: "/movies/twins-1988/" }),
+    ]);
+    expect(twins.movies.map((movie) => movie.id)).toEqual([
+      "twins-1988",
+      "twins-1988-2",
+      "twins-1988-3",
+    ]);
+    expect(findMovieById(twins, "TWINS-1988-2")).toBe(twins.movies[1]);
+  });
+
+  it("keeps stored ids and suffixes around them", () => {
+    const twins = catalogOf([
+      record({ title: "Twins", year: "1988" }),
+      record({ title: "Twins", year: "1988", id: "twins-1988-2" }),
+      record({ title: "Twins", year: "1988", id: "twins-1988-2" }),
+    ]);
+    expect(twins.movies.map((movie) => movie.id)).toEqual([
+      "twins-1988",
+      "twins-1988-2",
+      "twins-1988-3",
+    ]);
+
+    const survivor = catalogOf([
+      record({ title: "Twins", year: "1988", id: "twins-1988-2" }),
+    ]);
+    expect(survivor.movies[0].id).toBe("twins-1988-2");
+  });
+
+  it("collects genres, years and the rating range", () => {
+    expect(catalog.genres).toEqual([
+      "Action",
+      "Adventure",
+      "Animation",
+      "Crime",
+      "Drama",
+    ]);
+    expect(catalog.years).toEqual(["2016", "2009", "2006", "1995"]);
+    expect(catalog.ratingRange).toEqual({ min: 7.6, max: 8.3 });
+  });
+});
+
+describe("filterMovies", () => {
+  it("keeps catalog order without filters", () => {
+    expect(titles(filterMovies(catalog, filters("")).movies)).toEqual(
+      titles(catalog.movies)
+    );
+  });
+
+  it("matches any or all of the selected genres", () => {
+    expect(
+      titles(filterMovies(catalog, filters("genre=Crime&genre=Drama")).movies)
+    ).toEqual(["Heat", "Arrival", "Unrated Drama", "Inside Man"]);
+    expect(
+      titles(
+        filterMovies(
+          catalog,
+          filters("genre=Crime&genre=Drama&genre_match=all")
+        ).movies
+      )
+    ).toEqual(["Inside Man"]);
+  });
+
+  it("leaves out movies without a value when a range is set", () => {
+    expect(
+      titles(filterMovies(catalog, filters("genre=Drama&year_to=2020")).movies)
+    ).toEqual(["Arrival", "Inside Man"]);
+    expect(
+      titles(filterMovies(catalog, filters("rating_min=8")).movies)
+    ).toEqual(["Heat", "Up"]);
+  });
+
+  it("counts facets against the other filters", () => {
+    const { facets } = filterMovies(catalog, filters("genre=Crime"));
+    // Any-mode genre counts ignore the genre filter itself
+    expect(facets.genres.Drama).toBe(3);
+    expect(facets.years).toEqual({ "1995": 1, "2006": 1 });
+  });
+
+  it("ranks search results and returns the terms to highlight", () => {
+    const result = filterMovies(catalog, filters("search=bank"));
+    expect(titles(result.movies)).toEqual(["Heat", "Inside Man"]);
+    expect(result.highlightTerms).toContain("bank");
+  });
+});
+
+describe("sortMovies", () => {
+  it("sorts by rating with ties in catalog order and missing values last", () => {
+    expect(titles(sortMovies(catalog.movies, "rating-desc"))).toEqual([
+      "Heat",
+      "Up",
+      "Arrival",
+      "Inside Man",
+      "Unrated Drama",
+    ]);
+    expect(titles(sortMovies(catalog.movies, "year-asc")).at(-1)).toBe(
+      "Unrated Drama"
+    );
+  });
+
+  it("sorts titles with a collator", () => {
+    expect(titles(sortMovies(catalog.movies, "title-asc"))).toEqual([
+      "Arrival",
+      "Heat",
+      "Inside Man",
+      "Unrated Drama",
+      "Up",
+    ]);
+  });
+
+  it("returns the same array for the default order", () => {
+    expect(sortMovies(catalog.movies, "")).toBe(catalog.movies);
+  });
+});
+
+describe("paginate", () => {
+  const items = Array.from({ length: 45 }, (_, i) => i);
+
+  it("slices a page", () => {
+    const page = paginate(items, 2, 20);
+    expect(page.movies).toEqual(items.slice(20, 40));
+    expect(page).toMatchObject({
+      totalResults: 45,
+      currentPage: 2,
+      totalPages: 3,
+      startIndex: 20,
+      perPage: 20,
+    });
+  });
+
+  it("clamps pages to the available range", () => {
+    expect(paginate(items, 99, 20).currentPage).toBe(3);
+    expect(paginate(items, 99, 20).movies).toEqual(items.slice(40));
+    expect(paginate(items, 0, 20).currentPage).toBe(1);
+    expect(paginate([], 3, 20)).toMatchObject({
+      movies: [],
+      currentPage: 1,
+      totalPages: 0,
+    });
+  });
+});
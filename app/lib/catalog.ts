@@ -0,0 +1,334 @@
+/**
+ * Movie catalog queries
+ * Indexes the catalog and answers lookups, filters, facets and sorting. Pure
+ * functions shared by route loaders and the JSON API; loading the data is
+ * left to catalog.server.ts.
+ */
+
+import { getMovieId, MOVIES_PER_PAGE, slugify, toMovie } from "./movies";
+import type {
+  Movie,
+  MovieFacets,
+  MovieFilters,
+  MovieRecord,
+  MovieSort,
+  MoviesData,
+} from "./movies";
+import { buildSearchIndex, searchDocuments, type SearchIndex } from "./search";
+
+export interface Catalog {
+  movies: Movie[];
+  byId: Map<string, Movie>;
+  byTitle: Map<string, Movie[]>;
+  byImdbId: Map<string, Movie[]>;
+  genres: string[];
+  years: string[];
+  // Lowest and highest parsed rating, null for a catalog without ratings
+  ratingRange: { min: number; max: number } | null;
+  searchIndex: SearchIndex;
+}
+
+export interface FilteredMovies {
+  movies: Movie[];
+  // Index terms matched by the search, for highlighting
+  highlightTerms: string[];
+  facets: MovieFacets;
+}
+
+function addToIndex(index: Map<string, Movie[]>, key: string, movie: Movie) {
+  const entries = index.get(key);
+  if (entries) entries.push(movie);
+  else index.set(key, [movie]);
+}
+
+// Movie ids in catalog order. Stored ids are kept, the others follow
+// catalog order so a colliding slug always gets the same suffix.
+export function movieIds(records: MovieRecord[]) {
+  const storedIds = new Set(records.flatMap((record) => record.id ?? []));
+  const ids = new Set<string>();
+  return records.map((record) => {
+    let id = record.id && !ids.has(record.id) ? record.id : null;
+    if (!id) {
+      const baseId = getMovieId(record);
+      id = baseId;
+      for (let n = 2; ids.has(id) || storedIds.has(id); n++) {
+        id = `${baseId}-${n}`;
+      }
+    }
+    ids.add(id);
+    return id;
+  });
+}
+
+// Index parsed movies.json content, movie ids follow catalog order
+export function createCatalog(data: MoviesData): Catalog {
+  const ids = movieIds(data.movies);
+  return indexMovies(data.movies.map((record, i) => toMovie(record, ids[i])));
+}
+
+// Index movies that already have ids, e.g. a subset fetched from the API
+export function indexMovies(movies: Movie[]): Catalog {
+  const byId = new Map<string, Movie>();
+  const byTitle = new Map<string, Movie[]>();
+  const byImdbId = new Map<string, Movie[]>();
+  const allGenres = new Set<string>();
+  const allYears = new Set<string>();
+  let minRating = Infinity;
+  let maxRating = -Infinity;
+
+  for (const movie of movies) {
+    byId.set(movie.id, movie);
+    addToIndex(byTitle, movie.title.toLowerCase(), movie);
+    if (movie.imdbId) addToIndex(byImdbId, movie.imdbId, movie);
+
+    movie.genres.forEach((genre) => allGenres.add(genre));
+    if (movie.yearValue !== null) allYears.add(movie.year);
+    if (movie.ratingValue !== null) {
+      minRating = Math.min(minRating, movie.ratingValue);
+      maxRating = Math.max(maxRating, movie.ratingValue);
+    }
+  }
+
+  return {
+    movies,
+    byId,
+    byTitle,
+    byImdbId,
+    genres: Array.from(allGenres).sort(),
+    years: Array.from(allYears).sort((a, b) => parseInt(b) - parseInt(a)),
+    ratingRange:
+      minRating <= maxRating ? { min: minRating, max: maxRating } : null,
+    searchIndex: buildSearchIndex(movies),
+  };
+}
+
+export function findMovieById(catalog: Catalog, id: string) {
+  return catalog.byId.get(id.toLowerCase());
+}
+
+// Legacy `/movie/:title` links and IMDb ids may match several movies
+export function findMoviesByTitleOrImdbId(catalog: Catalog, value: string) {
+  if (/^tt\d+$/i.test(value)) {
+    return catalog.byImdbId.get(value.toLowerCase()) ?? [];
+  }
+  return catalog.byTitle.get(value.toLowerCase()) ?? [];
+}
+
+const titleCollator = new Intl.Collator("en", {
+  sensitivity: "base",
+  numeric: true,
+  ignorePunctuation: true,
+});
+
+// Movies without a usable rating or year always go last
+function compareMissingLast(
+  a: number | null,
+  b: number | null,
+  direction: number
+) {
+  if (a === null || b === null) return a === b ? 0 : a === null ? 1 : -1;
+  return (a - b) * direction;
+}
+
+// Sorting is stable, so ties keep relevance (or catalog) order
+export function sortMovies(movies: Movie[], sort: MovieSort) {
+  if (sort === "") return movies;
+
+  const [field, order] = sort.split("-");
+  const direction = order === "asc" ? 1 : -1;
+
+  return [...movies].sort((a, b) => {
+    if (field === "rating") {
+      return compareMissingLast(a.ratingValue, b.ratingValue, direction);
+    }
+    if (field === "year") {
+      return compareMissingLast(a.yearValue, b.yearValue, direction);
+    }
+    return titleCollator.compare(a.title, b.title) * direction;
+  });
+}
+
+// With either bound set, movies missing the value never match
+function inRange(value: number | null, min: number | null, max: number | null) {
+  if (min === null && max === null) return true;
+  if (value === null) return false;
+  return (min === null || value >= min) && (max === null || value <= max);
+}
+
+type FacetField = "genre" | "year" | "rating";
+
+function matchesGenres(movie: Movie, filters: MovieFilters) {
+  if (filters.genres.length === 0) return true;
+  return filters.genreMatch === "all"
+    ? filters.genres.every((genre) => movie.genres.includes(genre))
+    : filters.genres.some((genre) => movie.genres.includes(genre));
+}
+
+// Check every filter except search, optionally ignoring the one a facet is counted for
+function matchesFilters(
+  movie: Movie,
+  filters: MovieFilters,
+  skip?: FacetField
+) {
+  const matchesGenre = skip === "genre" || matchesGenres(movie, filters);
+
+  const matchesYear =
+    skip === "year" ||
+    inRange(movie.yearValue, filters.yearFrom, filters.yearTo);
+
+  const matchesRating =
+    skip === "rating" ||
+    inRange(movie.ratingValue, filters.ratingMin, filters.ratingMax);
+
+  return matchesGenre && matchesYear && matchesRating;
+}
+
+function increment(counts: Record<string, number>, key: string) {
+  counts[key] = (counts[key] ?? 0) + 1;
+}
+
+/**
+ * Count results per genre, year and rating, each against every other active
+ * filter. In match-all mode a genre's count is how many results adding it
+ * would leave; in match-any mode it's how many results carry it.
+ */
+function countFacets(candidates: Movie[], filters: MovieFilters): MovieFacets {
+  const facets: MovieFacets = { genres: {}, years: {}, ratings: {} };
+  const andMode = filters.genreMatch === "all";
+
+  for (const movie of candidates) {
+    if (matchesFilters(movie, filters, andMode ? undefined : "genre")) {
+      movie.genres.forEach((genre) => increment(facets.genres, genre));
+    }
+    if (movie.yearValue !== null && matchesFilters(movie, filters, "year")) {
+      increment(facets.years, String(movie.yearValue));
+    }
+    if (
+      movie.ratingValue !== null &&
+      matchesFilters(movie, filters, "rating")
+    ) {
+      increment(facets.ratings, movie.ratingValue.toFixed(1));
+    }
+  }
+  return facets;
+}
+
+// Searches are ranked by relevance, otherwise movies keep their catalog order
+// unless another sort is requested
+export function filterMovies(
+  catalog: Catalog,
+  filters: MovieFilters
+): FilteredMovies {
+  let candidates = catalog.movies;
+  let highlightTerms: string[] = [];
+
+  if (filters.search.trim() !== "") {
+    const result = searchDocuments(catalog.searchIndex, filters.search);
+    candidates = result.hits.map((hit) => catalog.movies[hit.index]);
+    highlightTerms = result.matchedTerms;
+  }
+
+  const movies = candidates.filter((movie) => matchesFilters(movie, filters));
+
+  return {
+    movies: sortMovies(movies, filters.sort),
+    highlightTerms,
+    facets: countFacets(candidates, filters),
+  };
+}
+
+export interface MoviePage<T> {
+  movies: T[];
+  totalResults: number;
+  currentPage: number;
+  totalPages: number;
+  startIndex: number;
+  perPage: number;
+}
+
+// Slice one page of results, pages past the end are clamped to the last page
+export function paginate<T>(
+  items: T[],
+  page: number,
+  perPage: number = MOVIES_PER_PAGE
+): MoviePage<T> {
+  const totalPages = Math.ceil(items.length / perPage);
+  const currentPage = Math.min(Math.max(page, 1), Math.max(totalPages, 1));
+  const startIndex = (currentPage - 1) * perPage;
+
+  return {
+    movies: items.slice(startIndex, startIndex + perPage),
+    totalResults: items.length,
+    currentPage,
+    totalPages,
+    startIndex,
+    perPage,
+  };
+}
+
+// Genres appear in URLs as slugs, e.g. "Sci-Fi" -> "sci-fi"
+export function findGenreBySlug(catalog: Catalog, slug: string) {
+  return catalog.genres.find((genre) => slugify(genre) === slug.toLowerCase());
+}
+
+// The movies of a genre or year page, in catalog order
+export function moviesInGenre(catalog: Catalog, genre: string) {
+  return catalog.movies.filter((movie) => movie.genres.includes(genre));
+}
+
+export function moviesInYear(catalog: Catalog, year: number) {
+  return catalog.movies.filter((movie) => movie.yearValue === year);
+}
+
+export function countByGenre(catalog: Catalog) {
+  const counts = new Map<string, number>();
+  for (const movie of catalog.movies) {
+    for (const genre of movie.genres) {
+      counts.set(genre, (counts.get(genre) ?? 0) + 1);
+    }
+  }
+  return catalog.genres.map((name) => ({
+    name,
+    count: counts.get(name) ?? 0,
+  }));
+}
+
+export function countByYear(catalog: Catalog) {
+  const counts = new Map<string, number>();
+  for (const movie of catalog.movies) {
+    counts.set(movie.year, (counts.get(movie.year) ?? 0) + 1);
+  }
+  return catalog.years.map((year) => ({
+    year,
+    count: counts.get(year) ?? 0,
+  }));
+}
+
+const RATING_STEP = 0.5;
+
+// Half-point rating bounds covering the catalog, e.g. 6.0, 6.5, ... 10.0
+function ratingSteps(range: Catalog["ratingRange"]) {
+  if (!range) return [];
+  const steps: string[] = [];
+  const first = Math.floor(range.min / RATING_STEP) * RATING_STEP;
+  const last = Math.ceil(range.max / RATING_STEP) * RATING_STEP;
+  for (let step = first; step <= last; step += RATING_STEP) {
+    steps.push(step.toFixed(1));
+  }
+  return steps;
+}
+
+export interface FilterOptions {
+  genres: string[];
+  years: string[];
+  ratingSteps: string[];
+}
+
+// Choices offered by the filter panel
+export function getFilterOptions(catalog: Catalog): FilterOptions {
+  return {
+    genres: catalog.genres,
+    years: catalog.years,
+    ratingSteps: ratingSteps(catalog.ratingRange),
+  };
+}
@@ -0,0 +1,27 @@
+/**
+ * File helpers for data the server writes at runtime
+ */
+
+import { randomUUID } from "node:crypto";
+import { mkdir, open, rename, rm } from "node:fs/promises";
+import path from "node:path";
+
+// Write to a temporary file in the same directory, flush it and rename it
+// over the old one, so readers never see a half-written file
+export async function writeFileAtomic(file: string, content: string) {
+  await mkdir(path.dirname(file), { recursive: true });
+  const tmp = `${file}.${randomUUID()}.tmp`;
+  try {
+    const handle = await open(tmp, "w");
+    try {
+      await handle.writeFile(content);
+      await handle.sync();
+    } finally {
+      await handle.close();
+    }
+    await rename(tmp, file);
+  } catch (err) {
+    await rm(tmp, { force: true });
+    throw err;
+  }
+}
@@ -0,0 +1,32 @@
+/**
+ * Locale of a request
+ * Picks the interface language for the root loader, see i18n.ts.
+ */
+
+import { createCookie } from "react-router";
+import {
+  DEFAULT_LOCALE,
+  isLocale,
+  LOCALE_PARAM,
+  negotiateLocale,
+  type Locale,
+} from "./i18n";
+
+// Set by the language switcher, see routes/locale.ts
+export const localeCookie = createCookie("lang", {
+  path: "/",
+  maxAge: 60 * 60 * 24 * 365,
+  sameSite: "lax",
+});
+
+// An explicit `?lang=` first, then the saved choice, then the browser's
+// languages. A `?lang=` link doesn't save anything, the page stays cacheable.
+export async function resolveLocale(request: Request): Promise<Locale> {
+  const param = new URL(request.url).searchParams.get(LOCALE_PARAM);
+  if (isLocale(param)) return param;
+  const saved = await localeCookie.parse(request.headers.get("Cookie"));
+  if (isLocale(saved)) return saved;
+  return (
+    negotiateLocale(request.headers.get("Accept-Language")) ?? DEFAULT_LOCALE
+  );
+}
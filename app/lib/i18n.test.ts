@@ -0,0 +1,66 @@
+import { describe, expect, it } from "vitest";
+import { getTranslator, localePath, negotiateLocale } from "./i18n";
+
+describe("getTranslator", () => {
+  const en = getTranslator("en");
+  const es = getTranslator("es");
+
+  it("fills placeholders and formats numbers for the locale", () => {
+    expect(en.t("genres.movieCount", { count: 1234 })).toBe("1,234 movies");
+    expect(es.t("genres.movieCount", { count: 1234 })).toBe("1234 películas");
+    expect(es.t("genres.movieCount", { count: 12345 })).toBe(
+      "12.345 películas"
+    );
+  });
+
+  it("picks the plural form of the count", () => {
+    expect(en.t("home.matchingResults", { count: 1 })).toBe(
+      "1 matching result"
+    );
+    expect(en.t("home.matchingResults", { count: 0 })).toBe(
+      "0 matching results"
+    );
+    expect(es.t("genres.movieCount", { count: 1 })).toBe("1 película");
+  });
+
+  it("leaves placeholders without a value", () => {
+    expect(en.t("genres.movieCount")).toBe("{count} movies");
+  });
+
+  it("translates genres, keeping unknown ones", () => {
+    expect(es.genreName("Crime")).toBe("Crimen");
+    expect(es.genreName("Mumblecore")).toBe("Mumblecore");
+    expect(en.genreName("Crime")).toBe("Crime");
+  });
+});
+
+describe("negotiateLocale", () => {
+  it("picks the best weighted supported language", () => {
+    expect(negotiateLocale("fr-FR, es;q=0.8, en;q=0.5")).toBe("es");
+    expect(negotiateLocale("en;q=0.3, es-MX;q=0.9")).toBe("es");
+  });
+
+  it("keeps the browser's order for equal weights", () => {
+    expect(negotiateLocale("en-GB, es")).toBe("en");
+  });
+
+  it("gives the default for a wildcard and null without a match", () => {
+    expect(negotiateLocale("fr, *;q=0.1")).toBe("en");
+    expect(negotiateLocale("fr, de")).toBeNull();
+    expect(negotiateLocale("es;q=0, fr")).toBeNull();
+    expect(negotiateLocale(null)).toBeNull();
+  });
+});
+
+describe("localePath", () => {
+  it("adds the language param for other locales only", () => {
+    const location = { pathname: "/genre/crime", search: "?page=2" };
+
+    expect(localePath(location, "es")).toBe("/genre/crime?page=2&lang=es");
+    expect(localePath(location, "en")).toBe("/genre/crime?page=2");
+  });
+
+  it("drops the param without a locale", () => {
+    expect(localePath({ pathname: "/", search: "?lang=es" })).toBe("/");
+  });
+});
@@ -0,0 +1,143 @@
+/**
+ * Interface translations
+ * Message catalogs live in app/locales, one module per locale. Messages
+ * take `{name}` placeholders, numbers are formatted for the locale, and a
+ * message with a `{count}` can have a form per plural category. The locale
+ * of a request is picked by i18n.server.ts and read with `useTranslation()`.
+ */
+
+import { useRouteLoaderData } from "react-router";
+import * as en from "../locales/en";
+import * as es from "../locales/es";
+
+export const LOCALES = {
+  en: "English",
+  es: "Español",
+} as const;
+
+export type Locale = keyof typeof LOCALES;
+
+export const DEFAULT_LOCALE: Locale = "en";
+export const LOCALE_CODES = Object.keys(LOCALES) as Locale[];
+
+// Links to another language, e.g. the hreflang alternates. The default
+// locale's pages go without it.
+export const LOCALE_PARAM = "lang";
+
+export type MessageKey = keyof typeof en.messages;
+type PluralMessage = Partial<Record<Intl.LDMLPluralRule, string>> & {
+  other: string;
+};
+export type Messages = Record<MessageKey, string | PluralMessage>;
+
+const CATALOGS: Record<
+  Locale,
+  { messages: Messages; genres?: Record<string, string> }
+> = { en, es };
+
+export function isLocale(value: unknown): value is Locale {
+  return typeof value === "string" && Object.hasOwn(LOCALES, value);
+}
+
+// The best supported match of an Accept-Language header, null when none is
+export function negotiateLocale(acceptLanguage: string | null) {
+  if (!acceptLanguage) return null;
+  const ranges = acceptLanguage
+    .split(",")
+    .map((part) => {
+      const [tag, ...params] = part.trim().split(";");
+      const q = params.find((param) => param.trim().startsWith("q="));
+      return {
+        language: tag.trim().toLowerCase().split("-")[0],
+        quality: q ? Number(q.trim().slice(2)) : 1,
+      };
+    })
+    .filter(({ language, quality }) => language && quality > 0)
+    // Stable, so equal weights keep the browser's order
+    .sort((a, b) => b.quality - a.quality);
+  for (const { language } of ranges) {
+    if (language === "*") return DEFAULT_LOCALE;
+    if (isLocale(language)) return language;
+  }
+  return null;
+}
+
+export type MessageParams = Record<string, string | number>;
+
+export interface Translator {
+  locale: Locale;
+  t: (key: MessageKey, params?: MessageParams) => string;
+  formatNumber: (value: number) => string;
+  // Display name of a catalog genre, the English name when there's none
+  genreName: (genre: string) => string;
+}
+
+function createTranslator(locale: Locale): Translator {
+  const { messages, genres = {} } = CATALOGS[locale];
+  const numberFormat = new Intl.NumberFormat(locale);
+  const pluralRules = new Intl.PluralRules(locale);
+  const formatNumber = (value: number) => numberFormat.format(value);
+
+  return {
+    locale,
+    t(key, params = {}) {
+      const message = messages[key];
+      const template =
+        typeof message === "string"
+          ? message
+          : (message[pluralRules.select(Number(params.count))] ??
+            message.other);
+      return template.replace(/\{(\w+)\}/g, (placeholder, name: string) => {
+        const value = params[name];
+        if (value === undefined) return placeholder;
+        return typeof value === "number" ? formatNumber(value) : value;
+      });
+    },
+    formatNumber,
+    genreName: (genre) => genres[genre] ?? genre,
+  };
+}
+
+const translators = new Map<Locale, Translator>();
+
+export function getTranslator(locale: Locale) {
+  let translator = translators.get(locale);
+  if (!translator) {
+    translator = createTranslator(locale);
+    translators.set(locale, translator);
+  }
+  return translator;
+}
+
+// The locale the root loader picked, the default while it has no data
+// (e.g. in the root ErrorBoundary)
+export function useLocale(): Locale {
+  const data = useRouteLoaderData("root") as { locale?: Locale } | undefined;
+  return data?.locale ?? DEFAULT_LOCALE;
+}
+
+export function useTranslation() {
+  return getTranslator(useLocale());
+}
+
+// `meta()` can't use hooks, it reads the root loader data from its matches
+export function getMetaTranslator(
+  matches: ({ id: string; data?: unknown } | undefined)[]
+) {
+  const root = matches.find((match) => match?.id === "root");
+  const locale = (root?.data as { locale?: Locale } | undefined)?.locale;
+  return getTranslator(locale ?? DEFAULT_LOCALE);
+}
+
+// A page in a locale: the canonical URL and hreflang alternate of that
+// language. Without a locale, the page in the visitor's language.
+export function localePath(
+  { pathname, search }: { pathname: string; search: string },
+  locale?: Locale
+) {
+  const params = new URLSearchParams(search);
+  params.delete(LOCALE_PARAM);
+  if (locale && locale !== DEFAULT_LOCALE) params.set(LOCALE_PARAM, locale);
+  const query = params.toString();
+  return query ? `${pathname}?${query}` : pathname;
+}
@@ -0,0 +1,146 @@
+import { createServer, type Server } from "node:http";
+import type { AddressInfo } from "node:net";
+import { afterAll, beforeAll, beforeEach, describe, expect, it } from "vitest";
+import { checkLink, checkLinks } from "./link-checker.server";
+
+// A local stub for the links, each path answers differently
+let server: Server;
+let origin: string;
+const hits = new Map<string, number>();
+let active = 0;
+let maxActive = 0;
+
+beforeAll(async () => {
+  server = createServer((req, res) => {
+    const path = req.url ?? "/";
+    hits.set(path, (hits.get(path) ?? 0) + 1);
+    if (path === "/poster.jpg") {
+      res.writeHead(200, { "Content-Type": "image/jpeg" }).end();
+    } else if (path === "/page.html") {
+      res.writeHead(200, { "Content-Type": "text/html" }).end("<p>hi</p>");
+    } else if (path === "/flaky") {
+      res.writeHead(503, { "Retry-After": "0" }).end();
+    } else if (path === "/slow") {
+      // Never answers
+    } else if (path.startsWith("/busy/")) {
+      active++;
+      maxActive = Math.max(maxActive, active);
+      setTimeout(() => {
+        active--;
+        res.writeHead(200, { "Content-Type": "image/png" }).end();
+      }, 30);
+    } else {
+      res.writeHead(404).end();
+    }
+  });
+  await new Promise<void>((resolve) => server.listen(0, "127.0.0.1", resolve));
+  origin = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+});
+
+afterAll(() => {
+  server.closeAllConnections();
+  server.close();
+});
+
+beforeEach(() => {
+  hits.clear();
+  active = 0;
+  maxActive = 0;
+});
+
+const options = { timeoutMs: 1000, retries: 2 };
+
+describe("checkLink", () => {
+  it("accepts an image", async () => {
+    const check = await checkLink(
+      { url: `${origin}/poster.jpg`, kind: "image" },
+      options
+    );
+    expect(check).toMatchObject({
+      status: "ok",
+      http_status: 200,
+      attempts: 1,
+    });
+  });
+
+  it("reports a 404 as broken without retrying", async () => {
+    const check = await checkLink(
+      { url: `${origin}/missing.jpg`, kind: "image" },
+      options
+    );
+    expect(check).toMatchObject({
+      status: "broken",
+      http_status: 404,
+      attempts: 1,
+    });
+    expect(hits.get("/missing.jpg")).toBe(1);
+  });
+
+  it("reports a poster that isn't an image as broken", async () => {
+    const check = await checkLink(
+      { url: `${origin}/page.html`, kind: "image" },
+      options
+    );
+    expect(check.status).toBe("broken");
+    expect(check.reason).toMatch(/not an image \(text\/html\)/);
+  });
+
+  it("only checks the content type of posters", async () => {
+    const check = await checkLink(
+      { url: `${origin}/page.html`, kind: "video" },
+      options
+    );
+    expect(check.status).toBe("ok");
+  });
+
+  it("retries a 5xx up to `retries` times, then gives up as unknown", async () => {
+    const check = await checkLink(
+      { url: `${origin}/flaky`, kind: "video" },
+      options
+    );
+    expect(check).toMatchObject({
+      status: "unknown",
+      http_status: 503,
+      reason: "HTTP 503",
+      attempts: 3,
+    });
+    // HEAD and the GET fallback per attempt
+    expect(hits.get("/flaky")).toBe(6);
+  });
+
+  it("reports a timeout as unknown", async () => {
+    const check = await checkLink(
+      { url: `${origin}/slow`, kind: "video" },
+      { timeoutMs: 100, retries: 0 }
+    );
+    expect(check).toMatchObject({
+      status: "unknown",
+      reason: "timed out after 100ms",
+      attempts: 1,
+    });
+  });
+});
+
+describe("checkLinks", () => {
+  it("runs at most `perHost` requests to one host at a time", async () => {
+    const jobs = Array.from({ length: 8 }, (_, i) => ({
+      url: `${origin}/busy/${i}.png`,
+      kind: "image" as const,
+    }));
+    const seen: string[] = [];
+    const checks = await checkLinks(
+      jobs,
+      { timeoutMs: 1000, retries: 0, concurrency: 8, perHost: 2 },
+      (job) => seen.push(job.url)
+    );
+
+    expect(maxActive).toBe(2);
+    expect(checks.map((check) => check.url)).toEqual(jobs.map((j) => j.url));
+    expect(checks.every((check) => check.status === "ok")).toBe(true);
+    expect(seen.sort()).toEqual(jobs.map((job) => job.url).sort());
+  });
+
+  it("resolves an empty job list", async () => {
+    expect(await checkLinks([])).toEqual([]);
+  });
+});
@@ -0,0 +1,210 @@
+/**
+ * Link checker
+ * Requests each link with a timeout, retries what may be temporary (timeouts,
+ * network errors, 429 and 5xx) with backoff, and limits how many requests run
+ * at once overall and per host. Only headers are read, bodies are cancelled.
+ */
+
+import type { LinkCheck, LinkKind, LinkStatus } from "./link-health";
+
+export interface LinkCheckOptions {
+  timeoutMs: number;
+  // Attempts after the first one
+  retries: number;
+  concurrency: number;
+  // Most hosts serve every poster or every embed, so this is the real limit
+  perHost: number;
+}
+
+export const DEFAULT_LINK_CHECK_OPTIONS: LinkCheckOptions = {
+  timeoutMs: 10_000,
+  retries: 2,
+  concurrency: 8,
+  perHost: 2,
+};
+
+export interface LinkJob {
+  url: string;
+  kind: LinkKind;
+}
+
+const USER_AGENT = "SilverStream-LinkChecker/1.0";
+const RETRY_BASE_MS = 500;
+const MAX_RETRY_DELAY_MS = 30_000;
+
+interface AttemptResult {
+  status: LinkStatus;
+  http_status?: number;
+  reason?: string;
+  retry: boolean;
+  retryAfterMs?: number;
+}
+
+function retryAfterMs(response: Response) {
+  const header = response.headers.get("Retry-After");
+  if (!header) return undefined;
+  const seconds = Number(header);
+  if (!Number.isNaN(seconds)) return seconds * 1000;
+  const date = Date.parse(header);
+  return Number.isNaN(date) ? undefined : Math.max(0, date - Date.now());
+}
+
+function classify(response: Response, kind: LinkKind): AttemptResult {
+  const { status } = response;
+  if (response.ok) {
+    const type = response.headers.get("Content-Type") ?? "";
+    if (kind === "image" && !type.startsWith("image/")) {
+      return {
+        status: "broken",
+        http_status: status,
+        reason: `not an image (${type || "no Content-Type"})`,
+        retry: false,
+      };
+    }
+    return { status: "ok", http_status: status, retry: false };
+  }
+  if (status === 408 || status === 429 || status >= 500) {
+    return {
+      status: "unknown",
+      http_status: status,
+      reason: `HTTP ${status}`,
+      retry: true,
+      retryAfterMs: retryAfterMs(response),
+    };
+  }
+  // Bot protection, says nothing about the link itself
+  if (status === 401 || status === 403) {
+    return {
+      status: "unknown",
+      http_status: status,
+      reason: `HTTP ${status}, access denied`,
+      retry: false,
+    };
+  }
+  return {
+    status: "broken",
+    http_status: status,
+    reason: `HTTP ${status}`,
+    retry: false,
+  };
+}
+
+async function request(url: string, method: "HEAD" | "GET", timeoutMs: number) {
+  const response = await fetch(url, {
+    method,
+    redirect: "follow",
+    headers: { "User-Agent": USER_AGENT, Accept: "*/*" },
+    signal: AbortSignal.timeout(timeoutMs),
+  });
+  await response.body?.cancel();
+  return response;
+}
+
+async function attempt(
+  { url, kind }: LinkJob,
+  timeoutMs: number
+): Promise<AttemptResult> {
+  try {
+    let response = await request(url, "HEAD", timeoutMs);
+    // Plenty of servers don't implement HEAD, or answer it differently
+    if (!response.ok && response.status !== 404 && response.status !== 410) {
+      response = await request(url, "GET", timeoutMs);
+    }
+    return classify(response, kind);
+  } catch (err) {
+    const reason =
+      err instanceof DOMException && err.name === "TimeoutError"
+        ? `timed out after ${timeoutMs}ms`
+        : err instanceof Error
+          ? ((err.cause as Error | undefined)?.message ?? err.message)
+          : String(err);
+    return { status: "unknown", reason, retry: true };
+  }
+}
+
+const sleep = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+export async function checkLink(
+  job: LinkJob,
+  {
+    timeoutMs,
+    retries,
+  }: Pick<
+    LinkCheckOptions,
+    "timeoutMs" | "retries"
+  > = DEFAULT_LINK_CHECK_OPTIONS
+): Promise<LinkCheck> {
+  let attempts = 0;
+  for (;;) {
+    attempts++;
+    const result = await attempt(job, timeoutMs);
+    if (!result.retry || attempts > retries) {
+      return {
+        url: job.url,
+        status: result.status,
+        ...(result.http_status && { http_status: result.http_status }),
+        ...(result.reason && { reason: result.reason }),
+        attempts,
+        checked_at: new Date().toISOString(),
+      };
+    }
+    const backoff = RETRY_BASE_MS * 2 ** (attempts - 1) * (1 + Math.random());
+    await sleep(Math.min(result.retryAfterMs ?? backoff, MAX_RETRY_DELAY_MS));
+  }
+}
+
+function hostOf(url: string) {
+  try {
+    return new URL(url).host;
+  } catch {
+    return "";
+  }
+}
+
+/**
+ * Check every job, at most `concurrency` at a time and `perHost` per host.
+ * `onResult` is called as each check finishes, results keep the job order.
+ */
+export function checkLinks(
+  jobs: LinkJob[],
+  options: LinkCheckOptions = DEFAULT_LINK_CHECK_OPTIONS,
+  onResult?: (job: LinkJob, check: LinkCheck) => void
+): Promise<LinkCheck[]> {
+  const results: LinkCheck[] = new Array(jobs.length);
+  const pending = jobs.map((job, index) => ({ job, index }));
+  const activeByHost = new Map<string, number>();
+  let active = 0;
+
+  return new Promise((resolve, reject) => {
+    const schedule = () => {
+      if (pending.length === 0 && active === 0) {
+        resolve(results);
+        return;
+      }
+      while (active < options.concurrency) {
+        const next = pending.findIndex(
+          ({ job }) =>
+            (activeByHost.get(hostOf(job.url)) ?? 0) < options.perHost
+        );
+        if (next === -1) return;
+        const [{ job, index }] = pending.splice(next, 1);
+        const host = hostOf(job.url);
+        active++;
+        activeByHost.set(host, (activeByHost.get(host) ?? 0) + 1);
+
+        checkLink(job, options)
+          .then((check) => {
+            results[index] = check;
+            onResult?.(job, check);
+          })
+          .then(() => {
+            active--;
+            activeByHost.set(host, activeByHost.get(host)! - 1);
+            schedule();
+          })
+          .catch(reject);
+      }
+    };
+    schedule();
+  });
+}
@@ -0,0 +1,78 @@
+import { mkdtemp, rm, utimes, writeFile } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import path from "node:path";
+import { afterAll, beforeAll, describe, expect, it, vi } from "vitest";
+import type { LinkHealthReport } from "./link-health";
+
+// The module reads LINK_HEALTH_PATH on import, see beforeAll
+let readLinkHealth: typeof import("./link-health.server").readLinkHealth;
+
+let dir: string;
+let file: string;
+let mtime = 1_700_000_000;
+
+// The report is cached by modification time, give each write a new one
+async function writeReport(content: string) {
+  await writeFile(file, content);
+  mtime += 1;
+  await utimes(file, mtime, mtime);
+}
+
+beforeAll(async () => {
+  dir = await mkdtemp(path.join(tmpdir(), "link-health-"));
+  file = path.join(dir, "link-health.json");
+  vi.stubEnv("LINK_HEALTH_PATH", file);
+  ({ readLinkHealth } = await import("./link-health.server"));
+});
+
+afterAll(async () => {
+  vi.unstubAllEnvs();
+  await rm(dir, { recursive: true, force: true });
+});
+
+const empty = { checked_at: null, movies: {} };
+
+describe("readLinkHealth", () => {
+  it("gives an empty report without a file", async () => {
+    expect(await readLinkHealth()).toEqual(empty);
+  });
+
+  it("reads a saved report", async () => {
+    const report: LinkHealthReport = {
+      checked_at: "2025-01-01T00:00:00.000Z",
+      movies: {
+        "heat-1995": {
+          title: "Heat",
+          links: {
+            video: {
+              url: "https://example.com/embed/heat",
+              status: "broken",
+              http_status: 404,
+              attempts: 1,
+              checked_at: "2025-01-01T00:00:00.000Z",
+            },
+          },
+        },
+      },
+    };
+    await writeReport(JSON.stringify(report));
+
+    expect(await readLinkHealth()).toEqual(report);
+  });
+
+  it("ignores a report that isn't valid", async () => {
+    await writeReport('{"checked_at": null, "movies": {"heat-1995": {"ti');
+    expect(await readLinkHealth()).toEqual(empty);
+
+    await writeReport(
+      JSON.stringify({
+        checked_at: null,
+        movies: { "heat-1995": { title: "Heat", links: { video: "broken" } } },
+      })
+    );
+    expect(await readLinkHealth()).toEqual(empty);
+
+    await writeReport("[]");
+    expect(await readLinkHealth()).toEqual(empty);
+  });
+});
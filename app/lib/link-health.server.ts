@@ -0,0 +1,183 @@
+/**
+ * Saved link health
+ * The report written by `npm run links:check` (LINK_HEALTH_PATH), read back
+ * whenever the file changes. LINK_HEALTH_MODE decides what the home grid does
+ * with movies whose links are known to be broken: nothing (`off`), show a
+ * badge (`badge`) or leave them out (`hide`).
+ */
+
+import { readFile, stat } from "node:fs/promises";
+import path from "node:path";
+import { logger } from "../../server/logger";
+import { indexMovies, type Catalog } from "./catalog";
+import { writeFileAtomic } from "./files.server";
+import type { LinkJob } from "./link-checker.server";
+import {
+  brokenLinks,
+  LINK_FIELDS,
+  LINK_KINDS,
+  LINK_STATUSES,
+  type LinkCheck,
+  type LinkHealthReport,
+  type LinkKind,
+} from "./link-health";
+import type { Movie } from "./movies";
+import { sourceUrl } from "./posters.server";
+
+export const LINK_HEALTH_PATH = path.resolve(
+  process.cwd(),
+  process.env.LINK_HEALTH_PATH || "data/link-health.json"
+);
+
+export const LINK_HEALTH_MODES = ["off", "badge", "hide"] as const;
+export type LinkHealthMode = (typeof LINK_HEALTH_MODES)[number];
+
+export function linkHealthMode(): LinkHealthMode {
+  const mode = process.env.LINK_HEALTH_MODE;
+  return LINK_HEALTH_MODES.find((m) => m === mode) ?? "off";
+}
+
+const EMPTY_REPORT: LinkHealthReport = { checked_at: null, movies: {} };
+
+let cached: { mtimeMs: number; report: LinkHealthReport } | null = null;
+// Saves from the admin area go one at a time
+let queue: Promise<unknown> = Promise.resolve();
+
+function isObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+function isLinkCheck(value: unknown): value is LinkCheck {
+  return (
+    isObject(value) &&
+    typeof value.url === "string" &&
+    LINK_STATUSES.some((status) => status === value.status) &&
+    typeof value.attempts === "number" &&
+    typeof value.checked_at === "string"
+  );
+}
+
+// A hand-edited or truncated file is ignored rather than breaking the pages
+// that list movies
+function isLinkHealthReport(value: unknown): value is LinkHealthReport {
+  if (!isObject(value) || !isObject(value.movies)) return false;
+  if (value.checked_at !== null && typeof value.checked_at !== "string") {
+    return false;
+  }
+  return Object.values(value.movies).every(
+    (entry) =>
+      isObject(entry) &&
+      typeof entry.title === "string" &&
+      isObject(entry.links) &&
+      Object.entries(entry.links).every(
+        ([kind, check]) =>
+          LINK_KINDS.some((k) => k === kind) && isLinkCheck(check)
+      )
+  );
+}
+
+export async function readLinkHealth(): Promise<LinkHealthReport> {
+  let mtimeMs: number;
+  try {
+    ({ mtimeMs } = await stat(LINK_HEALTH_PATH));
+  } catch (err) {
+    if ((err as NodeJS.ErrnoException).code === "ENOENT") return EMPTY_REPORT;
+    throw err;
+  }
+  if (cached?.mtimeMs !== mtimeMs) {
+    let report: unknown;
+    try {
+      report = JSON.parse(await readFile(LINK_HEALTH_PATH, "utf8"));
+    } catch (err) {
+      if (!(err instanceof SyntaxError)) throw err;
+    }
+    if (!isLinkHealthReport(report)) {
+      logger.warn("invalid link health report, ignoring it", {
+        file: LINK_HEALTH_PATH,
+      });
+      report = EMPTY_REPORT;
+    }
+    cached = { mtimeMs, report: report as LinkHealthReport };
+  }
+  return cached.report;
+}
+
+// Read, change and save the report, `update` gets a copy it may change
+export function updateLinkHealth(
+  update: (report: LinkHealthReport) => void
+): Promise<LinkHealthReport> {
+  const result = queue.then(async () => {
+    const report = structuredClone(await readLinkHealth());
+    update(report);
+    await writeFileAtomic(
+      LINK_HEALTH_PATH,
+      `${JSON.stringify(report, null, 2)}\n`
+    );
+    return report;
+  });
+  queue = result.catch(() => {});
+  return result;
+}
+
+// What to check for a movie. Posters are fetched by the poster proxy, so its
+// POSTER_ORIGIN applies here too.
+export function movieLinkJobs(
+  movie: Pick<Movie, "image_url" | "video_source">,
+  kinds: readonly LinkKind[] = LINK_KINDS
+): LinkJob[] {
+  return kinds.flatMap((kind) => {
+    const url = movie[LINK_FIELDS[kind]];
+    if (!url) return [];
+    return [{ kind, url: kind === "image" ? sourceUrl(url) : url }];
+  });
+}
+
+// Record checks of one movie, keeping earlier checks of its other links
+export function setMovieLinkHealth(
+  report: LinkHealthReport,
+  movie: Pick<Movie, "id" | "title">,
+  checks: { kind: LinkKind; check: LinkCheck }[]
+) {
+  const entry = report.movies[movie.id] ?? { title: movie.title, links: {} };
+  entry.title = movie.title;
+  for (const { kind, check } of checks) entry.links[kind] = check;
+  if (Object.keys(entry.links).length > 0) report.movies[movie.id] = entry;
+}
+
+const listingCatalogs = new WeakMap<
+  Catalog,
+  { report: LinkHealthReport; mode: LinkHealthMode; catalog: Catalog }
+>();
+
+/**
+ * The catalog the home grid and the movies API list from: without movies
+ * whose video is broken in `hide` mode (a broken poster already falls back to
+ * the placeholder), with `linkIssues` set on movies with any broken link in
+ * `badge` mode. Only links that still match the movie count, an edited link
+ * is assumed fixed until it is checked again.
+ */
+export async function getListingCatalog(catalog: Catalog): Promise<Catalog> {
+  const mode = linkHealthMode();
+  if (mode === "off") return catalog;
+  const report = await readLinkHealth();
+  const memo = listingCatalogs.get(catalog);
+  if (memo?.report === report && memo.mode === mode) return memo.catalog;
+
+  const issues = (movie: Movie) => {
+    const health = report.movies[movie.id];
+    return brokenLinks(health).filter(
+      (kind) =>
+        health!.links[kind]!.url === movieLinkJobs(movie, [kind])[0]?.url
+    );
+  };
+  const movies =
+    mode === "hide"
+      ? catalog.movies.filter((movie) => !issues(movie).includes("video"))
+      : catalog.movies.map((movie) => {
+          const linkIssues = issues(movie);
+          return linkIssues.length > 0 ? { ...movie, linkIssues } : movie;
+        });
+  const listing = indexMovies(movies);
+  listingCatalogs.set(catalog, { report, mode, catalog: listing });
+  return listing;
+}
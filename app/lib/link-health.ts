@@ -0,0 +1,58 @@
+/**
+ * Link health of catalog movies
+ * The result of checking each movie's `image_url` and `video_source`, as
+ * saved by `npm run links:check` and shown in the admin area. See
+ * link-checker.server.ts for how links are checked.
+ */
+
+export const LINK_KINDS = ["image", "video"] as const;
+export type LinkKind = (typeof LINK_KINDS)[number];
+
+export const LINK_FIELDS = {
+  image: "image_url",
+  video: "video_source",
+} as const;
+
+// `broken` is a definite answer (404, not an image), `unknown` means the
+// check couldn't tell (timeouts, 5xx, blocked) even after retrying
+export const LINK_STATUSES = ["ok", "broken", "unknown"] as const;
+export type LinkStatus = (typeof LINK_STATUSES)[number];
+
+export interface LinkCheck {
+  url: string;
+  status: LinkStatus;
+  http_status?: number;
+  // Why the link failed, e.g. "timed out after 10000ms"
+  reason?: string;
+  attempts: number;
+  checked_at: string;
+}
+
+export interface MovieLinkHealth {
+  title: string;
+  links: Partial<Record<LinkKind, LinkCheck>>;
+}
+
+export interface LinkHealthReport {
+  checked_at: string | null;
+  // By movie id, movies without links to check are left out
+  movies: Record<string, MovieLinkHealth>;
+}
+
+// Only definite failures hide or badge a movie, a flaky host shouldn't
+export function brokenLinks(health: MovieLinkHealth | undefined) {
+  return LINK_KINDS.filter((kind) => health?.links[kind]?.status === "broken");
+}
+
+export function countLinkStatuses(report: LinkHealthReport) {
+  const counts = Object.fromEntries(
+    LINK_KINDS.map((kind) => [kind, { ok: 0, broken: 0, unknown: 0 }])
+  ) as Record<LinkKind, Record<LinkStatus, number>>;
+  for (const { links } of Object.values(report.movies)) {
+    for (const kind of LINK_KINDS) {
+      const check = links[kind];
+      if (check) counts[kind][check.status]++;
+    }
+  }
+  return counts;
+}
@@ -0,0 +1,140 @@
+/**
+ * Admin movie form
+ * Turns the editable fields of a movie into a `MovieRecord`. The same checks
+ * run in the browser while typing and in the route action before saving.
+ */
+
+import { formatRating, isHttpUrl } from "./catalog-schema";
+import { MAX_RATING, parseYear, type MovieRecord } from "./movies";
+
+export const MOVIE_FORM_FIELDS = [
+  "title",
+  "year",
+  "rating",
+  "genres",
+  "image_url",
+  "video_source",
+  "description",
+] as const;
+
+export type MovieFormField = (typeof MOVIE_FORM_FIELDS)[number];
+
+// Raw form input, genres as a comma-separated list
+export type MovieFormValues = Record<MovieFormField, string>;
+
+export type MovieFormErrors = Partial<Record<MovieFormField, string>>;
+
+const MAX_TITLE_LENGTH = 200;
+const MAX_DESCRIPTION_LENGTH = 2000;
+const MAX_GENRES = 10;
+const FIRST_FILM_YEAR = 1888;
+
+export const EMPTY_MOVIE_FORM: MovieFormValues = {
+  title: "",
+  year: "",
+  rating: "",
+  genres: "",
+  image_url: "",
+  video_source: "",
+  description: "",
+};
+
+export function movieFormValues(record: MovieRecord): MovieFormValues {
+  return {
+    title: record.title,
+    year: record.year,
+    // "7.2 / 10" is edited as "7.2"
+    rating: record.rating.replace(/\s*\/\s*10$/, ""),
+    genres: record.genres.join(", "),
+    image_url: record.image_url,
+    video_source: record.video_source,
+    description: record.description,
+  };
+}
+
+export function readMovieForm(formData: FormData): MovieFormValues {
+  const values = { ...EMPTY_MOVIE_FORM };
+  for (const field of MOVIE_FORM_FIELDS) {
+    const value = formData.get(field);
+    if (typeof value === "string") values[field] = value;
+  }
+  return values;
+}
+
+function parseGenres(value: string) {
+  return Array.from(
+    new Set(
+      value
+        .split(",")
+        .map((genre) => genre.trim())
+        .filter(Boolean)
+    )
+  );
+}
+
+/**
+ * Check the form and build the record it describes. The record is built even
+ * when there are errors, for the live preview, and only saved when `valid`.
+ * `url`, the listing the movie was scraped from, isn't editable and is
+ * carried over by the caller.
+ */
+export function validateMovieForm(values: MovieFormValues): {
+  record: Omit<MovieRecord, "url">;
+  errors: MovieFormErrors;
+  valid: boolean;
+} {
+  const errors: MovieFormErrors = {};
+  const title = values.title.trim();
+  const description = values.description.trim();
+  const genres = parseGenres(values.genres);
+
+  if (!title) errors.title = "Title is required";
+  else if (title.length > MAX_TITLE_LENGTH) {
+    errors.title = `At most ${MAX_TITLE_LENGTH} characters`;
+  }
+
+  const yearText = values.year.trim();
+  const year = parseYear(yearText);
+  const latestYear = new Date().getFullYear() + 5;
+  if (year === null) errors.year = "Enter a 4-digit year";
+  else if (year < FIRST_FILM_YEAR || year > latestYear) {
+    errors.year = `Between ${FIRST_FILM_YEAR} and ${latestYear}`;
+  }
+
+  const ratingText = values.rating.trim();
+  const rating = ratingText === "" ? null : Number(ratingText);
+  const ratingValid =
+    rating === null ||
+    (!Number.isNaN(rating) && rating >= 0 && rating <= MAX_RATING);
+  if (!ratingValid) {
+    errors.rating = `A number from 0 to ${MAX_RATING}, or empty`;
+  }
+
+  if (genres.length > MAX_GENRES) {
+    errors.genres = `At most ${MAX_GENRES} genres`;
+  }
+
+  for (const field of ["image_url", "video_source"] as const) {
+    const value = values[field].trim();
+    if (value && !isHttpUrl(value)) errors[field] = "Enter an http(s) URL";
+  }
+
+  if (description.length > MAX_DESCRIPTION_LENGTH) {
+    errors.description = `At most ${MAX_DESCRIPTION_LENGTH} characters`;
+  }
+
+  return {
+    record: {
+      title,
+      year: year === null ? yearText : String(year),
+      rating:
+        rating !== null && ratingValid ? formatRating(rating) : ratingText,
+      genres,
+      image_url: values.image_url.trim(),
+      video_source: values.video_source.trim(),
+      description,
+    },
+    errors,
+    valid: Object.keys(errors).length === 0,
+  };
+}
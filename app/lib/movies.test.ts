@@ -0,0 +1,149 @@
+import { describe, expect, it } from "vitest";
+import {
+  getMovieId,
+  movieFiltersToParams,
+  parseMovieFilters,
+  parseRating,
+  parseWatchList,
+  watchPath,
+} from "./movies";
+
+describe("parseMovieFilters", () => {
+  it("uses defaults for empty params", () => {
+    expect(parseMovieFilters(new URLSearchParams())).toEqual({
+      search: "",
+      genres: [],
+      genreMatch: "any",
+      yearFrom: null,
+      yearTo: null,
+      ratingMin: null,
+      ratingMax: null,
+      sort: "",
+      page: 1,
+    });
+  });
+
+  it("reads every filter", () => {
+    const filters = parseMovieFilters(
+      new URLSearchParams(
+        "search=heist&genre=Action&genre=Crime&genre_match=all&year_from=2010" +
+          "&year_to=2020&rating_min=7&rating_max=9.5&sort=rating-desc&page=3"
+      )
+    );
+    expect(filters).toEqual({
+      search: "heist",
+      genres: ["Action", "Crime"],
+      genreMatch: "all",
+      yearFrom: 2010,
+      yearTo: 2020,
+      ratingMin: 7,
+      ratingMax: 9.5,
+      sort: "rating-desc",
+      page: 3,
+    });
+  });
+
+  it("ignores invalid values and duplicate genres", () => {
+    const filters = parseMovieFilters(
+      new URLSearchParams(
+        "genre=Drama&genre=Drama&genre=&genre_match=some&year_from=20x0" +
+          "&rating_min=11&sort=random&page=-2"
+      )
+    );
+    expect(filters.genres).toEqual(["Drama"]);
+    expect(filters.genreMatch).toBe("any");
+    expect(filters.yearFrom).toBeNull();
+    expect(filters.ratingMin).toBeNull();
+    expect(filters.sort).toBe("");
+    expect(filters.page).toBe(1);
+  });
+
+  it("swaps reversed ranges", () => {
+    const filters = parseMovieFilters(
+      new URLSearchParams(
+        "year_from=2020&year_to=2010&rating_min=8&rating_max=6"
+      )
+    );
+    expect([filters.yearFrom, filters.yearTo]).toEqual([2010, 2020]);
+    expect([filters.ratingMin, filters.ratingMax]).toEqual([6, 8]);
+  });
+
+  it("round-trips through movieFiltersToParams", () => {
+    const query =
+      "search=heist&genre=Action&genre=Crime&genre_match=all&year_from=2010" +
+      "&rating_min=7.0&sort=year-asc&page=2";
+    const params = movieFiltersToParams(
+      parseMovieFilters(new URLSearchParams(query))
+    );
+    expect(params.toString()).toBe(query);
+  });
+});
+
+describe("parseRating", () => {
+  it("accepts plain and out-of-ten ratings", () => {
+    expect(parseRating("7.2")).toBe(7.2);
+    expect(parseRating(" 8 / 10 ")).toBe(8);
+  });
+
+  it("gives null for missing, unparseable or out of range ratings", () => {
+    expect(parseRating("")).toBeNull();
+    expect(parseRating("N/A")).toBeNull();
+    expect(parseRating("12")).toBeNull();
+  });
+});
+
+describe("getMovieId", () => {
+  it("uses the slug of the listing url", () => {
+    expect(
+      getMovieId({
+        title: "Roofman",
+        year: "2025",
+        url: "https://example.com/movies/roofman-2025/",
+      })
+    ).toBe("roofman-2025");
+  });
+
+  it("builds a slug from the title and year without a url", () => {
+    expect(
+      getMovieId({ title: "Amélie: Part II!", year: "2001", url: "" })
+    ).toBe("amelie-part-ii-2001");
+  });
+});
+
+describe("watchPath", () => {
+  const movie = { id: "heat-1995" };
+
+  it("keeps Home's filters without the grid params", () => {
+    const path = watchPath(movie, {
+      pathname: "/",
+      search: "?genre=Crime&page=3&view=scroll",
+    });
+
+    expect(path).toBe("/movie/heat-1995/watch?genre=Crime");
+    expect(parseWatchList(new URL(path, "http://x").searchParams)).toEqual({
+      pathname: "/",
+      search: "?genre=Crime",
+    });
+  });
+
+  it("carries the path of other lists", () => {
+    const path = watchPath(movie, {
+      pathname: "/watchlist",
+      search: "?list=continue",
+    });
+
+    expect(path).toBe("/movie/heat-1995/watch?list=continue&from=%2Fwatchlist");
+    expect(parseWatchList(new URL(path, "http://x").searchParams)).toEqual({
+      pathname: "/watchlist",
+      search: "?list=continue",
+    });
+  });
+
+  it("pages through the whole catalog without a list", () => {
+    expect(watchPath(movie)).toBe("/movie/heat-1995/watch");
+    expect(parseWatchList(new URLSearchParams())).toEqual({
+      pathname: "/",
+      search: "",
+    });
+  });
+});
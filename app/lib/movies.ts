@@ -0,0 +1,333 @@
+import type { LinkKind } from "./link-health";
+
+// A movie as stored in movies.json
+export interface MovieRecord {
+  title: string;
+  year: string;
+  rating: string;
+  genres: string[];
+  url: string;
+  image_url: string;
+  video_source: string;
+  description: string;
+  // Only stored for a movie whose slug collides with another's (the `-2`
+  // suffix), so the id survives deleting the other one
+  id?: string;
+}
+
+// A catalog movie with fields derived from its record: the stable slug used
+// as id in detail URLs, the IMDb id, and the rating and year parsed into
+// numbers (null when missing or unparseable)
+export interface Movie extends MovieRecord {
+  id: string;
+  imdbId: string | null;
+  ratingValue: number | null;
+  yearValue: number | null;
+  // Links found broken by the link checker, only set on listings when
+  // LINK_HEALTH_MODE is `badge` (see link-health.server.ts)
+  linkIssues?: LinkKind[];
+}
+
+// What a poster thumbnail needs, keeps loader payloads small
+export type MovieSummary = Pick<
+  Movie,
+  "id" | "title" | "year" | "rating" | "image_url"
+>;
+
+export interface MoviesData {
+  total_movies: number;
+  movies: MovieRecord[];
+}
+
+export const MOVIE_SORTS = [
+  "",
+  "rating-desc",
+  "rating-asc",
+  "year-desc",
+  "year-asc",
+  "title-asc",
+  "title-desc",
+] as const;
+
+// "" keeps the default order: relevance while searching, catalog order otherwise
+export type MovieSort = (typeof MOVIE_SORTS)[number];
+
+export type GenreMatch = "any" | "all";
+
+// Range bounds are inclusive, null leaves that side open
+export interface MovieFilters {
+  search: string;
+  genres: string[];
+  genreMatch: GenreMatch;
+  yearFrom: number | null;
+  yearTo: number | null;
+  ratingMin: number | null;
+  ratingMax: number | null;
+  sort: MovieSort;
+  page: number;
+}
+
+export const MAX_RATING = 10;
+
+// Result counts keyed by genre, year and rating (one decimal, e.g. "7.2")
+export interface MovieFacets {
+  genres: Record<string, number>;
+  years: Record<string, number>;
+  ratings: Record<string, number>;
+}
+
+// Sum a year or rating histogram over an inclusive range
+export function countInRange(
+  counts: Record<string, number>,
+  min: number | null,
+  max: number | null
+) {
+  let total = 0;
+  for (const [key, count] of Object.entries(counts)) {
+    const value = parseFloat(key);
+    if ((min === null || value >= min) && (max === null || value <= max)) {
+      total += count;
+    }
+  }
+  return total;
+}
+
+export const MOVIES_PER_PAGE = 20;
+export const PAGE_SIZES = [20, 40, 60, 100];
+// Continuous scrolling loads movies in chunks of this size
+export const SCROLL_CHUNK_SIZE = 60;
+
+// How a movie list is laid out: numbered pages or one continuous, virtualized
+// grid. `position` is the index of the first visible movie in continuous mode.
+export interface GridOptions {
+  view: "pages" | "scroll";
+  perPage: number;
+  position: number;
+}
+
+// URL params that only affect how a list is shown, not which movies are in it
+export const GRID_PARAMS = ["page", "view", "per_page", "pos"];
+
+export function slugify(value: string) {
+  return value
+    .normalize("NFKD")
+    .replace(/[\u0300-\u036f]/g, "")
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, "-")
+    .replace(/^-+|-+$/g, "");
+}
+
+// The listing `url` already ends in a unique title-year slug (e.g. `/movies/roofman-2025/`),
+// fall back to building one from the title and year for records without it
+export function getMovieId(movie: Pick<MovieRecord, "title" | "year" | "url">) {
+  const urlSlug = movie.url?.match(/\/movies\/([^/?#]+)\/?(?:[?#].*)?$/)?.[1];
+  return urlSlug ? slugify(urlSlug) : slugify(`${movie.title} ${movie.year}`);
+}
+
+// IMDb id from the embed `video_source` (e.g. `https://vidsrc.net/embed/movie/tt4627382/`)
+export function getImdbId(movie: Pick<MovieRecord, "video_source">) {
+  return movie.video_source?.match(/\btt\d+\b/)?.[0] ?? null;
+}
+
+export function toMovie(record: MovieRecord, id = getMovieId(record)): Movie {
+  return {
+    ...record,
+    id,
+    imdbId: getImdbId(record),
+    ratingValue: parseRating(record.rating),
+    yearValue: parseYear(record.year),
+  };
+}
+
+export function toMovieSummary({
+  id,
+  title,
+  year,
+  rating,
+  image_url,
+}: Movie): MovieSummary {
+  return { id, title, year, rating, image_url };
+}
+
+// The stored fields, with the id so a client catalog gets the same ids
+export function toMovieRecord({
+  id,
+  title,
+  year,
+  rating,
+  genres,
+  url,
+  image_url,
+  video_source,
+  description,
+}: Movie): MovieRecord {
+  return {
+    title,
+    year,
+    rating,
+    genres,
+    url,
+    image_url,
+    video_source,
+    description,
+    id,
+  };
+}
+
+export function moviePath(movie: Pick<Movie, "id">) {
+  return `/movie/${movie.id}`;
+}
+
+export function genrePath(genre: string) {
+  return `/genre/${slugify(genre)}`;
+}
+
+export function yearPath(year: string | number) {
+  return `/year/${year}`;
+}
+
+// Player URL param with the path of the list it was opened from
+const WATCH_LIST_PARAM = "from";
+
+// The in-app player. `list` is the location of the list it was opened from,
+// its path (when not Home) and filters are kept in the query so the player
+// can offer the next and previous movie, see parseWatchList.
+export function watchPath(
+  movie: Pick<Movie, "id">,
+  list?: { pathname: string; search: string }
+) {
+  const params = new URLSearchParams(list?.search);
+  GRID_PARAMS.forEach((name) => params.delete(name));
+  params.delete(WATCH_LIST_PARAM);
+  if (list && list.pathname !== "/") {
+    params.set(WATCH_LIST_PARAM, list.pathname);
+  }
+  const query = params.toString();
+  return `${moviePath(movie)}/watch${query ? `?${query}` : ""}`;
+}
+
+// The list a player URL was opened from, Home without a path
+export function parseWatchList(params: URLSearchParams) {
+  const listParams = new URLSearchParams(params);
+  const pathname = listParams.get(WATCH_LIST_PARAM) || "/";
+  listParams.delete(WATCH_LIST_PARAM);
+  const query = listParams.toString();
+  return { pathname, search: query ? `?${query}` : "" };
+}
+
+export function isMovieSort(value: string): value is MovieSort {
+  return (MOVIE_SORTS as readonly string[]).includes(value);
+}
+
+// "7.2 / 10" -> 7.2, missing, unparseable or out of range ratings give null
+export function parseRating(rating: string | null | undefined) {
+  const match = rating?.trim().match(/^(\d+(?:\.\d+)?)(?:\s*\/\s*10)?$/);
+  if (!match) return null;
+  const value = parseFloat(match[1]);
+  return value >= 0 && value <= MAX_RATING ? value : null;
+}
+
+export function parseYear(year: string | null | undefined) {
+  const match = year?.trim().match(/^\d{4}$/);
+  return match ? parseInt(match[0], 10) : null;
+}
+
+// Range params replaced the exact-match `year` and `rating` params, returns
+// the equivalent params for an old URL or null when there is nothing to migrate
+export function migrateLegacyFilterParams(params: URLSearchParams) {
+  const year = params.get("year");
+  const rating = params.get("rating");
+  if (year === null && rating === null) return null;
+
+  const migrated = new URLSearchParams(params);
+  migrated.delete("year");
+  migrated.delete("rating");
+  const yearValue = parseYear(year);
+  if (yearValue !== null) {
+    migrated.set("year_from", String(yearValue));
+    migrated.set("year_to", String(yearValue));
+  }
+  const ratingValue = parseRating(rating);
+  if (ratingValue !== null) {
+    migrated.set("rating_min", String(ratingValue));
+    migrated.set("rating_max", String(ratingValue));
+  }
+  return migrated;
+}
+
+/**
+ * Read the home grid filters from URL params: `search`, repeated `genre` with
+ * `genre_match` (`any` or `all`), `year_from`/`year_to`,
+ * `rating_min`/`rating_max`, `sort` and `page`.
+ * Invalid values are ignored and reversed ranges are swapped.
+ */
+export function parseMovieFilters(params: URLSearchParams): MovieFilters {
+  const page = parseInt(params.get("page") || "1", 10);
+  const sort = params.get("sort") || "";
+  let yearFrom = parseYear(params.get("year_from"));
+  let yearTo = parseYear(params.get("year_to"));
+  let ratingMin = parseRating(params.get("rating_min"));
+  let ratingMax = parseRating(params.get("rating_max"));
+  if (yearFrom !== null && yearTo !== null && yearFrom > yearTo) {
+    [yearFrom, yearTo] = [yearTo, yearFrom];
+  }
+  if (ratingMin !== null && ratingMax !== null && ratingMin > ratingMax) {
+    [ratingMin, ratingMax] = [ratingMax, ratingMin];
+  }
+
+  return {
+    search: params.get("search") || "",
+    genres: Array.from(new Set(params.getAll("genre").filter(Boolean))),
+    genreMatch: params.get("genre_match") === "all" ? "all" : "any",
+    yearFrom,
+    yearTo,
+    ratingMin,
+    ratingMax,
+    sort: isMovieSort(sort) ? sort : "",
+    page: Number.isNaN(page) || page < 1 ? 1 : page,
+  };
+}
+
+export function parseGridOptions(params: URLSearchParams): GridOptions {
+  const perPage = parseInt(params.get("per_page") || "", 10);
+  const position = parseInt(params.get("pos") || "", 10);
+  return {
+    view: params.get("view") === "scroll" ? "scroll" : "pages",
+    perPage: PAGE_SIZES.includes(perPage) ? perPage : MOVIES_PER_PAGE,
+    position: Number.isNaN(position) || position < 0 ? 0 : position,
+  };
+}
+
+// The inverse of parseMovieFilters, defaults are left out and params always
+// come in the same order so equal filters give equal URLs
+export function movieFiltersToParams(filters: MovieFilters) {
+  const params = new URLSearchParams();
+  if (filters.search) params.set("search", filters.search);
+  filters.genres.forEach((genre) => params.append("genre", genre));
+  if (filters.genres.length > 1 && filters.genreMatch === "all") {
+    params.set("genre_match", "all");
+  }
+  if (filters.yearFrom !== null)
+    params.set("year_from", String(filters.yearFrom));
+  if (filters.yearTo !== null) params.set("year_to", String(filters.yearTo));
+  if (filters.ratingMin !== null) {
+    params.set("rating_min", filters.ratingMin.toFixed(1));
+  }
+  if (filters.ratingMax !== null) {
+    params.set("rating_max", filters.ratingMax.toFixed(1));
+  }
+  if (filters.sort) params.set("sort", filters.sort);
+  if (filters.page > 1) params.set("page", String(filters.page));
+  return params;
+}
+
+export function hasActiveFilters(filters: MovieFilters) {
+  return Boolean(
+    filters.search ||
+      filters.genres.length > 0 ||
+      filters.yearFrom !== null ||
+      filters.yearTo !== null ||
+      filters.ratingMin !== null ||
+      filters.ratingMax !== null
+  );
+}
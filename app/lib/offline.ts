@@ -0,0 +1,82 @@
+/**
+ * Offline support
+ * Registers the service worker (built from scripts/service-worker.js), tracks
+ * the connection and answers route loaders from the catalog the worker keeps
+ * cached when the server can't be reached.
+ */
+
+import { useSyncExternalStore } from "react";
+import { createCatalog, type Catalog } from "./catalog";
+import type { MoviesData } from "./movies";
+
+// The current catalog, admin changes included (see routes/api/catalog.ts)
+const CATALOG_URL = "/api/v1/catalog";
+
+let catalogPromise: Promise<Catalog> | null = null;
+
+// The catalog as of the last download, served by the service worker offline
+export function getOfflineCatalog(): Promise<Catalog> {
+  if (!catalogPromise) {
+    catalogPromise = fetch(CATALOG_URL)
+      .then((response) => {
+        if (!response.ok) {
+          throw new Error(`Could not load the catalog (${response.status})`);
+        }
+        return response.json() as Promise<MoviesData>;
+      })
+      .then(createCatalog)
+      .catch((err) => {
+        catalogPromise = null;
+        throw err;
+      });
+  }
+  return catalogPromise;
+}
+
+// A failed fetch rejects with a TypeError, HTTP errors and redirects don't
+export function isOfflineError(err: unknown) {
+  return err instanceof TypeError || !navigator.onLine;
+}
+
+// Use the server's loader data, or the local catalog when it's unreachable
+export async function withOfflineFallback<T>(
+  serverLoader: () => Promise<T>,
+  offlineLoader: (catalog: Catalog) => T | Promise<T>
+): Promise<T> {
+  try {
+    return await serverLoader();
+  } catch (err) {
+    if (!isOfflineError(err)) throw err;
+    return offlineLoader(await getOfflineCatalog());
+  }
+}
+
+export function registerServiceWorker() {
+  if (!import.meta.env.PROD || !("serviceWorker" in navigator)) return;
+  navigator.serviceWorker.register("/sw.js").catch((err) => {
+    console.error("Service worker registration failed", err);
+  });
+  // The worker refreshes the catalog in the background, the next offline
+  // lookup should use the new one
+  navigator.serviceWorker.addEventListener("message", (event) => {
+    if (event.data?.type === "catalog-updated") catalogPromise = null;
+  });
+}
+
+function subscribeToConnection(callback: () => void) {
+  window.addEventListener("online", callback);
+  window.addEventListener("offline", callback);
+  return () => {
+    window.removeEventListener("online", callback);
+    window.removeEventListener("offline", callback);
+  };
+}
+
+// Assumed online during server rendering and hydration
+export function useIsOnline() {
+  return useSyncExternalStore(
+    subscribeToConnection,
+    () => navigator.onLine,
+    () => true
+  );
+}
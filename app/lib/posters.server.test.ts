@@ -0,0 +1,163 @@
+import { mkdtemp, rm } from "node:fs/promises";
+import { createServer, type Server } from "node:http";
+import type { AddressInfo } from "node:net";
+import { tmpdir } from "node:os";
+import path from "node:path";
+import sharp from "sharp";
+import { afterAll, beforeAll, describe, expect, it, vi } from "vitest";
+import { CACHE_CONTROL } from "./cache-policy";
+
+// The module reads its settings on import, see beforeAll
+let posterResponse: typeof import("./posters.server").posterResponse;
+
+// A stub poster origin, POSTER_ORIGIN sends every image_url here
+let server: Server;
+let cacheDir: string;
+const hits = new Map<string, number>();
+let poster: Buffer;
+
+beforeAll(async () => {
+  poster = await sharp({
+    create: { width: 800, height: 1200, channels: 3, background: "#336699" },
+  })
+    .jpeg()
+    .toBuffer();
+  server = createServer((req, res) => {
+    const url = req.url ?? "/";
+    hits.set(url, (hits.get(url) ?? 0) + 1);
+    if (url.startsWith("/poster")) {
+      res.writeHead(200, { "Content-Type": "image/jpeg" }).end(poster);
+    } else {
+      res.writeHead(404).end();
+    }
+  });
+  await new Promise<void>((resolve) => server.listen(0, "127.0.0.1", resolve));
+
+  cacheDir = await mkdtemp(path.join(tmpdir(), "posters-"));
+  vi.stubEnv("POSTER_CACHE_DIR", cacheDir);
+  vi.stubEnv(
+    "POSTER_ORIGIN",
+    `http://127.0.0.1:${(server.address() as AddressInfo).port}`
+  );
+  ({ posterResponse } = await import("./posters.server"));
+});
+
+afterAll(async () => {
+  vi.unstubAllEnvs();
+  vi.restoreAllMocks();
+  server.closeAllConnections();
+  server.close();
+  await rm(cacheDir, { recursive: true, force: true });
+});
+
+function movie(image: string) {
+  return {
+    title: "Heat",
+    year: "1995",
+    image_url: `https://images.example.com${image}`,
+  };
+}
+
+function request(accept = "image/jpeg,*/*") {
+  return new Request("http://localhost/posters/heat-1995", {
+    headers: { Accept: accept },
+  });
+}
+
+async function imageSize(response: Response) {
+  const { width, height, format } = await sharp(
+    Buffer.from(await response.arrayBuffer())
+  ).metadata();
+  return { width, height, format };
+}
+
+describe("posterResponse", () => {
+  it("rounds widths up to a rendered width and clamps at the largest", async () => {
+    const small = await posterResponse(request(), movie("/poster-a.jpg"), 200);
+    expect(await imageSize(small)).toMatchObject({ width: 240, height: 360 });
+
+    const huge = await posterResponse(request(), movie("/poster-a.jpg"), 5000);
+    expect(await imageSize(huge)).toMatchObject({ width: 640, height: 960 });
+
+    // The original is fetched once for every width
+    expect(hits.get("/poster-a.jpg")).toBe(1);
+  });
+
+  it("encodes the best format the browser accepts", async () => {
+    const cases = [
+      ["image/avif,image/webp,*/*", "image/avif", "heif"],
+      ["image/webp,*/*", "image/webp", "webp"],
+      ["*/*", "image/jpeg", "jpeg"],
+    ] as const;
+    for (const [accept, contentType, format] of cases) {
+      const response = await posterResponse(
+        request(accept),
+        movie("/poster-b.jpg"),
+        320
+      );
+      expect(response.headers.get("Content-Type")).toBe(contentType);
+      expect(response.headers.get("Vary")).toBe("Accept");
+      expect((await imageSize(response)).format).toBe(format);
+    }
+  });
+
+  it("caches posters for long and answers If-None-Match", async () => {
+    const response = await posterResponse(
+      request(),
+      movie("/poster-c.jpg"),
+      320
+    );
+    expect(response.status).toBe(200);
+    expect(response.headers.get("Cache-Control")).toBe(CACHE_CONTROL.poster);
+
+    const etag = response.headers.get("ETag")!;
+    const revalidated = await posterResponse(
+      new Request("http://localhost/posters/heat-1995", {
+        headers: { Accept: "image/jpeg", "If-None-Match": etag },
+      }),
+      movie("/poster-c.jpg"),
+      320
+    );
+    expect(revalidated.status).toBe(304);
+  });
+
+  it("falls back to the placeholder and retries the origin after a while", async () => {
+    const now = Date.now();
+    const clock = vi.spyOn(Date, "now").mockReturnValue(now);
+    vi.spyOn(console, "warn").mockImplementation(() => {});
+
+    const response = await posterResponse(
+      request(),
+      movie("/missing.jpg"),
+      320
+    );
+    expect(response.status).toBe(200);
+    expect(response.headers.get("Content-Type")).toMatch(/^image\/svg\+xml/);
+    expect(await response.text()).toContain("Heat");
+    // Short-lived compared with a real poster
+    expect(response.headers.get("Cache-Control")).toBe(
+      CACHE_CONTROL.placeholder
+    );
+    expect(CACHE_CONTROL.placeholder).not.toBe(CACHE_CONTROL.poster);
+    expect(hits.get("/missing.jpg")).toBe(1);
+
+    // Not fetched again within the failure TTL
+    clock.mockReturnValue(now + 5 * 60 * 1000);
+    await posterResponse(request(), movie("/missing.jpg"), 320);
+    expect(hits.get("/missing.jpg")).toBe(1);
+
+    // Tried again after it
+    clock.mockReturnValue(now + 11 * 60 * 1000);
+    await posterResponse(request(), movie("/missing.jpg"), 320);
+    expect(hits.get("/missing.jpg")).toBe(2);
+  });
+
+  it("serves the placeholder for a movie without a poster", async () => {
+    const response = await posterResponse(
+      request(),
+      { ...movie(""), image_url: "" },
+      320
+    );
+    expect(response.headers.get("Content-Type")).toMatch(/^image\/svg\+xml/);
+  });
+});
@@ -0,0 +1,188 @@
+/**
+ * Poster image proxy
+ * Fetches a movie's `image_url` once, keeps the original and every resized
+ * variant on disk and encodes to the best format the browser accepts.
+ */
+
+import { createHash } from "node:crypto";
+import { mkdir, readFile, rename, writeFile } from "node:fs/promises";
+import path from "node:path";
+import sharp from "sharp";
+import { logger } from "../../server/logger";
+import { CACHE_CONTROL } from "./cache-policy";
+import type { Movie } from "./movies";
+import { posterPlaceholderSvg, posterWidth } from "./posters";
+
+// Where originals and resized posters are kept between restarts
+const CACHE_DIR = path.resolve(
+  process.cwd(),
+  process.env.POSTER_CACHE_DIR || ".cache/posters"
+);
+// Fetch every poster from this origin instead, keeping its path. Used to
+// test against a local stub server or to point at a mirror.
+const ORIGIN_OVERRIDE = process.env.POSTER_ORIGIN;
+
+const FETCH_TIMEOUT_MS = 10_000;
+const MAX_SOURCE_BYTES = 10 * 1024 * 1024;
+// A poster that failed to load isn't fetched again for this long
+const FAILURE_TTL_MS = 10 * 60 * 1000;
+
+export type PosterFormat = "avif" | "webp" | "jpeg";
+
+const CONTENT_TYPES: Record<PosterFormat, string> = {
+  avif: "image/avif",
+  webp: "image/webp",
+  jpeg: "image/jpeg",
+};
+
+class PosterFetchError extends Error {
+  constructor(url: string, reason: string) {
+    super(`Poster ${url}: ${reason}`);
+    this.name = "PosterFetchError";
+  }
+}
+
+const inFlight = new Map<string, Promise<Buffer>>();
+const failures = new Map<string, number>();
+
+function cacheKey(...parts: (string | number)[]) {
+  return createHash("sha1").update(parts.join("\n")).digest("hex");
+}
+
+// Runs `load` once per key at a time and keeps its result on disk
+async function cached(file: string, load: () => Promise<Buffer>) {
+  const cachePath = path.join(CACHE_DIR, file);
+  try {
+    return await readFile(cachePath);
+  } catch (err) {
+    if ((err as NodeJS.ErrnoException).code !== "ENOENT") throw err;
+  }
+
+  let pending = inFlight.get(file);
+  if (!pending) {
+    pending = load()
+      .then(async (buffer) => {
+        // Write then rename so a crash never leaves half a file behind
+        await mkdir(CACHE_DIR, { recursive: true });
+        const tmp = `${cachePath}.${process.pid}.tmp`;
+        await writeFile(tmp, buffer);
+        await rename(tmp, cachePath);
+        return buffer;
+      })
+      .finally(() => inFlight.delete(file));
+    inFlight.set(file, pending);
+  }
+  return pending;
+}
+
+export function sourceUrl(imageUrl: string) {
+  if (!ORIGIN_OVERRIDE) return imageUrl;
+  const url = new URL(imageUrl);
+  return new URL(`${url.pathname}${url.search}`, ORIGIN_OVERRIDE).toString();
+}
+
+async function fetchSource(imageUrl: string) {
+  const url = sourceUrl(imageUrl);
+  const response = await fetch(url, {
+    signal: AbortSignal.timeout(FETCH_TIMEOUT_MS),
+  });
+  if (!response.ok) {
+    throw new PosterFetchError(url, `HTTP ${response.status}`);
+  }
+  const contentType = response.headers.get("Content-Type") || "";
+  if (!contentType.startsWith("image/")) {
+    throw new PosterFetchError(url, `unexpected content type "${contentType}"`);
+  }
+  const buffer = Buffer.from(await response.arrayBuffer());
+  if (buffer.length > MAX_SOURCE_BYTES) {
+    throw new PosterFetchError(url, `larger than ${MAX_SOURCE_BYTES} bytes`);
+  }
+  return buffer;
+}
+
+function encode(source: Buffer, width: number, format: PosterFormat) {
+  const image = sharp(source).resize({ width, withoutEnlargement: true });
+  switch (format) {
+    case "avif":
+      return image.avif({ quality: 50 }).toBuffer();
+    case "webp":
+      return image.webp({ quality: 75 }).toBuffer();
+    case "jpeg":
+      return image.jpeg({ quality: 80, mozjpeg: true }).toBuffer();
+  }
+}
+
+// Best format in the Accept header, JPEG for anything else (e.g. crawlers)
+export function negotiatePosterFormat(accept: string | null): PosterFormat {
+  if (accept?.includes("image/avif")) return "avif";
+  if (accept?.includes("image/webp")) return "webp";
+  return "jpeg";
+}
+
+export async function getPoster(
+  imageUrl: string,
+  width: number,
+  format: PosterFormat
+) {
+  const key = cacheKey(imageUrl, width, format);
+  const buffer = await cached(`${key}.${format}`, async () => {
+    const source = await cached(`${cacheKey(imageUrl)}.src`, () =>
+      fetchSource(imageUrl)
+    );
+    return encode(source, width, format);
+  });
+  return { buffer, etag: `"${key}"` };
+}
+
+function placeholderResponse(movie: Pick<Movie, "title" | "year">) {
+  return new Response(posterPlaceholderSvg(movie), {
+    headers: {
+      "Content-Type": "image/svg+xml; charset=utf-8",
+      "Cache-Control": CACHE_CONTROL.placeholder,
+    },
+  });
+}
+
+// The poster at the closest rendered width, or a placeholder when the movie
+// has none or it can't be loaded
+export async function posterResponse(
+  request: Request,
+  movie: Pick<Movie, "title" | "year" | "image_url">,
+  requestedWidth: number
+) {
+  const imageUrl = movie.image_url;
+  const failedAt = imageUrl ? failures.get(imageUrl) : undefined;
+  if (!imageUrl || (failedAt && Date.now() - failedAt < FAILURE_TTL_MS)) {
+    return placeholderResponse(movie);
+  }
+
+  const format = negotiatePosterFormat(request.headers.get("Accept"));
+  try {
+    const { buffer, etag } = await getPoster(
+      imageUrl,
+      posterWidth(requestedWidth),
+      format
+    );
+    failures.delete(imageUrl);
+    const headers = {
+      "Content-Type": CONTENT_TYPES[format],
+      "Cache-Control": CACHE_CONTROL.poster,
+      ETag: etag,
+      Vary: "Accept",
+    };
+    if (request.headers.get("If-None-Match") === etag) {
+      return new Response(null, { status: 304, headers });
+    }
+    return new Response(new Uint8Array(buffer), { headers });
+  } catch (err) {
+    const url = new URL(request.url);
+    logger.warn("poster failed, serving the placeholder", {
+      method: request.method,
+      path: url.pathname + url.search,
+      image_url: imageUrl,
+      error: err,
+    });
+    failures.set(imageUrl, Date.now());
+    return placeholderResponse(movie);
+  }
+}
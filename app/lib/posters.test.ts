@@ -0,0 +1,27 @@
+import { describe, expect, it } from "vitest";
+import { posterPath, posterWidth } from "./posters";
+
+describe("posterWidth", () => {
+  it("rounds up to a rendered width", () => {
+    expect(posterWidth(160)).toBe(160);
+    expect(posterWidth(300)).toBe(320);
+    expect(posterWidth(2000)).toBe(640);
+  });
+});
+
+describe("posterPath", () => {
+  const movie = {
+    id: "heat-1995",
+    image_url: "https://example.com/posters/heat.jpg",
+  };
+
+  it("changes with the image_url", () => {
+    const path = posterPath(movie, 240);
+
+    expect(path).toMatch(/^\/posters\/heat-1995\?w=240&v=[0-9a-z]+$/);
+    expect(posterPath(movie, 240)).toBe(path);
+    expect(
+      posterPath({ ...movie, image_url: `${movie.image_url}?v=2` }, 240)
+    ).not.toBe(path);
+  });
+});
@@ -0,0 +1,115 @@
+/**
+ * Poster URLs and placeholders
+ * Posters are served resized by our own /posters/:id route, a movie without
+ * a usable poster gets a generated placeholder with its title and year.
+ */
+
+import type { Movie } from "./movies";
+
+// Widths the poster route renders, requests are rounded up to one of these
+export const POSTER_WIDTHS = [160, 240, 320, 480, 640];
+export const DEFAULT_POSTER_WIDTH = 320;
+
+// `sizes` for the layouts posters appear in
+export const POSTER_SIZES = {
+  // MovieGrid, 1 to 5 columns inside max-w-7xl
+  grid: "(min-width: 1280px) 240px, (min-width: 1024px) 25vw, (min-width: 768px) 33vw, (min-width: 640px) 50vw, 100vw",
+  // MovieRow, fixed w-36 cards
+  row: "144px",
+  // Movie detail, a third of the page on large screens
+  detail: "(min-width: 1024px) 400px, 100vw",
+};
+
+// 32-bit string hash, the same on the server and in the browser
+function hashString(value: string) {
+  let hash = 0;
+  for (const char of value) hash = (hash * 31 + char.charCodeAt(0)) | 0;
+  return hash;
+}
+
+export function posterWidth(requested: number) {
+  return (
+    POSTER_WIDTHS.find((width) => width >= requested) ??
+    POSTER_WIDTHS[POSTER_WIDTHS.length - 1]
+  );
+}
+
+// `v` changes with the image_url, so browsers and the service worker fetch
+// an edited poster rather than keep showing the cached one
+export function posterPath(
+  movie: Pick<Movie, "id" | "image_url">,
+  width = DEFAULT_POSTER_WIDTH
+) {
+  const version = (hashString(movie.image_url) >>> 0).toString(36);
+  return `/posters/${movie.id}?w=${width}&v=${version}`;
+}
+
+export function posterSrcSet(movie: Pick<Movie, "id" | "image_url">) {
+  return POSTER_WIDTHS.map(
+    (width) => `${posterPath(movie, width)} ${width}w`
+  ).join(", ");
+}
+
+function escapeXml(value: string) {
+  return value.replace(
+    /[<>&"']/g,
+    (char) =>
+      ({
+        "<": "&lt;",
+        ">": "&gt;",
+        "&": "&amp;",
+        '"': "&quot;",
+        "'": "&apos;",
+      })[char]!
+  );
+}
+
+// Greedy word wrap, long titles end with an ellipsis on the last line
+function wrapTitle(title: string, lineLength = 14, maxLines = 4) {
+  const lines: string[] = [];
+  let line = "";
+  for (const word of title.split(/\s+/).filter(Boolean)) {
+    if (line && `${line} ${word}`.length > lineLength) {
+      lines.push(line);
+      line = word;
+    } else {
+      line = line ? `${line} ${word}` : word;
+    }
+  }
+  if (line) lines.push(line);
+  if (lines.length > maxLines) {
+    lines.length = maxLines;
+    lines[maxLines - 1] = `${lines[maxLines - 1].slice(0, lineLength - 1)}…`;
+  }
+  return lines.map((l) =>
+    l.length > lineLength ? `${l.slice(0, lineLength - 1)}…` : l
+  );
+}
+
+// The same title always gets the same color
+function titleHue(title: string) {
+  return Math.abs(hashString(title)) % 360;
+}
+
+// A 2:3 SVG poster with the title and year on a colored background
+export function posterPlaceholderSvg(movie: { title: string; year?: string }) {
+  const hue = titleHue(movie.title);
+  const lines = wrapTitle(movie.title);
+  const lineHeight = 24;
+  const top = 150 - ((lines.length - 1) * lineHeight) / 2;
+  const text = lines
+    .map(
+      (line, i) =>
+        `<text x="100" y="${top + i * lineHeight}" font-size="20" font-weight="600">${escapeXml(line)}</text>`
+    )
+    .join("");
+  const year = movie.year
+    ? `<text x="100" y="${top + lines.length * lineHeight + 12}" font-size="14" opacity="0.75">${escapeXml(movie.year)}</text>`
+    : "";
+
+  return `<svg xmlns="http://www.w3.org/2000/svg" viewBox="0 0 200 300" width="200" height="300"><defs><linearGradient id="bg" x1="0" y1="0" x2="0" y2="1"><stop offset="0" stop-color="hsl(${hue}, 45%, 38%)"/><stop offset="1" stop-color="hsl(${hue}, 45%, 22%)"/></linearGradient></defs><rect width="200" height="300" fill="url(#bg)"/><g fill="#fff" font-family="system-ui, sans-serif" text-anchor="middle">${text}${year}</g></svg>`;
+}
+
+export function posterPlaceholderUrl(movie: { title: string; year?: string }) {
+  return `data:image/svg+xml;charset=utf-8,${encodeURIComponent(posterPlaceholderSvg(movie))}`;
+}
@@ -0,0 +1,123 @@
+import { describe, expect, it } from "vitest";
+import { createCatalog } from "./catalog";
+import type { MovieRecord } from "./movies";
+import {
+  moreFromYear,
+  similarMovies,
+  topRatedInGenre,
+} from "./recommendations";
+
+function record(
+  title: string,
+  year: string,
+  rating: string,
+  genres: string[],
+  description = ""
+): MovieRecord {
+  return {
+    title,
+    year,
+    rating,
+    genres,
+    url: "",
+    image_url: "",
+    video_source: "",
+    description,
+  };
+}
+
+const records = [
+  record(
+    "Heat",
+    "1995",
+    "8.3 / 10",
+    ["Crime", "Drama"],
+    "A detective hunts a crew of bank robbers"
+  ),
+  record(
+    "Ronin",
+    "1998",
+    "7.2 / 10",
+    ["Action", "Crime"],
+    "Mercenaries chase a briefcase"
+  ),
+  record(
+    "The Town",
+    "2010",
+    "7.5 / 10",
+    ["Crime", "Drama"],
+    "A crew of bank robbers plans one last job"
+  ),
+  record("Casino", "1995", "8.2 / 10", ["Crime", "Drama"]),
+  record("Toy Story", "1995", "8.3 / 10", ["Animation", "Comedy"]),
+  record("Clueless", "1995", "6.9 / 10", ["Comedy"]),
+  record("Up", "2020", "", ["Animation"]),
+];
+const catalog = createCatalog({
+  total_movies: records.length,
+  movies: records,
+});
+const movie = (title: string) => catalog.movies.find((m) => m.title === title)!;
+const titles = (movies: { title: string }[]) => movies.map((m) => m.title);
+
+describe("similarMovies", () => {
+  it("ranks by genres, description, year and rating", () => {
+    // The Town shares both genres and the bank robbers, Casino only the
+    // genres but the year and rating are closer
+    expect(titles(similarMovies(catalog, movie("Heat")))).toEqual([
+      "The Town",
+      "Casino",
+      "Ronin",
+      "Toy Story",
+      "Clueless",
+    ]);
+  });
+
+  it("leaves out the movie itself and movies with nothing in common", () => {
+    // Up shares no genre, words or rating with Heat and is 25 years apart
+    expect(titles(similarMovies(catalog, movie("Heat")))).not.toContain("Up");
+    // Toy Story by genre, The Town only by year
+    expect(titles(similarMovies(catalog, movie("Up")))).toEqual([
+      "Toy Story",
+      "The Town",
+    ]);
+  });
+
+  it("respects the limit and gives the same result again", () => {
+    const first = similarMovies(catalog, movie("Heat"), 2);
+
+    expect(titles(first)).toEqual(["The Town", "Casino"]);
+    expect(similarMovies(catalog, movie("Heat"), 2)).toEqual(first);
+  });
+
+  it("gives nothing for a movie outside the catalog", () => {
+    const other = createCatalog({
+      total_movies: 1,
+      movies: [record("Solaris", "1972", "8.0 / 10", ["Drama"])],
+    }).movies[0];
+    expect(similarMovies(catalog, other)).toEqual([]);
+  });
+});
+
+describe("moreFromYear", () => {
+  it("lists the year's best rated movies without the movie itself", () => {
+    expect(titles(moreFromYear(catalog, movie("Heat")))).toEqual([
+      "Toy Story",
+      "Casino",
+      "Clueless",
+    ]);
+    expect(titles(moreFromYear(catalog, movie("Heat"), 1))).toEqual([
+      "Toy Story",
+    ]);
+  });
+});
+
+describe("topRatedInGenre", () => {
+  it("lists the genre's best rated movies without the excluded one", () => {
+    expect(titles(topRatedInGenre(catalog, "Crime", movie("Heat")))).toEqual([
+      "Casino",
+      "The Town",
+      "Ronin",
+    ]);
+  });
+});
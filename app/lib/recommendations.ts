@@ -0,0 +1,197 @@
+/**
+ * "More like this" recommendations
+ * Scores every other movie against one movie by genre overlap, description
+ * similarity (TF-IDF cosine), year proximity and rating similarity. The term
+ * vectors are built once per catalog and each movie's result is cached, so
+ * results are deterministic and only computed the first time they're asked
+ * for.
+ */
+
+import { sortMovies, type Catalog } from "./catalog";
+import type { Movie } from "./movies";
+import { tokenize } from "./search";
+
+export const RELATED_LIMIT = 10;
+
+const WEIGHTS = { genres: 0.4, description: 0.3, year: 0.15, rating: 0.15 };
+// Differences at or beyond these count as not similar at all
+const YEAR_SPAN = 20;
+const RATING_SPAN = 3;
+// Shorter words are mostly stopwords and carry no meaning
+const MIN_TERM_LENGTH = 3;
+// Words in more descriptions than this share of the catalog ("the", "his",
+// "when") say little about a movie and would make every lookup scan most of it
+const MAX_TERM_SHARE = 0.05;
+
+// Per-movie data in catalog order, kept in flat arrays for the scoring loop
+interface SimilarityIndex {
+  // Unit-length TF-IDF vectors
+  vectors: Map<string, number>[];
+  postings: Map<string, { doc: number; weight: number }[]>;
+  // Genres as positions in `catalog.genres`
+  genreIds: number[][];
+  // NaN when missing
+  years: Float64Array;
+  ratings: Float64Array;
+  positions: Map<string, number>;
+  cache: Map<string, Movie[]>;
+}
+
+const indexes = new WeakMap<Catalog, SimilarityIndex>();
+
+function buildSimilarityIndex(catalog: Catalog): SimilarityIndex {
+  const termCounts = catalog.movies.map((movie) => {
+    const counts = new Map<string, number>();
+    for (const term of tokenize(movie.description)) {
+      if (term.length < MIN_TERM_LENGTH) continue;
+      counts.set(term, (counts.get(term) ?? 0) + 1);
+    }
+    return counts;
+  });
+
+  const documentFrequency = new Map<string, number>();
+  for (const counts of termCounts) {
+    for (const term of counts.keys()) {
+      documentFrequency.set(term, (documentFrequency.get(term) ?? 0) + 1);
+    }
+  }
+
+  const size = catalog.movies.length;
+  const maxDocumentFrequency = Math.max(2, size * MAX_TERM_SHARE);
+  const postings: SimilarityIndex["postings"] = new Map();
+  const vectors = termCounts.map((counts, doc) => {
+    const vector = new Map<string, number>();
+    let norm = 0;
+    for (const [term, count] of counts) {
+      // Terms found in only one description can't link two movies
+      const df = documentFrequency.get(term)!;
+      if (df < 2 || df > maxDocumentFrequency) continue;
+      const weight = (1 + Math.log(count)) * Math.log(size / df);
+      vector.set(term, weight);
+      norm += weight * weight;
+    }
+    norm = Math.sqrt(norm);
+    for (const [term, weight] of vector) {
+      vector.set(term, weight / norm);
+      let list = postings.get(term);
+      if (!list) {
+        list = [];
+        postings.set(term, list);
+      }
+      list.push({ doc, weight: weight / norm });
+    }
+    return vector;
+  });
+
+  const genreIndex = new Map(catalog.genres.map((genre, i) => [genre, i]));
+  return {
+    vectors,
+    postings,
+    genreIds: catalog.movies.map((movie) =>
+      movie.genres.map((genre) => genreIndex.get(genre)!)
+    ),
+    years: Float64Array.from(catalog.movies, (m) => m.yearValue ?? NaN),
+    ratings: Float64Array.from(catalog.movies, (m) => m.ratingValue ?? NaN),
+    positions: new Map(catalog.movies.map((movie, i) => [movie.id, i])),
+    cache: new Map(),
+  };
+}
+
+function getSimilarityIndex(catalog: Catalog) {
+  let index = indexes.get(catalog);
+  if (!index) {
+    index = buildSimilarityIndex(catalog);
+    indexes.set(catalog, index);
+  }
+  return index;
+}
+
+// 1 for equal values down to 0 at `span` apart, 0 when either is missing (NaN)
+function closeness(a: number, b: number, span: number) {
+  const value = 1 - Math.abs(a - b) / span;
+  return value > 0 ? value : 0;
+}
+
+// Movies most similar to `movie`, best first, ties in catalog order
+export function similarMovies(
+  catalog: Catalog,
+  movie: Movie,
+  limit = RELATED_LIMIT
+): Movie[] {
+  const index = getSimilarityIndex(catalog);
+  const cached = index.cache.get(movie.id);
+  if (cached) return cached.slice(0, limit);
+
+  const position = index.positions.get(movie.id);
+  if (position === undefined) return [];
+
+  // Cosine similarity only for movies sharing a term, through the postings
+  const size = catalog.movies.length;
+  const cosine = new Float64Array(size);
+  for (const [term, weight] of index.vectors[position]) {
+    for (const posting of index.postings.get(term)!) {
+      cosine[posting.doc] += weight * posting.weight;
+    }
+  }
+
+  const ownGenres = index.genreIds[position];
+  const isOwnGenre = new Uint8Array(catalog.genres.length);
+  ownGenres.forEach((id) => (isOwnGenre[id] = 1));
+  const year = index.years[position];
+  const rating = index.ratings[position];
+
+  // Keep only the best RELATED_LIMIT, sorted, instead of sorting every score
+  const best: { doc: number; score: number }[] = [];
+  for (let doc = 0; doc < size; doc++) {
+    if (doc === position) continue;
+
+    const genres = index.genreIds[doc];
+    let shared = 0;
+    for (const id of genres) shared += isOwnGenre[id];
+    const union = ownGenres.length + genres.length - shared;
+
+    const score =
+      WEIGHTS.genres * (union > 0 ? shared / union : 0) +
+      WEIGHTS.description * cosine[doc] +
+      WEIGHTS.year * closeness(year, index.years[doc], YEAR_SPAN) +
+      WEIGHTS.rating * closeness(rating, index.ratings[doc], RATING_SPAN);
+
+    // Equal scores keep catalog order, an equal score never displaces
+    if (score <= 0) continue;
+    if (best.length === RELATED_LIMIT && score <= best[best.length - 1].score) {
+      continue;
+    }
+    let i = best.length;
+    while (i > 0 && best[i - 1].score < score) i--;
+    best.splice(i, 0, { doc, score });
+    if (best.length > RELATED_LIMIT) best.pop();
+  }
+
+  const result = best.map(({ doc }) => catalog.movies[doc]);
+  index.cache.set(movie.id, result);
+  return result.slice(0, limit);
+}
+
+// Best rated movies released the same year
+export function moreFromYear(
+  catalog: Catalog,
+  movie: Movie,
+  limit = RELATED_LIMIT
+) {
+  const sameYear = catalog.movies.filter(
+    (other) => other.id !== movie.id && other.year === movie.year
+  );
+  return sortMovies(sameYear, "rating-desc").slice(0, limit);
+}
+
+export function topRatedInGenre(
+  catalog: Catalog,
+  genre: string,
+  exclude: Movie,
+  limit = RELATED_LIMIT
+) {
+  const inGenre = catalog.movies.filter(
+    (other) => other.id !== exclude.id && other.genres.includes(genre)
+  );
+  return sortMovies(inGenre, "rating-desc").slice(0, limit);
+}
@@ -0,0 +1,9 @@
+/**
+ * Redirects after form posts
+ */
+
+// A path on this site to go back to after a form post, "/" for anything
+// else so a crafted form can't send people to another site
+export function safeRedirect(to: FormDataEntryValue | null) {
+  return typeof to === "string" && /^\/(?![/\\])/.test(to) ? to : "/";
+}
@@ -0,0 +1,81 @@
+import { describe, expect, it } from "vitest";
+import {
+  buildSearchIndex,
+  foldText,
+  highlightText,
+  searchDocuments,
+} from "./search";
+
+const documents = [
+  { title: "The Matrix", description: "A hacker learns the truth." },
+  { title: "Matrimony", description: "A comedy about a wedding." },
+  { title: "Amélie", description: "A shy waitress in Paris." },
+  {
+    title: "Interstellar",
+    description: "Explorers travel through a wormhole.",
+  },
+  { title: "Paris, Texas", description: "A drifter walks out of the desert." },
+];
+const index = buildSearchIndex(documents);
+
+const search = (query: string) =>
+  searchDocuments(index, query).hits.map((hit) => documents[hit.index].title);
+
+describe("foldText", () => {
+  it("folds case, diacritics and apostrophes", () => {
+    expect(foldText("Amélie")).toBe("amelie");
+    expect(foldText("McDonald’s")).toBe("mcdonalds");
+  });
+});
+
+describe("searchDocuments", () => {
+  it("finds exact words regardless of accents", () => {
+    expect(search("amelie")).toEqual(["Amélie"]);
+  });
+
+  it("matches prefixes", () => {
+    expect(search("matr").sort()).toEqual(["Matrimony", "The Matrix"]);
+    expect(searchDocuments(index, "matr").matchedTerms.sort()).toEqual([
+      "matrimony",
+      "matrix",
+    ]);
+  });
+
+  it("ranks an exact match above a prefix match", () => {
+    expect(search("matrix")[0]).toBe("The Matrix");
+  });
+
+  it("tolerates typos in longer words only", () => {
+    expect(search("intersteller")).toEqual(["Interstellar"]);
+    expect(search("wrmhole")).toEqual(["Interstellar"]);
+    // Four letters are too short for a typo
+    expect(search("txas")).toEqual([]);
+  });
+
+  it("needs every query word to match", () => {
+    expect(search("paris")).toEqual(["Paris, Texas", "Amélie"]);
+    expect(search("paris desert")).toEqual(["Paris, Texas"]);
+    expect(search("paris wormhole")).toEqual([]);
+  });
+
+  it("boosts a title matching the whole query", () => {
+    expect(search("paris texas")[0]).toBe("Paris, Texas");
+  });
+
+  it("returns nothing for an empty query", () => {
+    expect(searchDocuments(index, " ,. ")).toEqual({
+      hits: [],
+      matchedTerms: [],
+    });
+  });
+});
+
+describe("highlightText", () => {
+  it("marks words matching the terms", () => {
+    expect(highlightText("The Matrix!", ["matrix"])).toEqual([
+      { text: "The ", match: false },
+      { text: "Matrix", match: true },
+      { text: "!", match: false },
+    ]);
+  });
+});
@@ -0,0 +1,274 @@
+/**
+ * Full-text search over movie titles and descriptions
+ * Text is folded (case, diacritics, apostrophes) and tokenized the same way for
+ * the index, the query and highlighting. Query terms match exactly, as a prefix
+ * or with a small edit distance, and documents are ranked with BM25.
+ */
+
+export interface SearchDocument {
+  title: string;
+  description?: string;
+}
+
+export interface SearchIndex {
+  // Sorted vocabulary, for prefix lookups
+  terms: string[];
+  postings: Map<string, Map<number, number>>;
+  titles: string[];
+  lengths: number[];
+  averageLength: number;
+  size: number;
+}
+
+export interface SearchHit {
+  index: number;
+  score: number;
+}
+
+export interface SearchResult {
+  hits: SearchHit[];
+  // Index terms the query expanded to, used to highlight matches
+  matchedTerms: string[];
+}
+
+export interface TextSegment {
+  text: string;
+  match: boolean;
+}
+
+// Title words count as much as this many description words
+const TITLE_WEIGHT = 3;
+const BM25_K1 = 1.2;
+const BM25_B = 0.75;
+const PREFIX_FACTOR = 0.7;
+const TYPO_FACTOR = 0.4;
+const MIN_PREFIX_LENGTH = 2;
+const MAX_EXPANSIONS = 50;
+
+const WORD_PATTERN = /[\p{L}\p{N}]+(?:['’][\p{L}\p{N}]+)*/gu;
+
+// Lowercase and strip diacritics and apostrophes ("Amélie" -> "amelie", "McDonald’s" -> "mcdonalds")
+export function foldText(value: string) {
+  return value
+    .normalize("NFKD")
+    .replace(/[\u0300-\u036f]/g, "")
+    .toLowerCase()
+    .replace(/['’]/g, "");
+}
+
+export function tokenize(value: string): string[] {
+  return Array.from(value.matchAll(WORD_PATTERN), (m) => foldText(m[0]));
+}
+
+export function buildSearchIndex(documents: SearchDocument[]): SearchIndex {
+  const postings = new Map<string, Map<number, number>>();
+  const lengths: number[] = [];
+
+  const addTokens = (docIndex: number, tokens: string[], weight: number) => {
+    for (const token of tokens) {
+      let docs = postings.get(token);
+      if (!docs) {
+        docs = new Map();
+        postings.set(token, docs);
+      }
+      docs.set(docIndex, (docs.get(docIndex) ?? 0) + weight);
+    }
+  };
+
+  documents.forEach((doc, docIndex) => {
+    const titleTokens = tokenize(doc.title);
+    const descriptionTokens = tokenize(doc.description ?? "");
+    addTokens(docIndex, titleTokens, TITLE_WEIGHT);
+    addTokens(docIndex, descriptionTokens, 1);
+    lengths.push(titleTokens.length * TITLE_WEIGHT + descriptionTokens.length);
+  });
+
+  const totalLength = lengths.reduce((sum, length) => sum + length, 0);
+
+  return {
+    terms: Array.from(postings.keys()).sort(),
+    postings,
+    titles: documents.map((doc) => tokenize(doc.title).join(" ")),
+    lengths,
+    averageLength: documents.length ? totalLength / documents.length : 0,
+    size: documents.length,
+  };
+}
+
+// Levenshtein distance with transpositions, gives up once it exceeds `max`
+function editDistance(a: string, b: string, max: number) {
+  if (Math.abs(a.length - b.length) > max) return max + 1;
+
+  let prevPrev: number[] = [];
+  let prev = Array.from({ length: b.length + 1 }, (_, j) => j);
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i];
+    let rowMin = i;
+    for (let j = 1; j <= b.length; j++) {
+      const cost = a[i - 1] === b[j - 1] ? 0 : 1;
+      let value = Math.min(prev[j] + 1, current[j - 1] + 1, prev[j - 1] + cost);
+      if (i > 1 && j > 1 && a[i - 1] === b[j - 2] && a[i - 2] === b[j - 1]) {
+        value = Math.min(value, prevPrev[j - 2] + 1);
+      }
+      current.push(value);
+      rowMin = Math.min(rowMin, value);
+    }
+    if (rowMin > max) return max + 1;
+    prevPrev = prev;
+    prev = current;
+  }
+  return prev[b.length];
+}
+
+// Short words get no typo tolerance, they would match too much of the vocabulary
+function maxTypos(token: string) {
+  if (token.length >= 9) return 2;
+  if (token.length >= 5) return 1;
+  return 0;
+}
+
+// Index terms a query token matches, with how strongly each one counts
+function expandToken(index: SearchIndex, token: string) {
+  const expansions = new Map<string, number>();
+  if (index.postings.has(token)) expansions.set(token, 1);
+
+  if (token.length >= MIN_PREFIX_LENGTH) {
+    // Binary search for the first term >= token, then walk the prefix range
+    let low = 0;
+    let high = index.terms.length;
+    while (low < high) {
+      const mid = (low + high) >> 1;
+      if (index.terms[mid] < token) low = mid + 1;
+      else high = mid;
+    }
+    for (
+      let i = low;
+      i < index.terms.length &&
+      index.terms[i].startsWith(token) &&
+      expansions.size < MAX_EXPANSIONS;
+      i++
+    ) {
+      if (!expansions.has(index.terms[i])) {
+        expansions.set(index.terms[i], PREFIX_FACTOR);
+      }
+    }
+  }
+
+  const typos = maxTypos(token);
+  if (typos > 0) {
+    for (const term of index.terms) {
+      if (expansions.has(term) || expansions.size >= MAX_EXPANSIONS) continue;
+      const distance = editDistance(token, term, typos);
+      if (distance <= typos) {
+        expansions.set(term, TYPO_FACTOR / distance);
+      }
+    }
+  }
+
+  return expansions;
+}
+
+/**
+ * Find documents matching every query token, best matches first.
+ * Ties keep the original document order.
+ */
+export function searchDocuments(
+  index: SearchIndex,
+  query: string
+): SearchResult {
+  const tokens = Array.from(new Set(tokenize(query)));
+  if (tokens.length === 0) return { hits: [], matchedTerms: [] };
+
+  let scores: Map<number, number> | null = null;
+  const matchedTerms = new Set<string>();
+
+  for (const token of tokens) {
+    const tokenScores = new Map<number, number>();
+
+    for (const [term, factor] of expandToken(index, token)) {
+      const docs = index.postings.get(term)!;
+      const idf = Math.log(
+        1 + (index.size - docs.size + 0.5) / (docs.size + 0.5)
+      );
+      matchedTerms.add(term);
+
+      for (const [docIndex, frequency] of docs) {
+        if (scores && !scores.has(docIndex)) continue;
+        const lengthNorm =
+          1 - BM25_B + (BM25_B * index.lengths[docIndex]) / index.averageLength;
+        const termScore =
+          factor *
+          idf *
+          ((frequency * (BM25_K1 + 1)) / (frequency + BM25_K1 * lengthNorm));
+        // A token counts once per document, through its best matching term
+        tokenScores.set(
+          docIndex,
+          Math.max(tokenScores.get(docIndex) ?? 0, termScore)
+        );
+      }
+    }
+
+    if (scores) {
+      const previous: Map<number, number> = scores;
+      for (const [docIndex, score] of tokenScores) {
+        tokenScores.set(docIndex, score + previous.get(docIndex)!);
+      }
+    }
+    scores = tokenScores;
+    if (scores.size === 0) break;
+  }
+
+  // Boost titles that are, or contain, the whole query
+  const phrase = tokens.join(" ");
+  const hits: SearchHit[] = [];
+  for (const [docIndex, score] of scores ?? []) {
+    const title = index.titles[docIndex];
+    let boost = 1;
+    if (title === phrase) boost = 3;
+    else if (` ${title} `.includes(` ${phrase} `)) boost = 1.5;
+    hits.push({ index: docIndex, score: score * boost });
+  }
+  hits.sort((a, b) => b.score - a.score || a.index - b.index);
+
+  return { hits, matchedTerms: Array.from(matchedTerms) };
+}
+
+// Split text into plain and matching segments for rendering highlights
+export function highlightText(text: string, terms: string[]): TextSegment[] {
+  if (terms.length === 0) return [{ text, match: false }];
+
+  const termSet = new Set(terms);
+  const segments: TextSegment[] = [];
+  let lastIndex = 0;
+  for (const word of text.matchAll(WORD_PATTERN)) {
+    if (!termSet.has(foldText(word[0]))) continue;
+    if (word.index > lastIndex) {
+      segments.push({ text: text.slice(lastIndex, word.index), match: false });
+    }
+    segments.push({ text: word[0], match: true });
+    lastIndex = word.index + word[0].length;
+  }
+  if (lastIndex < text.length) {
+    segments.push({ text: text.slice(lastIndex), match: false });
+  }
+  return segments;
+}
+
+// A short excerpt around the first matching word, or the start of the text
+export function excerptAround(text: string, terms: string[], length = 140) {
+  if (text.length <= length) return text;
+
+  const termSet = new Set(terms);
+  let matchIndex = 0;
+  for (const word of text.matchAll(WORD_PATTERN)) {
+    if (termSet.has(foldText(word[0]))) {
+      matchIndex = word.index;
+      break;
+    }
+  }
+
+  const start = Math.max(0, Math.min(matchIndex - 40, text.length - length));
+  const end = Math.min(text.length, start + length);
+  const snippet = text.slice(start, end).trim();
+  return `${start > 0 ? "…" : ""}${snippet}${end < text.length ? "…" : ""}`;
+}
@@ -0,0 +1,253 @@
+/**
+ * Page metadata
+ * Builds the title, description, canonical URL, Open Graph and Twitter tags
+ * each route returns from `meta()`, plus schema.org JSON-LD for movies.
+ */
+
+import type { MetaDescriptor } from "react-router";
+import { localePath, type Locale, type Translator } from "./i18n";
+import {
+  MAX_RATING,
+  hasActiveFilters,
+  movieFiltersToParams,
+  moviePath,
+  type Movie,
+  type MovieFilters,
+} from "./movies";
+import { posterPath } from "./posters";
+
+export const SITE_NAME = "SilverStream";
+const DEFAULT_SITE_URL = "https://silver-stream.app";
+const DEFAULT_IMAGE = "/silver1.png";
+// Posters in share cards and JSON-LD come from our own poster route
+const SHARE_IMAGE_WIDTH = 640;
+const DESCRIPTION_LENGTH = 160;
+
+export interface PageMeta {
+  title: string;
+  description: string;
+  // Path (with query) of the canonical URL, in the page's language
+  path: string;
+  locale: Locale;
+  image?: string;
+  type?: string;
+  noindex?: boolean;
+}
+
+declare global {
+  interface Window {
+    SITE_URL?: string;
+  }
+}
+
+// Canonical, alternate, share and sitemap URLs start with SITE_URL. The
+// server reads it from the environment, the browser (meta() runs again on
+// navigation) from the root layout, see siteUrlScript.
+export function siteUrl() {
+  const configured =
+    typeof window === "undefined" ? process.env.SITE_URL : window.SITE_URL;
+  return configured || DEFAULT_SITE_URL;
+}
+
+export function siteUrlScript() {
+  // Escaped so the value can't close the script element
+  return `window.SITE_URL = ${JSON.stringify(siteUrl()).replace(/</g, "\\u003c")};`;
+}
+
+export function absoluteUrl(pathOrUrl: string) {
+  return new URL(pathOrUrl, siteUrl()).href;
+}
+
+// Cut at a word boundary so the description fits search result snippets
+export function truncateText(text: string, length = DESCRIPTION_LENGTH) {
+  if (text.length <= length) return text;
+  const cut = text.slice(0, length - 1);
+  const lastSpace = cut.lastIndexOf(" ");
+  return `${(lastSpace > length / 2 ? cut.slice(0, lastSpace) : cut).trimEnd()}…`;
+}
+
+export function pageMeta({
+  title,
+  description,
+  path,
+  locale,
+  image = DEFAULT_IMAGE,
+  type = "website",
+  noindex = false,
+}: PageMeta): MetaDescriptor[] {
+  // The same URL as the page's hreflang alternate in the root layout
+  const url = absoluteUrl(localePath(new URL(path, siteUrl()), locale));
+  const imageUrl = absoluteUrl(image);
+  return [
+    { title },
+    { name: "description", content: description },
+    { tagName: "link", rel: "canonical", href: url },
+    ...(noindex ? [{ name: "robots", content: "noindex, follow" }] : []),
+    { property: "og:type", content: type },
+    { property: "og:site_name", content: SITE_NAME },
+    { property: "og:title", content: title },
+    { property: "og:description", content: description },
+    { property: "og:url", content: url },
+    { property: "og:image", content: imageUrl },
+    { name: "twitter:card", content: "summary_large_image" },
+    { name: "twitter:title", content: title },
+    { name: "twitter:description", content: description },
+    { name: "twitter:image", content: imageUrl },
+  ];
+}
+
+export function movieMeta(
+  movie: Movie,
+  { locale, t, genreName }: Translator
+): MetaDescriptor[] {
+  const title = `${movie.title} (${movie.year}) - ${SITE_NAME}`;
+  const summary = [
+    movie.genres.map(genreName).join(", "),
+    movie.rating && t("seo.rated", { rating: movie.rating }),
+  ]
+    .filter(Boolean)
+    .join(", ");
+  const description = truncateText(
+    movie.description ||
+      `${movie.title} (${movie.year})${summary ? `: ${summary}` : ""}.`
+  );
+
+  return [
+    ...pageMeta({
+      title,
+      description,
+      path: moviePath(movie),
+      locale,
+      image: movie.image_url ? posterPath(movie, SHARE_IMAGE_WIDTH) : undefined,
+      type: "video.movie",
+    }),
+    { "script:ld+json": movieJsonLd(movie) },
+  ];
+}
+
+// schema.org Movie, https://schema.org/Movie
+export function movieJsonLd(movie: Movie) {
+  return {
+    "@context": "https://schema.org",
+    "@type": "Movie",
+    name: movie.title,
+    url: absoluteUrl(moviePath(movie)),
+    ...(movie.image_url && {
+      image: absoluteUrl(posterPath(movie, SHARE_IMAGE_WIDTH)),
+    }),
+    ...(movie.description && { description: movie.description }),
+    ...(movie.yearValue !== null && { datePublished: String(movie.yearValue) }),
+    ...(movie.genres.length > 0 && { genre: movie.genres }),
+    ...(movie.ratingValue !== null && {
+      aggregateRating: {
+        "@type": "AggregateRating",
+        ratingValue: movie.ratingValue,
+        bestRating: MAX_RATING,
+        worstRating: 0,
+      },
+    }),
+    ...(movie.imdbId && {
+      sameAs: `https://www.imdb.com/title/${movie.imdbId}/`,
+    }),
+  };
+}
+
+function rangeText(
+  from: number | null,
+  to: number | null,
+  format: (value: number) => string,
+  { t }: Translator
+) {
+  if (from !== null && to !== null) {
+    return from === to ? format(from) : `${format(from)}–${format(to)}`;
+  }
+  if (from !== null) return t("seo.orLater", { value: format(from) });
+  if (to !== null) return t("seo.upTo", { value: format(to) });
+  return null;
+}
+
+// "Action or Comedy movies from 2010–2020 rated 7.0+ matching "heist""
+export function describeFilters(filters: MovieFilters, i18n: Translator) {
+  const { t, genreName } = i18n;
+  const [firstGenre, ...moreGenres] = filters.genres.map(genreName);
+  const parts = [
+    firstGenre
+      ? t("seo.genreMovies", {
+          genres: moreGenres.reduce(
+            (genres, genre) =>
+              t(
+                filters.genreMatch === "all"
+                  ? "seo.genresAll"
+                  : "seo.genresAny",
+                {
+                  genres,
+                  genre,
+                }
+              ),
+            firstGenre
+          ),
+        })
+      : t("seo.movies"),
+  ];
+
+  const years = rangeText(filters.yearFrom, filters.yearTo, String, i18n);
+  if (years) parts.push(t("seo.from", { years }));
+
+  if (filters.ratingMin !== null && filters.ratingMax === null) {
+    parts.push(t("seo.ratedMin", { rating: filters.ratingMin.toFixed(1) }));
+  } else {
+    const ratings = rangeText(
+      filters.ratingMin,
+      filters.ratingMax,
+      (value) => value.toFixed(1),
+      i18n
+    );
+    if (ratings) parts.push(t("seo.rated", { rating: ratings }));
+  }
+
+  if (filters.search) {
+    parts.push(t("seo.matching", { search: filters.search }));
+  }
+  return parts.join(" ");
+}
+
+// Home and other listing pages, the title and description follow the filters
+export function listingMeta({
+  path,
+  filters,
+  totalResults,
+  totalPages,
+  i18n,
+}: {
+  path: string;
+  filters: MovieFilters;
+  totalResults: number;
+  totalPages: number;
+  i18n: Translator;
+}): MetaDescriptor[] {
+  const { locale, t } = i18n;
+  const page = Math.min(filters.page, Math.max(totalPages, 1));
+  // Sort orders list the same movies, they share one canonical URL
+  const query = movieFiltersToParams({ ...filters, page, sort: "" }).toString();
+  const pageSuffix =
+    page > 1 ? ` - ${t("seo.pageOf", { page, pages: totalPages })}` : "";
+
+  if (!hasActiveFilters(filters)) {
+    return pageMeta({
+      title: `${SITE_NAME} - ${t("home.title")}${pageSuffix}`,
+      description: t("home.description"),
+      path: `${path}${query ? `?${query}` : ""}`,
+      locale,
+    });
+  }
+
+  const summary = describeFilters(filters, i18n);
+  return pageMeta({
+    title: `${summary[0].toUpperCase()}${summary.slice(1)}${pageSuffix} - ${SITE_NAME}`,
+    description: t("seo.browse", { count: totalResults, summary }),
+    path: `${path}?${query}`,
+    locale,
+    // Search result pages are endless variations of the same movies
+    noindex: Boolean(filters.search) || totalResults === 0,
+  });
+}
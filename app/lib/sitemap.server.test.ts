@@ -0,0 +1,60 @@
+import { describe, expect, it } from "vitest";
+import { createCatalog } from "./catalog";
+import type { MovieRecord } from "./movies";
+import {
+  chunkSitemapPaths,
+  namedSitemapXml,
+  sitemapXml,
+  urlsetXml,
+} from "./sitemap.server";
+
+const paths = Array.from({ length: 10 }, (_, i) => `/movie/movie-${i}`);
+
+describe("chunkSitemapPaths", () => {
+  it("keeps a list within the limits in one chunk", () => {
+    expect(chunkSitemapPaths(paths)).toEqual([paths]);
+  });
+
+  it("splits by number of URLs", () => {
+    expect(chunkSitemapPaths(paths, 4).map((chunk) => chunk.length)).toEqual([
+      4, 4, 2,
+    ]);
+  });
+
+  it("splits by size", () => {
+    const maxBytes = Buffer.byteLength(urlsetXml(paths.slice(0, 3)));
+    const chunks = chunkSitemapPaths(paths, 50000, maxBytes);
+
+    expect(chunks.map((chunk) => chunk.length)).toEqual([3, 3, 3, 1]);
+    expect(chunks.flat()).toEqual(paths);
+    for (const chunk of chunks) {
+      expect(Buffer.byteLength(urlsetXml(chunk))).toBeLessThanOrEqual(maxBytes);
+    }
+  });
+});
+
+describe("namedSitemapXml", () => {
+  const movie: MovieRecord = {
+    title: "Heat",
+    year: "1995",
+    rating: "8.3",
+    genres: ["Crime"],
+    url: "",
+    image_url: "",
+    video_source: "",
+    description: "",
+  };
+  const catalog = createCatalog({ total_movies: 1, movies: [movie] });
+
+  it("has no pages sitemaps while /sitemap.xml lists every page", () => {
+    expect(sitemapXml(catalog)).toContain("<urlset");
+    expect(namedSitemapXml(catalog, "pages-1.xml")).toBeNull();
+  });
+
+  it("lists a genre's movies", () => {
+    expect(namedSitemapXml(catalog, "genre-crime.xml")).toContain(
+      "https://silver-stream.app/movie/heat-1995"
+    );
+    expect(namedSitemapXml(catalog, "genre-drama.xml")).toBeNull();
+  });
+});
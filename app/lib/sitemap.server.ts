@@ -0,0 +1,165 @@
+/**
+ * sitemap.xml and robots.txt
+ * Built from the catalog on request. `/sitemap.xml` lists every page while it
+ * fits the protocol limits and becomes a sitemap index of numbered
+ * `/sitemaps/pages-N.xml` files once it doesn't. Each genre also gets its own
+ * `/sitemaps/genre-<slug>.xml` with that genre's movies.
+ */
+
+import { CACHE_CONTROL } from "./cache-policy";
+import { findGenreBySlug, type Catalog } from "./catalog";
+import { genrePath, moviePath, slugify, yearPath } from "./movies";
+import { absoluteUrl } from "./seo";
+
+// https://www.sitemaps.org/protocol.html#index
+export const MAX_SITEMAP_URLS = 50000;
+export const MAX_SITEMAP_BYTES = 50 * 1024 * 1024;
+
+const XML_ESCAPES: Record<string, string> = {
+  "&": "&amp;",
+  "<": "&lt;",
+  ">": "&gt;",
+  '"': "&quot;",
+  "'": "&apos;",
+};
+
+function escapeXml(value: string) {
+  return value.replace(/[&<>"']/g, (char) => XML_ESCAPES[char]);
+}
+
+export function genreSitemapPath(genre: string) {
+  return `/sitemaps/genre-${slugify(genre)}.xml`;
+}
+
+function pagesSitemapPath(n: number) {
+  return `/sitemaps/pages-${n}.xml`;
+}
+
+// Every indexable page: home, the genre and year landing pages and each movie
+export function sitemapPaths(catalog: Catalog) {
+  return [
+    "/",
+    "/genres",
+    ...catalog.genres.map(genrePath),
+    ...catalog.years.map(yearPath),
+    ...catalog.movies.map(moviePath),
+  ];
+}
+
+function urlXml(path: string) {
+  return `  <url><loc>${escapeXml(absoluteUrl(path))}</loc></url>`;
+}
+
+export function urlsetXml(paths: string[]) {
+  return [
+    `<?xml version="1.0" encoding="UTF-8"?>`,
+    `<urlset xmlns="http://www.sitemaps.org/schemas/sitemap/0.9">`,
+    ...paths.map(urlXml),
+    `</urlset>`,
+    "",
+  ].join("\n");
+}
+
+function sitemapIndexXml(paths: string[]) {
+  const sitemaps = paths.map(
+    (path) => `  <sitemap><loc>${escapeXml(absoluteUrl(path))}</loc></sitemap>`
+  );
+  return [
+    `<?xml version="1.0" encoding="UTF-8"?>`,
+    `<sitemapindex xmlns="http://www.sitemaps.org/schemas/sitemap/0.9">`,
+    ...sitemaps,
+    `</sitemapindex>`,
+    "",
+  ].join("\n");
+}
+
+// Page lists small enough for one sitemap file each, by number of URLs
+// and by size
+export function chunkSitemapPaths(
+  paths: string[],
+  maxUrls = MAX_SITEMAP_URLS,
+  maxBytes = MAX_SITEMAP_BYTES
+) {
+  const emptyBytes = Buffer.byteLength(urlsetXml([]));
+  const chunks: string[][] = [];
+  let chunk: string[] = [];
+  let bytes = emptyBytes;
+
+  for (const path of paths) {
+    // Each entry adds its line and a newline
+    const entryBytes = Buffer.byteLength(urlXml(path)) + 1;
+    if (
+      chunk.length > 0 &&
+      (chunk.length >= maxUrls || bytes + entryBytes > maxBytes)
+    ) {
+      chunks.push(chunk);
+      chunk = [];
+      bytes = emptyBytes;
+    }
+    chunk.push(path);
+    bytes += entryBytes;
+  }
+  chunks.push(chunk);
+  return chunks;
+}
+
+// /sitemap.xml, a plain sitemap or, past the limits, an index
+export function sitemapXml(catalog: Catalog) {
+  const chunks = chunkSitemapPaths(sitemapPaths(catalog));
+  if (chunks.length === 1) return urlsetXml(chunks[0]);
+
+  return sitemapIndexXml([
+    ...chunks.map((_, i) => pagesSitemapPath(i + 1)),
+    ...catalog.genres.map(genreSitemapPath),
+  ]);
+}
+
+// /sitemaps/<name>, null for an unknown name
+export function namedSitemapXml(catalog: Catalog, name: string) {
+  const pages = name.match(/^pages-(\d+)\.xml$/);
+  if (pages) {
+    const chunks = chunkSitemapPaths(sitemapPaths(catalog));
+    // A single chunk is /sitemap.xml itself
+    const chunk = chunks.length > 1 ? chunks[Number(pages[1]) - 1] : undefined;
+    return chunk ? urlsetXml(chunk) : null;
+  }
+
+  const genreSlug = name.match(/^genre-([a-z0-9-]+)\.xml$/)?.[1];
+  const genre = genreSlug && findGenreBySlug(catalog, genreSlug);
+  if (genre) {
+    // Every movie is in the pages sitemaps too, so a genre past the limit
+    // can list just its first movies
+    const [first] = chunkSitemapPaths(
+      catalog.movies
+        .filter((movie) => movie.genres.includes(genre))
+        .map(moviePath)
+    );
+    return urlsetXml(first);
+  }
+  return null;
+}
+
+export function robotsTxt(catalog: Catalog) {
+  return [
+    "User-agent: *",
+    "Disallow: /api/",
+    "Disallow: /watchlist",
+    "Disallow: /movie/*/watch",
+    "Disallow: /admin",
+    "",
+    `Sitemap: ${absoluteUrl("/sitemap.xml")}`,
+    ...catalog.genres.map(
+      (genre) => `Sitemap: ${absoluteUrl(genreSitemapPath(genre))}`
+    ),
+    "",
+  ].join("\n");
+}
+
+export function textResponse(body: string, contentType: string) {
+  return new Response(body, {
+    headers: {
+      "Content-Type": `${contentType}; charset=utf-8`,
+      "Cache-Control": CACHE_CONTROL.crawler,
+    },
+  });
+}
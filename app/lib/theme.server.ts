@@ -0,0 +1,18 @@
+/**
+ * Theme of a request, saved by the theme switcher, see theme.ts
+ */
+
+import { createCookie } from "react-router";
+import { DEFAULT_THEME, isTheme } from "./theme";
+
+// Set by the theme switcher, see routes/theme.ts
+export const themeCookie = createCookie("theme", {
+  path: "/",
+  maxAge: 60 * 60 * 24 * 365,
+  sameSite: "lax",
+});
+
+export async function readTheme(request: Request) {
+  const theme = await themeCookie.parse(request.headers.get("Cookie"));
+  return isTheme(theme) ? theme : DEFAULT_THEME;
+}
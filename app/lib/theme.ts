@@ -0,0 +1,31 @@
+/**
+ * Color theme
+ * `system` follows the OS setting through `prefers-color-scheme`, `light`
+ * and `dark` override it. The choice is a cookie, so the server renders
+ * `<html data-theme>` right away and the `dark:` variant (app.css) never
+ * shows the wrong theme first.
+ */
+
+import { useFetchers, useRouteLoaderData } from "react-router";
+
+export const THEMES = ["light", "dark", "system"] as const;
+export type Theme = (typeof THEMES)[number];
+
+export const DEFAULT_THEME: Theme = "system";
+
+// Where the theme switcher posts, see routes/theme.ts
+export const THEME_ACTION = "/theme";
+
+export function isTheme(value: unknown): value is Theme {
+  return (THEMES as readonly unknown[]).includes(value);
+}
+
+// The saved theme, or the one being saved so the switch shows at once
+export function useTheme(): Theme {
+  const data = useRouteLoaderData("root") as { theme?: Theme } | undefined;
+  const pending = useFetchers()
+    .find(({ formAction }) => formAction === THEME_ACTION)
+    ?.formData?.get("theme");
+  if (isTheme(pending)) return pending;
+  return data?.theme ?? DEFAULT_THEME;
+}
@@ -0,0 +1,275 @@
+/**
+ * Per-browser watchlist
+ * Watchlist, watched and "continue watching" state is kept in localStorage,
+ * keyed by movie id. Nothing is sent to the server, so the server render
+ * always sees an empty list and the real one shows up after hydration.
+ */
+
+import { useSyncExternalStore } from "react";
+import type { MessageKey, MessageParams } from "./i18n";
+import type { Movie } from "./movies";
+
+export const WATCHLIST_STORAGE_KEY = "silverstream:watchlist";
+const EXPORT_VERSION = 1;
+
+// Same limit as the API's `id` param
+const IDS_PER_REQUEST = 100;
+
+// ISO timestamps, a movie with none of them set is not stored
+export interface WatchlistEntry {
+  addedAt?: string;
+  watchedAt?: string;
+  // Last time the "Watch" link was opened
+  startedAt?: string;
+}
+
+export type WatchlistState = Record<string, WatchlistEntry>;
+
+// Message key of each list's name
+export const WATCHLIST_VIEWS = {
+  watchlist: "watchlist.viewWatchlist",
+  continue: "watchlist.viewContinue",
+  watched: "watchlist.viewWatched",
+} as const satisfies Record<string, MessageKey>;
+
+export type WatchlistView = keyof typeof WATCHLIST_VIEWS;
+
+export interface WatchlistExport {
+  version: number;
+  exportedAt: string;
+  entries: WatchlistState;
+}
+
+// The imported file is not a watchlist export, `messageKey` and `params`
+// translate the message
+export class WatchlistImportError extends Error {
+  constructor(
+    message: string,
+    readonly messageKey: MessageKey,
+    readonly params: MessageParams = {}
+  ) {
+    super(message);
+    this.name = "WatchlistImportError";
+  }
+}
+
+const EMPTY_STATE: WatchlistState = {};
+const NO_ENTRY: WatchlistEntry = {};
+const ENTRY_FIELDS = ["addedAt", "watchedAt", "startedAt"] as const;
+
+const listeners = new Set<() => void>();
+// useSyncExternalStore needs the same object back while storage is unchanged
+let cached: { raw: string | null; state: WatchlistState } | null = null;
+
+function isObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+function isTimestamp(value: unknown): value is string {
+  return typeof value === "string" && !Number.isNaN(Date.parse(value));
+}
+
+// Keep valid timestamps only, entries left without any are dropped
+function parseState(value: unknown): WatchlistState {
+  if (!isObject(value)) return EMPTY_STATE;
+  const state: WatchlistState = {};
+  for (const [id, raw] of Object.entries(value)) {
+    if (!isObject(raw)) continue;
+    const entry: WatchlistEntry = {};
+    for (const field of ENTRY_FIELDS) {
+      if (isTimestamp(raw[field])) entry[field] = raw[field];
+    }
+    if (isStored(entry)) state[id] = entry;
+  }
+  return state;
+}
+
+function isStored(entry: WatchlistEntry) {
+  return ENTRY_FIELDS.some((field) => entry[field] !== undefined);
+}
+
+function readState(): WatchlistState {
+  let raw: string | null;
+  try {
+    raw = window.localStorage.getItem(WATCHLIST_STORAGE_KEY);
+  } catch {
+    // Storage disabled (private mode, blocked cookies)
+    return EMPTY_STATE;
+  }
+  if (cached?.raw === raw) return cached.state;
+
+  let state = EMPTY_STATE;
+  try {
+    state = raw ? parseState(JSON.parse(raw)) : EMPTY_STATE;
+  } catch {
+    console.warn("Ignoring unreadable watchlist in localStorage");
+  }
+  cached = { raw, state };
+  return state;
+}
+
+function writeState(state: WatchlistState) {
+  try {
+    window.localStorage.setItem(WATCHLIST_STORAGE_KEY, JSON.stringify(state));
+  } catch (err) {
+    console.warn("Could not save watchlist", err);
+  }
+  listeners.forEach((listener) => listener());
+}
+
+function updateEntry(
+  id: string,
+  update: (entry: WatchlistEntry) => WatchlistEntry
+) {
+  const state = { ...readState() };
+  const entry = update({ ...state[id] });
+  if (isStored(entry)) state[id] = entry;
+  else delete state[id];
+  writeState(state);
+}
+
+export function subscribeToWatchlist(listener: () => void) {
+  listeners.add(listener);
+  // Changes made in other tabs
+  const onStorage = (event: StorageEvent) => {
+    if (event.key === WATCHLIST_STORAGE_KEY || event.key === null) listener();
+  };
+  window.addEventListener("storage", onStorage);
+  return () => {
+    listeners.delete(listener);
+    window.removeEventListener("storage", onStorage);
+  };
+}
+
+export function getWatchlist(): WatchlistState {
+  return typeof window === "undefined" ? EMPTY_STATE : readState();
+}
+
+export function useWatchlist(): WatchlistState {
+  return useSyncExternalStore(
+    subscribeToWatchlist,
+    readState,
+    () => EMPTY_STATE
+  );
+}
+
+export function useWatchlistEntry(id: string): WatchlistEntry {
+  return useWatchlist()[id] ?? NO_ENTRY;
+}
+
+export function toggleWatchlist(id: string) {
+  updateEntry(id, (entry) => ({
+    ...entry,
+    addedAt: entry.addedAt ? undefined : new Date().toISOString(),
+  }));
+}
+
+export function toggleWatched(id: string) {
+  updateEntry(id, (entry) => ({
+    ...entry,
+    watchedAt: entry.watchedAt ? undefined : new Date().toISOString(),
+  }));
+}
+
+// Opening a movie puts it in "continue watching" until it is marked watched
+export function markStarted(id: string) {
+  updateEntry(id, (entry) => ({
+    ...entry,
+    startedAt: new Date().toISOString(),
+  }));
+}
+
+export function isWatchlistView(value: unknown): value is WatchlistView {
+  return typeof value === "string" && Object.hasOwn(WATCHLIST_VIEWS, value);
+}
+
+// When each view's movies were added to it, for ordering and membership
+function viewTimestamp(entry: WatchlistEntry, view: WatchlistView) {
+  if (view === "watchlist") return entry.addedAt;
+  if (view === "watched") return entry.watchedAt;
+  return entry.watchedAt ? undefined : entry.startedAt;
+}
+
+// Movie ids in a view, most recent first
+export function watchlistIds(state: WatchlistState, view: WatchlistView) {
+  return Object.entries(state)
+    .map(([id, entry]) => ({ id, at: viewTimestamp(entry, view) }))
+    .filter((item): item is { id: string; at: string } => Boolean(item.at))
+    .sort((a, b) => Date.parse(b.at) - Date.parse(a.at))
+    .map((item) => item.id);
+}
+
+// The watchlist only exists in the browser, so the movies are looked up by id
+export async function fetchWatchlistMovies(ids: string[]) {
+  const movies: Movie[] = [];
+  for (let i = 0; i < ids.length; i += IDS_PER_REQUEST) {
+    const params = new URLSearchParams({ per_page: String(IDS_PER_REQUEST) });
+    ids.slice(i, i + IDS_PER_REQUEST).forEach((id) => params.append("id", id));
+    const response = await fetch(`/api/v1/movies?${params}`);
+    if (!response.ok) {
+      throw new Error(`Could not load watchlist movies (${response.status})`);
+    }
+    const { data } = (await response.json()) as { data: Movie[] };
+    movies.push(...data);
+  }
+  // Keep the watchlist order (most recent first), movies no longer in the catalog drop out
+  const byId = new Map(movies.map((movie) => [movie.id, movie]));
+  return ids.flatMap((id) => byId.get(id) ?? []);
+}
+
+export function exportWatchlist(): string {
+  const file: WatchlistExport = {
+    version: EXPORT_VERSION,
+    exportedAt: new Date().toISOString(),
+    entries: readState(),
+  };
+  return JSON.stringify(file, null, 2);
+}
+
+function latest(a: string | undefined, b: string | undefined) {
+  if (!a || !b) return a ?? b;
+  return Date.parse(a) >= Date.parse(b) ? a : b;
+}
+
+/**
+ * Merge an exported watchlist into the stored one, the newer timestamp wins
+ * for each field. Returns how many movies the file contained.
+ */
+export function importWatchlist(json: string): number {
+  let file: unknown;
+  try {
+    file = JSON.parse(json);
+  } catch {
+    throw new WatchlistImportError(
+      "The file is not valid JSON",
+      "watchlist.invalidJson"
+    );
+  }
+  if (!isObject(file) || !isObject(file.entries)) {
+    throw new WatchlistImportError(
+      "The file is not a SilverStream watchlist",
+      "watchlist.notWatchlist"
+    );
+  }
+  if (file.version !== EXPORT_VERSION) {
+    const version = JSON.stringify(file.version);
+    throw new WatchlistImportError(
+      `Unsupported watchlist version ${version}`,
+      "watchlist.unsupportedVersion",
+      { version }
+    );
+  }
+
+  const imported = parseState(file.entries);
+  const state = { ...readState() };
+  for (const [id, entry] of Object.entries(imported)) {
+    const current = state[id] ?? {};
+    state[id] = {
+      addedAt: latest(current.addedAt, entry.addedAt),
+      watchedAt: latest(current.watchedAt, entry.watchedAt),
+      startedAt: latest(current.startedAt, entry.startedAt),
+    };
+  }
+  writeState(state);
+  return Object.keys(imported).length;
+}
@@ -0,0 +1,189 @@
+// English, the source catalog. Every other locale translates each of these
+// keys, see app/lib/i18n.ts for the `{name}` placeholders and plural forms.
+export const messages = {
+  "header.logoAlt": "SilverStream Logo",
+  "header.genres": "Genres",
+  "header.watchlist": "My Watchlist",
+  "header.language": "Language",
+
+  "theme.label": "Theme",
+  "theme.light": "Light",
+  "theme.dark": "Dark",
+  "theme.system": "System",
+
+  "home.title": "Home",
+  "home.subtitle": "Discover amazing movies from our collection",
+  "home.description": "Browse our collection of English movies",
+  "home.matchingResults": {
+    one: "{count} matching result",
+    other: "{count} matching results",
+  },
+
+  "filters.title": "Search & Filter",
+  "filters.search": "Search Movies",
+  "filters.searchPlaceholder": "Search titles and descriptions...",
+  "filters.genres": "Genres",
+  "filters.genreMatch": "Genre matching",
+  "filters.matchAny": "Match any",
+  "filters.matchAll": "Match all",
+  "filters.year": "Year",
+  "filters.yearFrom": "Year from",
+  "filters.yearTo": "Year to",
+  "filters.any": "Any",
+  "filters.rating": "Rating",
+  "filters.ratingMin": "Minimum rating",
+  "filters.ratingMax": "Maximum rating",
+  "filters.min": "Min",
+  "filters.max": "Max",
+  "filters.unratedHidden": "Unrated movies are hidden",
+  "filters.sort": "Sort By",
+  "filters.clearAll": "Clear All Filters",
+
+  "sort.featured": "Featured",
+  "sort.relevance": "Relevance",
+  "sort.ratingDesc": "Rating: high to low",
+  "sort.ratingAsc": "Rating: low to high",
+  "sort.yearDesc": "Newest first",
+  "sort.yearAsc": "Oldest first",
+  "sort.titleAsc": "Title: A–Z",
+  "sort.titleDesc": "Title: Z–A",
+
+  "grid.perPage": "Per page",
+  "grid.pages": "Pages",
+  "grid.continuous": "Continuous",
+  "grid.empty": "No movies found.",
+  "grid.emptyFiltered": "No movies found matching your criteria.",
+  "grid.clearFilters": "Clear Filters",
+
+  "pagination.previous": "Previous",
+  "pagination.next": "Next",
+  "pagination.summary": {
+    one: "Page {page} of {pages} • Showing {from}-{to} of {count} movie",
+    other: "Page {page} of {pages} • Showing {from}-{to} of {count} movies",
+  },
+
+  "movie.details": "Details",
+  "movie.watch": "Watch",
+  "movie.videoUnavailable": "Video unavailable",
+  "movie.posterUnavailable": "Poster unavailable",
+  "movie.description": "Description",
+  "movie.title": "Title:",
+  "movie.year": "Year:",
+  "movie.rating": "Rating:",
+  "movie.genres": "Genres:",
+
+  "watchlist.onWatchlist": "✓ On Watchlist",
+  "watchlist.add": "+ Watchlist",
+  "watchlist.watched": "✓ Watched",
+  "watchlist.markWatched": "Mark Watched",
+  "watchlist.subtitle": "Movies saved in this browser",
+  "watchlist.loading": "Loading your watchlist...",
+  "watchlist.viewWatchlist": "Watchlist",
+  "watchlist.viewContinue": "Continue Watching",
+  "watchlist.viewWatched": "Watched",
+  "watchlist.emptyWatchlist":
+    "Your watchlist is empty. Add movies from the home page.",
+  "watchlist.emptyContinue": "Movies you start watching will show up here.",
+  "watchlist.emptyWatched": "Movies you mark as watched will show up here.",
+  "watchlist.recentlyAdded": "Recently added",
+  "watchlist.export": "Export JSON",
+  "watchlist.import": "Import JSON",
+  "watchlist.imported": {
+    one: "Imported {count} movie",
+    other: "Imported {count} movies",
+  },
+  "watchlist.invalidJson": "The file is not valid JSON",
+  "watchlist.notWatchlist": "The file is not a SilverStream watchlist",
+  "watchlist.unsupportedVersion": "Unsupported watchlist version {version}",
+
+  "detail.subtitle": "Movie Details",
+  "detail.back": "Back to Movies",
+  "detail.watch": "Watch Movie",
+  "detail.similar": "More like this",
+  "detail.sameYear": "More from {year}",
+  "detail.topRated": "Top rated in {genre}",
+  "detail.seeAll": "See all",
+  "detail.notFound": "Movie not found",
+
+  "genres.subtitle": {
+    one: "{count} genre to explore",
+    other: "{count} genres to explore",
+  },
+  "genres.title": "Browse by Genre",
+  "genres.movieCount": { one: "{count} movie", other: "{count} movies" },
+  "genres.description":
+    "Every movie genre in our collection with its number of movies",
+
+  "landing.seeAll": "See all",
+  "landing.page": "Page {page}",
+
+  "genre.heading": "{genre} Movies",
+  "genre.subtitle": {
+    one: "{count} {genre} movie in our collection",
+    other: "{count} {genre} movies in our collection",
+  },
+  "genre.description":
+    "Browse {count} {genre} movies on SilverStream, from the top rated to the newest releases.",
+  "genre.allGenres": "All genres",
+  "genre.topRated": "Top rated {genre}",
+  "genre.newest": "Newest {genre}",
+  "genre.all": "All {genre} movies",
+  "genre.notFound": "Genre not found",
+
+  "year.heading": "Movies from {year}",
+  "year.subtitle": {
+    one: "{count} movie released in {year}",
+    other: "{count} movies released in {year}",
+  },
+  "year.description":
+    "Browse {count} movies released in {year} on SilverStream, best rated first.",
+  "year.topRated": "Top rated of {year}",
+  "year.all": "All movies from {year}",
+  "year.notFound": "Year not found",
+
+  "titleMatches.subtitle": {
+    one: '{count} movie titled "{title}"',
+    other: '{count} movies titled "{title}"',
+  },
+  "titleMatches.description": 'Movies titled "{title}" in our collection',
+  "titleMatches.heading": "Which one did you mean?",
+
+  "watch.title": "Watch {title}",
+  "watch.back": "← Back to Details",
+  "watch.previous": "← Previous",
+  "watch.next": "Next →",
+  "watch.position": "{index} of {total}",
+  "watch.loading": "Loading player...",
+  "watch.noSource": "This movie has no video source yet.",
+  "watch.failed": "The player didn't load.",
+  "watch.retry": "Try Again",
+  "watch.openSource": "Open Source in New Tab",
+
+  // Page titles and descriptions of filtered listings, see describeFilters
+  // in app/lib/seo.ts, e.g. "Action or Comedy movies from 2010–2020"
+  "seo.pageOf": "Page {page} of {pages}",
+  "seo.movies": "movies",
+  "seo.genreMovies": "{genres} movies",
+  "seo.genresAny": "{genres} or {genre}",
+  "seo.genresAll": "{genres} & {genre}",
+  "seo.from": "from {years}",
+  "seo.orLater": "{value} or later",
+  "seo.upTo": "up to {value}",
+  "seo.rated": "rated {rating}",
+  "seo.ratedMin": "rated {rating}+",
+  "seo.matching": 'matching "{search}"',
+  "seo.browse": "Browse {count} {summary} on SilverStream.",
+
+  "offline.status": "Offline, showing saved movies",
+  "offline.title": "You're offline",
+  "offline.unsaved": "This page hasn't been saved for offline use yet.",
+  "offline.browse": "Browse saved movies",
+
+  "error.title": "Oops!",
+  "error.generic": "Error",
+  "error.unexpected": "An unexpected error occurred.",
+  "error.notFoundTitle": "404",
+  "error.notFound": "The requested page could not be found.",
+  "error.unknown": "Unknown error",
+  "error.backHome": "Back to Home",
+};
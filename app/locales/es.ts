@@ -0,0 +1,221 @@
+import type { Messages } from "~/lib/i18n";
+
+export const messages: Messages = {
+  "header.logoAlt": "Logotipo de SilverStream",
+  "header.genres": "Géneros",
+  "header.watchlist": "Mi lista",
+  "header.language": "Idioma",
+
+  "theme.label": "Tema",
+  "theme.light": "Claro",
+  "theme.dark": "Oscuro",
+  "theme.system": "Sistema",
+
+  "home.title": "Inicio",
+  "home.subtitle": "Descubre películas increíbles de nuestra colección",
+  "home.description": "Explora nuestra colección de películas en inglés",
+  "home.matchingResults": {
+    one: "{count} resultado",
+    other: "{count} resultados",
+  },
+
+  "filters.title": "Buscar y filtrar",
+  "filters.search": "Buscar películas",
+  "filters.searchPlaceholder": "Busca en títulos y descripciones...",
+  "filters.genres": "Géneros",
+  "filters.genreMatch": "Coincidencia de géneros",
+  "filters.matchAny": "Cualquiera",
+  "filters.matchAll": "Todos",
+  "filters.year": "Año",
+  "filters.yearFrom": "Desde el año",
+  "filters.yearTo": "Hasta el año",
+  "filters.any": "Cualquiera",
+  "filters.rating": "Valoración",
+  "filters.ratingMin": "Valoración mínima",
+  "filters.ratingMax": "Valoración máxima",
+  "filters.min": "Mín.",
+  "filters.max": "Máx.",
+  "filters.unratedHidden": "Se ocultan las películas sin valoración",
+  "filters.sort": "Ordenar por",
+  "filters.clearAll": "Quitar todos los filtros",
+
+  "sort.featured": "Destacadas",
+  "sort.relevance": "Relevancia",
+  "sort.ratingDesc": "Valoración: de mayor a menor",
+  "sort.ratingAsc": "Valoración: de menor a mayor",
+  "sort.yearDesc": "Más recientes",
+  "sort.yearAsc": "Más antiguas",
+  "sort.titleAsc": "Título: A–Z",
+  "sort.titleDesc": "Título: Z–A",
+
+  "grid.perPage": "Por página",
+  "grid.pages": "Páginas",
+  "grid.continuous": "Continuo",
+  "grid.empty": "No se encontraron películas.",
+  "grid.emptyFiltered": "Ninguna película coincide con tu búsqueda.",
+  "grid.clearFilters": "Quitar filtros",
+
+  "pagination.previous": "Anterior",
+  "pagination.next": "Siguiente",
+  "pagination.summary": {
+    one: "Página {page} de {pages} • Mostrando {from}-{to} de {count} película",
+    other:
+      "Página {page} de {pages} • Mostrando {from}-{to} de {count} películas",
+  },
+
+  "movie.details": "Detalles",
+  "movie.watch": "Ver",
+  "movie.videoUnavailable": "Vídeo no disponible",
+  "movie.posterUnavailable": "Póster no disponible",
+  "movie.description": "Descripción",
+  "movie.title": "Título:",
+  "movie.year": "Año:",
+  "movie.rating": "Valoración:",
+  "movie.genres": "Géneros:",
+
+  "watchlist.onWatchlist": "✓ En mi lista",
+  "watchlist.add": "+ Mi lista",
+  "watchlist.watched": "✓ Vista",
+  "watchlist.markWatched": "Marcar como vista",
+  "watchlist.subtitle": "Películas guardadas en este navegador",
+  "watchlist.loading": "Cargando tu lista...",
+  "watchlist.viewWatchlist": "Mi lista",
+  "watchlist.viewContinue": "Seguir viendo",
+  "watchlist.viewWatched": "Vistas",
+  "watchlist.emptyWatchlist":
+    "Tu lista está vacía. Añade películas desde la página de inicio.",
+  "watchlist.emptyContinue":
+    "Aquí aparecerán las películas que empieces a ver.",
+  "watchlist.emptyWatched":
+    "Aquí aparecerán las películas que marques como vistas.",
+  "watchlist.recentlyAdded": "Añadidas recientemente",
+  "watchlist.export": "Exportar JSON",
+  "watchlist.import": "Importar JSON",
+  "watchlist.imported": {
+    one: "Se importó {count} película",
+    other: "Se importaron {count} películas",
+  },
+  "watchlist.invalidJson": "El archivo no es un JSON válido",
+  "watchlist.notWatchlist": "El archivo no es una lista de SilverStream",
+  "watchlist.unsupportedVersion": "Versión de lista no compatible: {version}",
+
+  "detail.subtitle": "Detalles de la película",
+  "detail.back": "Volver a las películas",
+  "detail.watch": "Ver película",
+  "detail.similar": "Más como esta",
+  "detail.sameYear": "Más de {year}",
+  "detail.topRated": "Mejor valoradas en {genre}",
+  "detail.seeAll": "Ver todas",
+  "detail.notFound": "Película no encontrada",
+
+  "genres.subtitle": {
+    one: "{count} género por explorar",
+    other: "{count} géneros por explorar",
+  },
+  "genres.title": "Explorar por género",
+  "genres.movieCount": { one: "{count} película", other: "{count} películas" },
+  "genres.description":
+    "Todos los géneros de nuestra colección con su número de películas",
+
+  "landing.seeAll": "Ver todas",
+  "landing.page": "Página {page}",
+
+  "genre.heading": "Películas de {genre}",
+  "genre.subtitle": {
+    one: "{count} película de {genre} en nuestra colección",
+    other: "{count} películas de {genre} en nuestra colección",
+  },
+  "genre.description":
+    "Explora {count} películas de {genre} en SilverStream, de las mejor valoradas a los últimos estrenos.",
+  "genre.allGenres": "Todos los géneros",
+  "genre.topRated": "{genre}: mejor valoradas",
+  "genre.newest": "{genre}: más recientes",
+  "genre.all": "Todas las películas de {genre}",
+  "genre.notFound": "Género no encontrado",
+
+  "year.heading": "Películas de {year}",
+  "year.subtitle": {
+    one: "{count} película estrenada en {year}",
+    other: "{count} películas estrenadas en {year}",
+  },
+  "year.description":
+    "Explora {count} películas estrenadas en {year} en SilverStream, primero las mejor valoradas.",
+  "year.topRated": "Mejor valoradas de {year}",
+  "year.all": "Todas las películas de {year}",
+  "year.notFound": "Año no encontrado",
+
+  "titleMatches.subtitle": {
+    one: '{count} película titulada "{title}"',
+    other: '{count} películas tituladas "{title}"',
+  },
+  "titleMatches.description":
+    'Películas tituladas "{title}" en nuestra colección',
+  "titleMatches.heading": "¿Cuál buscabas?",
+
+  "watch.title": "Ver {title}",
+  "watch.back": "← Volver a los detalles",
+  "watch.previous": "← Anterior",
+  "watch.next": "Siguiente →",
+  "watch.position": "{index} de {total}",
+  "watch.loading": "Cargando el reproductor...",
+  "watch.noSource": "Esta película aún no tiene fuente de vídeo.",
+  "watch.failed": "El reproductor no se cargó.",
+  "watch.retry": "Reintentar",
+  "watch.openSource": "Abrir la fuente en otra pestaña",
+
+  "seo.pageOf": "Página {page} de {pages}",
+  "seo.movies": "películas",
+  "seo.genreMovies": "películas de {genres}",
+  "seo.genresAny": "{genres} o {genre}",
+  "seo.genresAll": "{genres} y {genre}",
+  "seo.from": "de {years}",
+  "seo.orLater": "{value} o posteriores",
+  "seo.upTo": "hasta {value}",
+  "seo.rated": "con valoración {rating}",
+  "seo.ratedMin": "con valoración {rating}+",
+  "seo.matching": 'que coinciden con "{search}"',
+  "seo.browse": "Explora {count} {summary} en SilverStream.",
+
+  "offline.status": "Sin conexión, mostrando películas guardadas",
+  "offline.title": "Sin conexión",
+  "offline.unsaved":
+    "Esta página aún no se ha guardado para verla sin conexión.",
+  "offline.browse": "Ver películas guardadas",
+
+  "error.title": "¡Vaya!",
+  "error.generic": "Error",
+  "error.unexpected": "Se produjo un error inesperado.",
+  "error.notFoundTitle": "404",
+  "error.notFound": "No se encontró la página solicitada.",
+  "error.unknown": "Error desconocido",
+  "error.backHome": "Volver al inicio",
+};
+
+// Catalog genres keep their English names in URLs and filters
+export const genres: Record<string, string> = {
+  Action: "Acción",
+  Adventure: "Aventura",
+  Animation: "Animación",
+  Biography: "Biografía",
+  Comedy: "Comedia",
+  Crime: "Crimen",
+  Documentary: "Documental",
+  Drama: "Drama",
+  Family: "Familiar",
+  Fantasy: "Fantasía",
+  "Game-Show": "Concurso",
+  History: "Historia",
+  Horror: "Terror",
+  Music: "Música",
+  Musical: "Musical",
+  Mystery: "Misterio",
+  News: "Noticias",
+  "Reality-TV": "Telerrealidad",
+  Romance: "Romance",
+  "Sci-Fi": "Ciencia ficción",
+  Sport: "Deporte",
+  "Talk-Show": "Programa de entrevistas",
+  Thriller: "Suspense",
+  War: "Bélico",
+  Western: "Western",
+};
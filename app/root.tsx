@@ -1,14 +1,33 @@
+import { useEffect } from "react";
 import {
+  data,
   isRouteErrorResponse,
   Links,
   Meta,
   Outlet,
   Scripts,
   ScrollRestoration,
+  useLocation,
+  type ShouldRevalidateFunctionArgs,
 } from "react-router";
 
 import type { Route } from "./+types/root";
 import "./app.css";
+import { OfflineIndicator } from "~/components/offline-indicator";
+import { CACHE_CONTROL, cacheHeaders } from "~/lib/cache-policy";
+import {
+  isLocale,
+  LOCALE_CODES,
+  LOCALE_PARAM,
+  localePath,
+  useLocale,
+  useTranslation,
+} from "~/lib/i18n";
+import { resolveLocale } from "~/lib/i18n.server";
+import { registerServiceWorker } from "~/lib/offline";
+import { absoluteUrl, siteUrlScript } from "~/lib/seo";
+import { DEFAULT_THEME, useTheme } from "~/lib/theme";
+import { readTheme } from "~/lib/theme.server";
 
 export const links: Route.LinksFunction = () => [
   { rel: "preconnect", href: "https://fonts.googleapis.com" },
@@ -26,30 +45,73 @@ export const links: Route.LinksFunction = () => [
     type: "image/x-icon",
     href: "/silver_32.ico",
   },
+  { rel: "manifest", href: "/manifest.webmanifest" },
+  { rel: "apple-touch-icon", href: "/icons/icon-192.png" },
 ];
 
-export const headers: Route.HeadersFunction = () => {
-  return {
-    // Cache static assets for 1 year
-    "Cache-Control": "public, max-age=31536000, immutable",
-  };
-};
+// Pages, resource routes set their own Cache-Control. The language of a
+// page follows the browser's languages and the switchers' cookies, the
+// loader picks the policy.
+export const headers: Route.HeadersFunction = ({ loaderHeaders }) => ({
+  "Cache-Control":
+    loaderHeaders.get("Cache-Control") ?? CACHE_CONTROL.personalized,
+  Vary: "Accept-Language, Cookie",
+});
+
+export async function loader({ request }: Route.LoaderArgs) {
+  const theme = await readTheme(request);
+  // Only a `?lang=` page without a saved theme is the same for everyone,
+  // shared caches can't be trusted to honor the Vary header
+  const personalized =
+    !isLocale(new URL(request.url).searchParams.get(LOCALE_PARAM)) ||
+    theme !== DEFAULT_THEME;
+  return data(
+    { locale: await resolveLocale(request), theme },
+    { headers: cacheHeaders(personalized ? "personalized" : "html") }
+  );
+}
+
+// The locale and theme only change through the switchers (actions) or a
+// `?lang=` link, skipping the rest keeps navigation working offline
+export function shouldRevalidate({
+  currentUrl,
+  nextUrl,
+  formMethod,
+  defaultShouldRevalidate,
+}: ShouldRevalidateFunctionArgs) {
+  if (formMethod && formMethod !== "GET") return defaultShouldRevalidate;
+  const next = nextUrl.searchParams.get(LOCALE_PARAM);
+  return next !== null && next !== currentUrl.searchParams.get(LOCALE_PARAM);
+}
 
 export function Layout({ children }: { children: React.ReactNode }) {
+  const locale = useLocale();
+  const theme = useTheme();
+  const location = useLocation();
+
   return (
-    <html lang="en">
+    // Without data-theme the `dark:` variant follows the OS setting
+    <html lang={locale} data-theme={theme === "system" ? undefined : theme}>
       <head>
         <meta charSet="utf-8" />
         <meta name="viewport" content="width=device-width, initial-scale=1" />
-        <meta property="og:type" content="website" />
-        <meta property="og:site_name" content="SilverStream" />
-        <meta property="og:image" content="/silver1.png" />
-        <meta name="twitter:card" content="summary_large_image" />
-        <meta name="twitter:creator" content="@silverstream" />
-        <meta name="twitter:image" content="/silver1.png" />
-        <link rel="canonical" href="https://silver-stream.app" />
+        <meta name="theme-color" content="#111827" />
+        <script dangerouslySetInnerHTML={{ __html: siteUrlScript() }} />
         <Meta />
         <Links />
+        {LOCALE_CODES.map((code) => (
+          <link
+            key={code}
+            rel="alternate"
+            hrefLang={code}
+            href={absoluteUrl(localePath(location, code))}
+          />
+        ))}
+        <link
+          rel="alternate"
+          hrefLang="x-default"
+          href={absoluteUrl(localePath(location))}
+        />
       </head>
       <body>
         {children}
@@ -61,20 +123,29 @@ export function Layout({ children }: { children: React.ReactNode }) {
 }
 
 export default function App() {
-  return <Outlet />;
+  useEffect(() => {
+    registerServiceWorker();
+  }, []);
+
+  return (
+    <>
+      <Outlet />
+      <OfflineIndicator />
+    </>
+  );
 }
 
 export function ErrorBoundary({ error }: Route.ErrorBoundaryProps) {
-  let message = "Oops!";
-  let details = "An unexpected error occurred.";
+  const { t } = useTranslation();
+  let message = t("error.title");
+  let details = t("error.unexpected");
   let stack: string | undefined;
 
   if (isRouteErrorResponse(error)) {
-    message = error.status === 404 ? "404" : "Error";
+    message =
+      error.status === 404 ? t("error.notFoundTitle") : t("error.generic");
     details =
-      error.status === 404
-        ? "The requested page could not be found."
-        : error.statusText || details;
+      error.status === 404 ? t("error.notFound") : error.statusText || details;
   } else if (import.meta.env.DEV && error && error instanceof Error) {
     details = error.message;
     stack = error.stack;
@@ -1,6 +1,49 @@
-import { type RouteConfig, index, route } from "@react-router/dev/routes";
+import {
+  type RouteConfig,
+  index,
+  layout,
+  prefix,
+  route,
+} from "@react-router/dev/routes";
 
 export default [
   index("routes/home.tsx"),
-  route("movie/:title", "routes/movie-detail.tsx"),
+  route("movie/:id", "routes/movie-detail.tsx"),
+  route("movie/:id/watch", "routes/movie-watch.tsx"),
+  route("title/:title", "routes/title-matches.tsx"),
+  route("genres", "routes/genres.tsx"),
+  route("genre/:genre", "routes/genre.tsx"),
+  route("year/:year", "routes/year.tsx"),
+  route("watchlist", "routes/watchlist.tsx"),
+  route("posters/:id", "routes/poster.ts"),
+  route("locale", "routes/locale.ts"),
+  route("theme", "routes/theme.ts"),
+
+  // Crawlers
+  route("sitemap.xml", "routes/sitemap.ts"),
+  route("sitemaps/:name", "routes/sitemaps.ts"),
+  route("robots.txt", "routes/robots.ts"),
+
+  // Versioned JSON API
+  ...prefix("api/v1", [
+    route("movies", "routes/api/movies.ts"),
+    route("movies/:id", "routes/api/movie.ts"),
+    route("genres", "routes/api/genres.ts"),
+    route("years", "routes/api/years.ts"),
+    route("catalog", "routes/api/catalog.ts"),
+  ]),
+  route("api/*", "routes/api/not-found.ts"),
+
+  // Catalog management, a 404 unless ADMIN_PASSWORD is set
+  ...prefix("admin", [
+    route("login", "routes/admin/login.tsx"),
+    route("logout", "routes/admin/logout.ts"),
+    layout("routes/admin/layout.tsx", [
+      index("routes/admin/movies.tsx"),
+      route("movies/new", "routes/admin/movie-new.tsx"),
+      route("movies/:id", "routes/admin/movie-edit.tsx"),
+      route("links", "routes/admin/links.tsx"),
+      route("audit", "routes/admin/audit.tsx"),
+    ]),
+  ]),
 ] satisfies RouteConfig;
@@ -0,0 +1,105 @@
+import { Link } from "react-router";
+
+import type { Route } from "./+types/audit";
+import { requireAdmin } from "~/lib/admin-auth.server";
+import { readAuditLog } from "~/lib/catalog-store.server";
+
+const AUDIT_LIMIT = 200;
+
+const ACTION_LABELS = {
+  create: "Added",
+  update: "Edited",
+  delete: "Deleted",
+};
+
+export function meta() {
+  return [
+    { title: "Audit log - SilverStream Admin" },
+    { name: "robots", content: "noindex" },
+  ];
+}
+
+export async function loader({ request }: Route.LoaderArgs) {
+  await requireAdmin(request);
+  return { entries: await readAuditLog(AUDIT_LIMIT) };
+}
+
+function formatValue(value: unknown) {
+  if (value === undefined || value === "") return "(empty)";
+  if (Array.isArray(value)) return value.join(", ") || "(empty)";
+  return String(value);
+}
+
+export default function AdminAudit({ loaderData }: Route.ComponentProps) {
+  const { entries } = loaderData;
+
+  return (
+    <>
+      <h1 className="text-3xl font-bold text-gray-900 dark:text-white mb-2">
+        Audit log
+      </h1>
+      <p className="text-gray-600 dark:text-gray-400 mb-6">
+        The last {AUDIT_LIMIT} catalog changes, most recent first.
+      </p>
+
+      {entries.length === 0 ? (
+        <p className="text-gray-600 dark:text-gray-400">No changes yet.</p>
+      ) : (
+        <ol className="space-y-4">
+          {entries.map((entry, index) => (
+            <li
+              key={`${entry.time}-${index}`}
+              className="bg-white dark:bg-gray-800 rounded-lg shadow-md p-4"
+            >
+              <div className="flex flex-wrap items-baseline gap-x-3 gap-y-1">
+                <span className="font-semibold text-gray-900 dark:text-white">
+                  {ACTION_LABELS[entry.action]}
+                </span>
+                {entry.action === "delete" ? (
+                  <span className="text-gray-900 dark:text-white">
+                    {entry.title}
+                  </span>
+                ) : (
+                  <Link
+                    to={`/admin/movies/${entry.movie_id}`}
+                    className="text-blue-600 hover:text-blue-700 dark:text-blue-400 dark:hover:text-blue-300"
+                  >
+                    {entry.title}
+                  </Link>
+                )}
+                <span className="text-sm text-gray-500 dark:text-gray-400">
+                  by {entry.actor},{" "}
+                  <time dateTime={entry.time}>
+                    {new Date(entry.time).toLocaleString("en-US", {
+                      dateStyle: "medium",
+                      timeStyle: "short",
+                      timeZone: "UTC",
+                    })}{" "}
+                    UTC
+                  </time>
+                </span>
+              </div>
+              {entry.action === "update" && (
+                <dl className="mt-3 grid grid-cols-[max-content_1fr] gap-x-4 gap-y-1 text-sm">
+                  {Object.entries(entry.changes).map(([field, change]) => (
+                    <div key={field} className="contents">
+                      <dt className="font-medium text-gray-700 dark:text-gray-300">
+                        {field}
+                      </dt>
+                      <dd className="text-gray-600 dark:text-gray-400 break-all">
+                        <del>{formatValue(change?.from)}</del> →{" "}
+                        <ins className="no-underline text-gray-900 dark:text-white">
+                          {formatValue(change?.to)}
+                        </ins>
+                      </dd>
+                    </div>
+                  ))}
+                </dl>
+              )}
+            </li>
+          ))}
+        </ol>
+      )}
+    </>
+  );
+}
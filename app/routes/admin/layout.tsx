@@ -0,0 +1,73 @@
+import { Form, Link, NavLink, Outlet } from "react-router";
+
+import type { Route } from "./+types/layout";
+import { ErrorPage } from "~/components/error-page";
+import { requireAdmin } from "~/lib/admin-auth.server";
+import { cacheHeaders } from "~/lib/cache-policy";
+
+// Admin pages are per user and change with every save
+export const headers: Route.HeadersFunction = () => cacheHeaders("none");
+
+// Child loaders run in parallel with this one, so each checks the session too
+export async function loader({ request }: Route.LoaderArgs) {
+  return { actor: await requireAdmin(request) };
+}
+
+const navLinkClassName = ({ isActive }: { isActive: boolean }) =>
+  `text-sm font-medium ${
+    isActive
+      ? "text-gray-900 dark:text-white"
+      : "text-blue-600 hover:text-blue-700 dark:text-blue-400 dark:hover:text-blue-300"
+  }`;
+
+export default function AdminLayout({ loaderData }: Route.ComponentProps) {
+  return (
+    <div className="min-h-screen bg-gray-50 dark:bg-gray-900">
+      <div className="bg-white dark:bg-gray-800 shadow-sm border-b border-gray-200 dark:border-gray-700">
+        <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-4 flex flex-wrap items-center gap-6">
+          <Link
+            to="/admin"
+            className="text-xl font-bold text-gray-900 dark:text-white"
+          >
+            SilverStream Admin
+          </Link>
+          <nav className="flex gap-6">
+            <NavLink to="/admin" end className={navLinkClassName}>
+              Movies
+            </NavLink>
+            <NavLink to="/admin/movies/new" className={navLinkClassName}>
+              Add movie
+            </NavLink>
+            <NavLink to="/admin/links" className={navLinkClassName}>
+              Link health
+            </NavLink>
+            <NavLink to="/admin/audit" className={navLinkClassName}>
+              Audit log
+            </NavLink>
+          </nav>
+          <div className="ml-auto flex items-center gap-4 text-sm text-gray-600 dark:text-gray-400">
+            <Link to="/" className="hover:text-gray-900 dark:hover:text-white">
+              View site
+            </Link>
+            <span>Signed in as {loaderData.actor}</span>
+            <Form method="post" action="/admin/logout">
+              <button
+                type="submit"
+                className="font-medium text-blue-600 hover:text-blue-700 dark:text-blue-400 dark:hover:text-blue-300"
+              >
+                Sign out
+              </button>
+            </Form>
+          </div>
+        </div>
+      </div>
+      <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-8">
+        <Outlet />
+      </div>
+    </div>
+  );
+}
+
+export function ErrorBoundary({ error }: Route.ErrorBoundaryProps) {
+  return <ErrorPage error={error} notFoundMessage="Page not found" />;
+}
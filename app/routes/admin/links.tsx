@@ -0,0 +1,271 @@
+import { data, Form, Link, useNavigation, useSearchParams } from "react-router";
+
+import type { Route } from "./+types/links";
+import { Pagination } from "~/components/pagination";
+import { requireAdmin } from "~/lib/admin-auth.server";
+import { findMovieById, paginate } from "~/lib/catalog";
+import { getCatalog } from "~/lib/catalog.server";
+import { checkLink } from "~/lib/link-checker.server";
+import {
+  countLinkStatuses,
+  LINK_KINDS,
+  type LinkStatus,
+} from "~/lib/link-health";
+import {
+  linkHealthMode,
+  movieLinkJobs,
+  readLinkHealth,
+  setMovieLinkHealth,
+  updateLinkHealth,
+} from "~/lib/link-health.server";
+
+const ROWS_PER_PAGE = 50;
+
+const STATUS_FILTERS = {
+  broken: "Broken",
+  unknown: "Couldn't check",
+  all: "All problems",
+};
+
+const STATUS_CLASSES: Record<LinkStatus, string> = {
+  ok: "bg-green-100 text-green-800 dark:bg-green-900 dark:text-green-200",
+  broken: "bg-red-100 text-red-800 dark:bg-red-900 dark:text-red-200",
+  unknown:
+    "bg-yellow-100 text-yellow-800 dark:bg-yellow-900 dark:text-yellow-200",
+};
+
+export function meta() {
+  return [
+    { title: "Link health - SilverStream Admin" },
+    { name: "robots", content: "noindex" },
+  ];
+}
+
+export async function loader({ request }: Route.LoaderArgs) {
+  await requireAdmin(request);
+  const params = new URL(request.url).searchParams;
+  const status = params.get("status");
+  const filter =
+    status === "unknown" || status === "all" ? status : ("broken" as const);
+  const page = parseInt(params.get("page") || "1", 10);
+
+  const [catalog, report] = await Promise.all([getCatalog(), readLinkHealth()]);
+  const rows = Object.entries(report.movies)
+    .filter(([id]) => catalog.byId.has(id))
+    .map(([id, { title, links }]) => ({ id, title, links }))
+    .filter(({ links }) =>
+      LINK_KINDS.some((kind) => {
+        const linkStatus = links[kind]?.status;
+        return filter === "all"
+          ? linkStatus !== undefined && linkStatus !== "ok"
+          : linkStatus === filter;
+      })
+    )
+    .sort((a, b) => a.title.localeCompare(b.title));
+
+  return {
+    ...paginate(rows, Number.isNaN(page) ? 1 : page, ROWS_PER_PAGE),
+    filter,
+    counts: countLinkStatuses(report),
+    checkedAt: report.checked_at,
+    mode: linkHealthMode(),
+  };
+}
+
+// Check one movie's links again, e.g. after fixing them
+export async function action({ request }: Route.ActionArgs) {
+  await requireAdmin(request);
+  const id = String((await request.formData()).get("id") ?? "");
+  const movie = findMovieById(await getCatalog(), id);
+  if (!movie) {
+    throw data("Movie not found", { status: 404 });
+  }
+  const checks = await Promise.all(
+    movieLinkJobs(movie).map(async (job) => ({
+      kind: job.kind,
+      check: await checkLink(job),
+    }))
+  );
+  await updateLinkHealth((report) => {
+    delete report.movies[movie.id];
+    setMovieLinkHealth(report, movie, checks);
+  });
+  return { rechecked: movie.title };
+}
+
+export default function AdminLinks({
+  loaderData,
+  actionData,
+}: Route.ComponentProps) {
+  const {
+    movies: rows,
+    filter,
+    counts,
+    checkedAt,
+    mode,
+    ...pagination
+  } = loaderData;
+  const [searchParams] = useSearchParams();
+  const navigation = useNavigation();
+  const recheckingId =
+    navigation.state === "submitting" ? navigation.formData?.get("id") : null;
+
+  const filterParams = (status: string) => {
+    const params = new URLSearchParams(searchParams);
+    params.set("status", status);
+    params.delete("page");
+    return `?${params}`;
+  };
+
+  return (
+    <>
+      <h1 className="text-3xl font-bold text-gray-900 dark:text-white mb-2">
+        Link health
+      </h1>
+      <p className="text-gray-600 dark:text-gray-400 mb-6">
+        {checkedAt ? (
+          <>
+            Last checked{" "}
+            <time dateTime={checkedAt}>
+              {new Date(checkedAt).toLocaleString("en-US", {
+                dateStyle: "medium",
+                timeStyle: "short",
+                timeZone: "UTC",
+              })}{" "}
+              UTC
+            </time>
+            .
+          </>
+        ) : (
+          <>Links haven't been checked yet.</>
+        )}{" "}
+        Run <code>npm run links:check</code> on the server to check every movie.
+        Broken movies on the home grid: <strong>{mode}</strong> (
+        <code>LINK_HEALTH_MODE</code>).
+      </p>
+
+      <div className="grid grid-cols-1 sm:grid-cols-2 gap-4 mb-6">
+        {LINK_KINDS.map((kind) => (
+          <div
+            key={kind}
+            className="bg-white dark:bg-gray-800 rounded-lg shadow-md p-4"
+          >
+            <h2 className="font-semibold text-gray-900 dark:text-white mb-2">
+              {kind === "image" ? "Posters" : "Videos"}
+            </h2>
+            <p className="text-sm text-gray-600 dark:text-gray-400">
+              {counts[kind].ok} ok, {counts[kind].broken} broken,{" "}
+              {counts[kind].unknown} couldn't be checked
+            </p>
+          </div>
+        ))}
+      </div>
+
+      {actionData && (
+        <p
+          role="status"
+          className="mb-6 rounded-md bg-green-50 dark:bg-green-900/40 text-green-800 dark:text-green-200 px-4 py-3"
+        >
+          Rechecked "{actionData.rechecked}".
+        </p>
+      )}
+
+      <nav className="flex gap-4 mb-4 text-sm">
+        {Object.entries(STATUS_FILTERS).map(([status, label]) => (
+          <Link
+            key={status}
+            to={filterParams(status)}
+            aria-current={filter === status ? "page" : undefined}
+            className={
+              filter === status
+                ? "font-semibold text-gray-900 dark:text-white"
+                : "text-blue-600 hover:text-blue-700 dark:text-blue-400 dark:hover:text-blue-300"
+            }
+          >
+            {label}
+          </Link>
+        ))}
+      </nav>
+
+      {rows.length === 0 ? (
+        <p className="text-gray-600 dark:text-gray-400">No links found.</p>
+      ) : (
+        <div className="overflow-x-auto bg-white dark:bg-gray-800 rounded-lg shadow-md">
+          <table className="w-full text-sm text-left">
+            <thead className="bg-gray-50 dark:bg-gray-700 text-gray-700 dark:text-gray-300">
+              <tr>
+                <th className="px-4 py-3 font-medium">Movie</th>
+                <th className="px-4 py-3 font-medium">Poster</th>
+                <th className="px-4 py-3 font-medium">Video</th>
+                <th className="px-4 py-3">
+                  <span className="sr-only">Actions</span>
+                </th>
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-gray-200 dark:divide-gray-700 text-gray-900 dark:text-gray-100">
+              {rows.map((row) => (
+                <tr key={row.id}>
+                  <td className="px-4 py-3 font-medium">
+                    <Link
+                      to={`/admin/movies/${row.id}`}
+                      className="text-blue-600 hover:text-blue-700 dark:text-blue-400 dark:hover:text-blue-300"
+                    >
+                      {row.title}
+                    </Link>
+                  </td>
+                  {LINK_KINDS.map((kind) => {
+                    const check = row.links[kind];
+                    return (
+                      <td key={kind} className="px-4 py-3 align-top">
+                        {check ? (
+                          <>
+                            <span
+                              className={`inline-block px-2 py-0.5 rounded text-xs font-medium ${STATUS_CLASSES[check.status]}`}
+                            >
+                              {check.status}
+                            </span>
+                            {check.reason && (
+                              <span className="ml-2 text-gray-600 dark:text-gray-400">
+                                {check.reason}
+                              </span>
+                            )}
+                            <a
+                              href={check.url}
+                              target="_blank"
+                              rel="noreferrer"
+                              className="block mt-1 text-xs text-gray-500 dark:text-gray-400 break-all hover:underline"
+                            >
+                              {check.url}
+                            </a>
+                          </>
+                        ) : (
+                          <span className="text-gray-500 dark:text-gray-400">
+                            —
+                          </span>
+                        )}
+                      </td>
+                    );
+                  })}
+                  <td className="px-4 py-3 text-right whitespace-nowrap align-top">
+                    <Form method="post">
+                      <input type="hidden" name="id" value={row.id} />
+                      <button
+                        type="submit"
+                        disabled={recheckingId === row.id}
+                        className="font-medium text-blue-600 hover:text-blue-700 disabled:opacity-50 dark:text-blue-400 dark:hover:text-blue-300"
+                      >
+                        {recheckingId === row.id ? "Checking…" : "Recheck"}
+                      </button>
+                    </Form>
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+
+      <Pagination {...pagination} />
+    </>
+  );
+}
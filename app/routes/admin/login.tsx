@@ -0,0 +1,81 @@
+import { data, Form, redirect, useNavigation } from "react-router";
+
+import type { Route } from "./+types/login";
+import { isSignedIn, safeNext, signIn } from "~/lib/admin-auth.server";
+import { cacheHeaders } from "~/lib/cache-policy";
+
+export const headers: Route.HeadersFunction = () => cacheHeaders("none");
+
+export function meta() {
+  return [
+    { title: "Sign in - SilverStream Admin" },
+    { name: "robots", content: "noindex" },
+  ];
+}
+
+export async function loader({ request }: Route.LoaderArgs) {
+  const next = safeNext(new URL(request.url).searchParams.get("next"));
+  if (await isSignedIn(request)) throw redirect(next);
+  return null;
+}
+
+export async function action({ request }: Route.ActionArgs) {
+  const formData = await request.formData();
+  const password = formData.get("password");
+  const cookie =
+    typeof password === "string" ? await signIn(request, password) : null;
+  if (!cookie) {
+    return data({ error: "Wrong password" }, { status: 401 });
+  }
+  const next = safeNext(new URL(request.url).searchParams.get("next"));
+  return redirect(next, { headers: { "Set-Cookie": cookie } });
+}
+
+export default function AdminLogin({ actionData }: Route.ComponentProps) {
+  const navigation = useNavigation();
+
+  return (
+    <div className="min-h-screen bg-gray-50 dark:bg-gray-900 flex items-center justify-center px-4">
+      <Form
+        method="post"
+        className="w-full max-w-sm bg-white dark:bg-gray-800 rounded-lg shadow-md p-8"
+      >
+        <h1 className="text-2xl font-bold text-gray-900 dark:text-white mb-6">
+          SilverStream Admin
+        </h1>
+        <label
+          htmlFor="password"
+          className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1"
+        >
+          Password
+        </label>
+        <input
+          id="password"
+          name="password"
+          type="password"
+          required
+          autoFocus
+          autoComplete="current-password"
+          aria-invalid={actionData?.error ? true : undefined}
+          aria-describedby={actionData?.error ? "password-error" : undefined}
+          className="w-full px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-md bg-white dark:bg-gray-700 text-gray-900 dark:text-white focus:outline-none focus:ring-2 focus:ring-blue-500"
+        />
+        {actionData?.error && (
+          <p
+            id="password-error"
+            className="mt-2 text-sm text-red-600 dark:text-red-400"
+          >
+            {actionData.error}
+          </p>
+        )}
+        <button
+          type="submit"
+          disabled={navigation.state === "submitting"}
+          className="mt-6 w-full bg-blue-600 hover:bg-blue-700 disabled:opacity-50 text-white px-4 py-2 rounded-md font-medium transition-colors"
+        >
+          Sign in
+        </button>
+      </Form>
+    </div>
+  );
+}
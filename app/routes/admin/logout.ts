@@ -0,0 +1,15 @@
+import { redirect } from "react-router";
+
+import type { Route } from "./+types/logout";
+import { signOut } from "~/lib/admin-auth.server";
+
+// POST /admin/logout
+export async function action({ request }: Route.ActionArgs) {
+  return redirect("/admin/login", {
+    headers: { "Set-Cookie": await signOut(request) },
+  });
+}
+
+export function loader() {
+  return redirect("/admin");
+}
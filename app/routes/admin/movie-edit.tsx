@@ -0,0 +1,128 @@
+import { data, Form, Link, redirect, useSearchParams } from "react-router";
+
+import type { Route } from "./+types/movie-edit";
+import { MovieForm } from "~/components/movie-form";
+import { requireAdmin } from "~/lib/admin-auth.server";
+import { findMovieById } from "~/lib/catalog";
+import { getCatalog } from "~/lib/catalog.server";
+import {
+  CatalogStoreError,
+  deleteMovie,
+  updateMovie,
+} from "~/lib/catalog-store.server";
+import {
+  movieFormValues,
+  readMovieForm,
+  validateMovieForm,
+} from "~/lib/movie-form";
+import { moviePath } from "~/lib/movies";
+
+const SAVED_MESSAGES: Record<string, string> = {
+  created: "Movie added.",
+  updated: "Changes saved.",
+};
+
+export function meta({ data }: Route.MetaArgs) {
+  const title = data ? `Edit ${data.movie.title}` : "Edit movie";
+  return [
+    { title: `${title} - SilverStream Admin` },
+    { name: "robots", content: "noindex" },
+  ];
+}
+
+export async function loader({ params, request }: Route.LoaderArgs) {
+  await requireAdmin(request);
+  const movie = findMovieById(await getCatalog(), params.id);
+  if (!movie) {
+    throw data("Movie not found", { status: 404 });
+  }
+  return { movie };
+}
+
+export async function action({ params, request }: Route.ActionArgs) {
+  const actor = await requireAdmin(request);
+  const formData = await request.formData();
+
+  try {
+    if (formData.get("intent") === "delete") {
+      const movie = findMovieById(await getCatalog(), params.id);
+      await deleteMovie(actor, params.id);
+      const deleted = new URLSearchParams({ deleted: movie?.title ?? "" });
+      return redirect(`/admin?${deleted}`);
+    }
+
+    const { record, errors, valid } = validateMovieForm(
+      readMovieForm(formData)
+    );
+    if (!valid) return data({ errors, formError: undefined }, { status: 400 });
+    const id = await updateMovie(actor, params.id, record);
+    return redirect(`/admin/movies/${id}?saved=updated`);
+  } catch (err) {
+    if (!(err instanceof CatalogStoreError)) throw err;
+    return data(
+      { errors: undefined, formError: err.message },
+      { status: err.status }
+    );
+  }
+}
+
+export default function AdminMovieEdit({
+  loaderData,
+  actionData,
+}: Route.ComponentProps) {
+  const { movie } = loaderData;
+  const [searchParams] = useSearchParams();
+  const saved = SAVED_MESSAGES[searchParams.get("saved") ?? ""];
+
+  return (
+    <>
+      <div className="flex flex-wrap items-center gap-4 mb-6">
+        <h1 className="text-3xl font-bold text-gray-900 dark:text-white">
+          Edit {movie.title}
+        </h1>
+        <Link
+          to={moviePath(movie)}
+          className="text-sm font-medium text-blue-600 hover:text-blue-700 dark:text-blue-400 dark:hover:text-blue-300"
+        >
+          View on site
+        </Link>
+        <Form
+          method="post"
+          className="ml-auto"
+          onSubmit={(event) => {
+            if (!confirm(`Delete "${movie.title}" from the catalog?`)) {
+              event.preventDefault();
+            }
+          }}
+        >
+          <button
+            type="submit"
+            name="intent"
+            value="delete"
+            className="bg-red-600 hover:bg-red-700 text-white px-4 py-2 rounded-md font-medium transition-colors"
+          >
+            Delete movie
+          </button>
+        </Form>
+      </div>
+
+      {saved && !actionData && (
+        <p
+          role="status"
+          className="mb-6 rounded-md bg-green-50 dark:bg-green-900/40 text-green-800 dark:text-green-200 px-4 py-3"
+        >
+          {saved}
+        </p>
+      )}
+
+      <MovieForm
+        key={movie.id}
+        initialValues={movieFormValues(movie)}
+        url={movie.url}
+        errors={actionData?.errors}
+        formError={actionData?.formError}
+        submitLabel="Save changes"
+      />
+    </>
+  );
+}
@@ -0,0 +1,55 @@
+import { data, redirect } from "react-router";
+
+import type { Route } from "./+types/movie-new";
+import { MovieForm } from "~/components/movie-form";
+import { requireAdmin } from "~/lib/admin-auth.server";
+import { CatalogStoreError, createMovie } from "~/lib/catalog-store.server";
+import {
+  EMPTY_MOVIE_FORM,
+  readMovieForm,
+  validateMovieForm,
+} from "~/lib/movie-form";
+
+export function meta() {
+  return [
+    { title: "Add movie - SilverStream Admin" },
+    { name: "robots", content: "noindex" },
+  ];
+}
+
+export async function loader({ request }: Route.LoaderArgs) {
+  await requireAdmin(request);
+  return null;
+}
+
+export async function action({ request }: Route.ActionArgs) {
+  const actor = await requireAdmin(request);
+  const { record, errors, valid } = validateMovieForm(
+    readMovieForm(await request.formData())
+  );
+  if (!valid) return data({ errors, formError: undefined }, { status: 400 });
+
+  try {
+    const id = await createMovie(actor, { ...record, url: "" });
+    return redirect(`/admin/movies/${id}?saved=created`);
+  } catch (err) {
+    if (!(err instanceof CatalogStoreError)) throw err;
+    return data({ errors, formError: err.message }, { status: err.status });
+  }
+}
+
+export default function AdminMovieNew({ actionData }: Route.ComponentProps) {
+  return (
+    <>
+      <h1 className="text-3xl font-bold text-gray-900 dark:text-white mb-6">
+        Add movie
+      </h1>
+      <MovieForm
+        initialValues={EMPTY_MOVIE_FORM}
+        errors={actionData?.errors}
+        formError={actionData?.formError}
+        submitLabel="Add movie"
+      />
+    </>
+  );
+}
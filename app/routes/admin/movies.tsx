@@ -0,0 +1,127 @@
+import { Form, Link, useSearchParams } from "react-router";
+
+import type { Route } from "./+types/movies";
+import { Pagination } from "~/components/pagination";
+import { requireAdmin } from "~/lib/admin-auth.server";
+import { filterMovies, paginate } from "~/lib/catalog";
+import { getCatalog } from "~/lib/catalog.server";
+import { parseMovieFilters, toMovieSummary } from "~/lib/movies";
+
+const MOVIES_PER_PAGE = 50;
+
+export function meta() {
+  return [
+    { title: "Movies - SilverStream Admin" },
+    { name: "robots", content: "noindex" },
+  ];
+}
+
+export async function loader({ request }: Route.LoaderArgs) {
+  await requireAdmin(request);
+  const catalog = await getCatalog();
+  const filters = parseMovieFilters(new URL(request.url).searchParams);
+  const { movies } = filterMovies(catalog, filters);
+  const page = paginate(movies, filters.page, MOVIES_PER_PAGE);
+  return {
+    ...page,
+    movies: page.movies.map((movie) => ({
+      ...toMovieSummary(movie),
+      genres: movie.genres,
+    })),
+    search: filters.search,
+    total: catalog.movies.length,
+  };
+}
+
+export default function AdminMovies({ loaderData }: Route.ComponentProps) {
+  const { movies, search, total, ...pagination } = loaderData;
+  const [searchParams] = useSearchParams();
+  const deleted = searchParams.get("deleted");
+
+  return (
+    <>
+      <div className="flex flex-wrap items-center gap-4 mb-6">
+        <h1 className="text-3xl font-bold text-gray-900 dark:text-white">
+          Movies
+        </h1>
+        <span className="text-gray-600 dark:text-gray-400">
+          {total} in the catalog
+        </span>
+        <Link
+          to="/admin/movies/new"
+          className="ml-auto bg-blue-600 hover:bg-blue-700 text-white px-4 py-2 rounded-md font-medium transition-colors"
+        >
+          Add movie
+        </Link>
+      </div>
+
+      {deleted && (
+        <p
+          role="status"
+          className="mb-6 rounded-md bg-green-50 dark:bg-green-900/40 text-green-800 dark:text-green-200 px-4 py-3"
+        >
+          Deleted "{deleted}".
+        </p>
+      )}
+
+      <Form method="get" className="flex gap-2 mb-6">
+        <input
+          type="search"
+          name="search"
+          defaultValue={search}
+          placeholder="Search by title, genre or description"
+          aria-label="Search movies"
+          className="flex-1 px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-md bg-white dark:bg-gray-700 text-gray-900 dark:text-white focus:outline-none focus:ring-2 focus:ring-blue-500"
+        />
+        <button
+          type="submit"
+          className="bg-gray-200 hover:bg-gray-300 dark:bg-gray-700 dark:hover:bg-gray-600 text-gray-900 dark:text-white px-4 py-2 rounded-md font-medium transition-colors"
+        >
+          Search
+        </button>
+      </Form>
+
+      {movies.length === 0 ? (
+        <p className="text-gray-600 dark:text-gray-400">No movies found.</p>
+      ) : (
+        <div className="overflow-x-auto bg-white dark:bg-gray-800 rounded-lg shadow-md">
+          <table className="w-full text-sm text-left">
+            <thead className="bg-gray-50 dark:bg-gray-700 text-gray-700 dark:text-gray-300">
+              <tr>
+                <th className="px-4 py-3 font-medium">Title</th>
+                <th className="px-4 py-3 font-medium">Year</th>
+                <th className="px-4 py-3 font-medium">Rating</th>
+                <th className="px-4 py-3 font-medium">Genres</th>
+                <th className="px-4 py-3">
+                  <span className="sr-only">Actions</span>
+                </th>
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-gray-200 dark:divide-gray-700 text-gray-900 dark:text-gray-100">
+              {movies.map((movie) => (
+                <tr key={movie.id}>
+                  <td className="px-4 py-3 font-medium">{movie.title}</td>
+                  <td className="px-4 py-3">{movie.year}</td>
+                  <td className="px-4 py-3">{movie.rating}</td>
+                  <td className="px-4 py-3 text-gray-600 dark:text-gray-400">
+                    {movie.genres.join(", ")}
+                  </td>
+                  <td className="px-4 py-3 text-right whitespace-nowrap">
+                    <Link
+                      to={`/admin/movies/${movie.id}`}
+                      className="font-medium text-blue-600 hover:text-blue-700 dark:text-blue-400 dark:hover:text-blue-300"
+                    >
+                      Edit
+                    </Link>
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+
+      <Pagination {...pagination} />
+    </>
+  );
+}
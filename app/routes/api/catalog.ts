@@ -0,0 +1,38 @@
+import type { Route } from "./+types/catalog";
+import {
+  handleApiRequest,
+  methodNotAllowed,
+  serializedApiJson,
+  serializeJson,
+  type SerializedJson,
+} from "~/lib/api.server";
+import type { Catalog } from "~/lib/catalog";
+import { getCatalog } from "~/lib/catalog.server";
+import { toMovieRecord } from "~/lib/movies";
+
+// The body and ETag of each loaded catalog, so requests don't serialize and
+// hash the whole catalog again
+const serialized = new WeakMap<Catalog, SerializedJson>();
+
+// GET /api/v1/catalog, the whole catalog in the movies.json format for the
+// offline copy. Unlike the static file it includes admin changes, and the
+// ETag lets the service worker revalidate it cheaply.
+export async function loader({ request }: Route.LoaderArgs) {
+  return handleApiRequest(request, async () => {
+    const catalog = await getCatalog();
+    let json = serialized.get(catalog);
+    if (!json) {
+      const { movies } = catalog;
+      json = serializeJson({
+        total_movies: movies.length,
+        movies: movies.map(toMovieRecord),
+      });
+      serialized.set(catalog, json);
+    }
+    return serializedApiJson(request, json, "catalog");
+  });
+}
+
+export function action() {
+  return methodNotAllowed();
+}
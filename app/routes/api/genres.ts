@@ -0,0 +1,15 @@
+import type { Route } from "./+types/genres";
+import { handleApiRequest, methodNotAllowed } from "~/lib/api.server";
+import { countByGenre } from "~/lib/catalog";
+import { getCatalog } from "~/lib/catalog.server";
+
+// GET /api/v1/genres
+export async function loader({ request }: Route.LoaderArgs) {
+  return handleApiRequest(request, async () => ({
+    data: countByGenre(await getCatalog()),
+  }));
+}
+
+export function action() {
+  return methodNotAllowed();
+}
@@ -0,0 +1,22 @@
+import type { Route } from "./+types/movie";
+import { ApiError, handleApiRequest, methodNotAllowed } from "~/lib/api.server";
+import { findMovieById } from "~/lib/catalog";
+import { getCatalog } from "~/lib/catalog.server";
+
+// GET /api/v1/movies/:id
+export async function loader({ request, params }: Route.LoaderArgs) {
+  return handleApiRequest(request, async () => {
+    const catalog = await getCatalog();
+    const movie = findMovieById(catalog, params.id);
+
+    if (!movie) {
+      throw new ApiError(404, "not_found", `Movie "${params.id}" not found`);
+    }
+
+    return { data: movie };
+  });
+}
+
+export function action() {
+  return methodNotAllowed();
+}
@@ -0,0 +1,123 @@
+import type { Route } from "./+types/movies";
+import {
+  ApiError,
+  MAX_PER_PAGE,
+  handleApiRequest,
+  methodNotAllowed,
+  readPositiveInt,
+} from "~/lib/api.server";
+import { filterMovies, paginate } from "~/lib/catalog";
+import { getCatalog } from "~/lib/catalog.server";
+import { getListingCatalog } from "~/lib/link-health.server";
+import {
+  MAX_RATING,
+  MOVIE_SORTS,
+  MOVIES_PER_PAGE,
+  isMovieSort,
+  migrateLegacyFilterParams,
+  parseMovieFilters,
+  parseRating,
+  parseYear,
+} from "~/lib/movies";
+
+// GET /api/v1/movies?id=&search=&genre=&genre_match=&year_from=&year_to=&rating_min=&rating_max=&sort=&page=&per_page=
+export async function loader({ request }: Route.LoaderArgs) {
+  return handleApiRequest(request, async () => {
+    const url = new URL(request.url);
+    const params = url.searchParams;
+    const page = readPositiveInt(params, "page", 1);
+    const perPage = readPositiveInt(
+      params,
+      "per_page",
+      MOVIES_PER_PAGE,
+      MAX_PER_PAGE
+    );
+    const sort = params.get("sort");
+    if (sort && !isMovieSort(sort)) {
+      throw new ApiError(
+        400,
+        "invalid_parameter",
+        `"sort" must be one of ${MOVIE_SORTS.filter(Boolean).join(", ")}`
+      );
+    }
+    const genreMatch = params.get("genre_match");
+    if (genreMatch && genreMatch !== "any" && genreMatch !== "all") {
+      throw new ApiError(
+        400,
+        "invalid_parameter",
+        `"genre_match" must be "any" or "all"`
+      );
+    }
+    // Repeated `id` params limit the results to those movies, unknown ids are skipped
+    const ids = new Set(params.getAll("id").map((id) => id.toLowerCase()));
+    if (ids.size > MAX_PER_PAGE) {
+      throw new ApiError(
+        400,
+        "invalid_parameter",
+        `at most ${MAX_PER_PAGE} "id" values are allowed`
+      );
+    }
+    for (const name of ["year", "year_from", "year_to"]) {
+      const value = params.get(name);
+      if (value && parseYear(value) === null) {
+        throw new ApiError(
+          400,
+          "invalid_parameter",
+          `"${name}" must be a 4-digit year`
+        );
+      }
+    }
+    for (const name of ["rating", "rating_min", "rating_max"]) {
+      const value = params.get(name);
+      if (value && parseRating(value) === null) {
+        throw new ApiError(
+          400,
+          "invalid_parameter",
+          `"${name}" must be a number between 0 and ${MAX_RATING}`
+        );
+      }
+    }
+
+    // `year` and `rating` are still accepted as exact matches
+    const filters = parseMovieFilters(
+      migrateLegacyFilterParams(params) ?? params
+    );
+    // Lookups by id (the watchlist) still find hidden movies
+    const catalog =
+      ids.size > 0
+        ? await getCatalog()
+        : await getListingCatalog(await getCatalog());
+    const { movies: filtered } = filterMovies(catalog, filters);
+    const results =
+      ids.size > 0 ? filtered.filter((movie) => ids.has(movie.id)) : filtered;
+
+    // Pages past the end return an empty list instead of being clamped
+    const result = paginate(results, page, perPage);
+    const movies = page > result.currentPage ? [] : result.movies;
+
+    const pageUrl = (n: number) => {
+      const next = new URL(url);
+      next.searchParams.set("page", String(n));
+      return `${next.pathname}${next.search}`;
+    };
+
+    return {
+      data: movies,
+      pagination: {
+        page,
+        per_page: perPage,
+        total: result.totalResults,
+        total_pages: result.totalPages,
+      },
+      links: {
+        next: page < result.totalPages ? pageUrl(page + 1) : null,
+        prev:
+          page > 1 ? pageUrl(Math.min(page - 1, result.totalPages || 1)) : null,
+      },
+    };
+  });
+}
+
+export function action() {
+  return methodNotAllowed();
+}
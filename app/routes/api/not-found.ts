@@ -0,0 +1,18 @@
+import type { Route } from "./+types/not-found";
+import { ApiError, apiErrorResponse } from "~/lib/api.server";
+
+// Unknown /api paths get the same JSON error body as the real endpoints
+function notFound(request: Request) {
+  const { pathname } = new URL(request.url);
+  return apiErrorResponse(
+    new ApiError(404, "not_found", `No API endpoint at ${pathname}`)
+  );
+}
+
+export function loader({ request }: Route.LoaderArgs) {
+  return notFound(request);
+}
+
+export function action({ request }: Route.ActionArgs) {
+  return notFound(request);
+}
@@ -0,0 +1,15 @@
+import type { Route } from "./+types/years";
+import { handleApiRequest, methodNotAllowed } from "~/lib/api.server";
+import { countByYear } from "~/lib/catalog";
+import { getCatalog } from "~/lib/catalog.server";
+
+// GET /api/v1/years
+export async function loader({ request }: Route.LoaderArgs) {
+  return handleApiRequest(request, async () => ({
+    data: countByYear(await getCatalog()),
+  }));
+}
+
+export function action() {
+  return methodNotAllowed();
+}
@@ -0,0 +1,99 @@
+import { data, redirect } from "react-router";
+
+import type { Route } from "./+types/genre";
+import { ErrorPage } from "~/components/error-page";
+import { MovieLanding } from "~/components/movie-landing";
+import {
+  findGenreBySlug,
+  moviesInGenre,
+  paginate,
+  sortMovies,
+} from "~/lib/catalog";
+import { getCatalog } from "~/lib/catalog.server";
+import { getMetaTranslator, useTranslation } from "~/lib/i18n";
+import {
+  genrePath,
+  parseMovieFilters,
+  slugify,
+  toMovieSummary,
+} from "~/lib/movies";
+import { RELATED_LIMIT } from "~/lib/recommendations";
+import { pageMeta } from "~/lib/seo";
+
+export function meta({ data, matches }: Route.MetaArgs) {
+  const { locale, t, genreName } = getMetaTranslator(matches);
+  if (!data) return [{ title: `${t("genre.notFound")} - SilverStream` }];
+  const { page } = data;
+  const genre = genreName(data.genre);
+  const pageSuffix =
+    page.currentPage > 1
+      ? ` - ${t("landing.page", { page: page.currentPage })}`
+      : "";
+  return pageMeta({
+    title: `${t("genre.heading", { genre })}${pageSuffix} - SilverStream`,
+    description: t("genre.description", { count: page.totalResults, genre }),
+    path: `${genrePath(data.genre)}${page.currentPage > 1 ? `?page=${page.currentPage}` : ""}`,
+    locale,
+  });
+}
+
+export async function loader({ params, request }: Route.LoaderArgs) {
+  const catalog = await getCatalog();
+  const genre = findGenreBySlug(catalog, slugify(params.genre));
+  if (!genre) {
+    throw data("Genre not found", { status: 404 });
+  }
+  // Links written with the genre name, e.g. /genre/Sci-Fi
+  if (params.genre !== slugify(genre)) {
+    throw redirect(genrePath(genre), 301);
+  }
+
+  const { page } = parseMovieFilters(new URL(request.url).searchParams);
+  const movies = moviesInGenre(catalog, genre);
+
+  return {
+    genre,
+    topRated: sortMovies(movies, "rating-desc")
+      .slice(0, RELATED_LIMIT)
+      .map(toMovieSummary),
+    newest: sortMovies(movies, "year-desc")
+      .slice(0, RELATED_LIMIT)
+      .map(toMovieSummary),
+    page: paginate(movies, page),
+  };
+}
+
+export default function Genre({ loaderData }: Route.ComponentProps) {
+  const { topRated, newest, page } = loaderData;
+  const { t, genreName } = useTranslation();
+  const browse = (sort: string) =>
+    `/?${new URLSearchParams({ genre: loaderData.genre, sort })}`;
+  const genre = genreName(loaderData.genre);
+
+  return (
+    <MovieLanding
+      heading={t("genre.heading", { genre })}
+      description={t("genre.subtitle", { count: page.totalResults, genre })}
+      links={[{ to: "/genres", label: t("genre.allGenres") }]}
+      rows={[
+        {
+          title: t("genre.topRated", { genre }),
+          movies: topRated,
+          moreLink: { to: browse("rating-desc"), label: t("landing.seeAll") },
+        },
+        {
+          title: t("genre.newest", { genre }),
+          movies: newest,
+          moreLink: { to: browse("year-desc"), label: t("landing.seeAll") },
+        },
+      ]}
+      listTitle={t("genre.all", { genre })}
+      page={page}
+    />
+  );
+}
+
+export function ErrorBoundary({ error }: Route.ErrorBoundaryProps) {
+  const { t } = useTranslation();
+  return <ErrorPage error={error} notFoundMessage={t("genre.notFound")} />;
+}
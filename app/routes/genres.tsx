@@ -0,0 +1,79 @@
+import { Link } from "react-router";
+
+import type { Route } from "./+types/genres";
+import { MoviePoster } from "~/components/movie-poster";
+import { SiteHeader } from "~/components/site-header";
+import { countByGenre, sortMovies } from "~/lib/catalog";
+import { getCatalog } from "~/lib/catalog.server";
+import { getMetaTranslator, useTranslation } from "~/lib/i18n";
+import { genrePath, toMovieSummary } from "~/lib/movies";
+import { pageMeta } from "~/lib/seo";
+
+export function meta({ matches }: Route.MetaArgs) {
+  const { locale, t } = getMetaTranslator(matches);
+  return pageMeta({
+    title: `${t("genres.title")} - SilverStream`,
+    description: t("genres.description"),
+    path: "/genres",
+    locale,
+  });
+}
+
+export async function loader() {
+  const catalog = await getCatalog();
+  const genres = countByGenre(catalog).map(({ name, count }) => {
+    // The best rated movie with a poster stands for the genre
+    const poster = sortMovies(
+      catalog.movies.filter(
+        (movie) => movie.genres.includes(name) && movie.image_url
+      ),
+      "rating-desc"
+    )[0];
+    return {
+      name,
+      count,
+      poster: poster ? toMovieSummary(poster) : null,
+    };
+  });
+  return { genres };
+}
+
+export default function Genres({ loaderData }: Route.ComponentProps) {
+  const { genres } = loaderData;
+  const { t, genreName } = useTranslation();
+
+  return (
+    <div className="min-h-screen bg-gray-50 dark:bg-gray-900">
+      <SiteHeader subtitle={t("genres.subtitle", { count: genres.length })} />
+
+      <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-8">
+        <h1 className="text-3xl font-bold text-gray-900 dark:text-white mb-6">
+          {t("genres.title")}
+        </h1>
+        <div className="grid grid-cols-2 sm:grid-cols-3 md:grid-cols-4 lg:grid-cols-5 gap-6">
+          {genres.map((genre) => (
+            <Link
+              key={genre.name}
+              to={genrePath(genre.name)}
+              className="group block bg-white dark:bg-gray-800 rounded-lg shadow-md overflow-hidden hover:shadow-lg transition-shadow duration-300"
+            >
+              <div className="aspect-[2/3] relative">
+                <MoviePoster
+                  movie={genre.poster ?? { title: genre.name, image_url: "" }}
+                />
+                <div className="absolute inset-x-0 bottom-0 bg-gradient-to-t from-black/80 to-transparent p-4">
+                  <h2 className="text-lg font-semibold text-white group-hover:text-blue-200">
+                    {genreName(genre.name)}
+                  </h2>
+                  <p className="text-sm text-gray-200">
+                    {t("genres.movieCount", { count: genre.count })}
+                  </p>
+                </div>
+              </div>
+            </Link>
+          ))}
+        </div>
+      </div>
+    </div>
+  );
+}
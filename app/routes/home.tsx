@@ -1,492 +1,175 @@
-import { useState, useEffect, useMemo, useRef } from "react";
-import { useSearchParams, Link, useLocation } from "react-router";
-
-interface Movie {
-  title: string;
-  year: string;
-  rating: string;
-  genres: string[];
-  url: string;
-  image_url: string;
-  video_source: string;
-  description: string;
-}
-
-interface MoviesData {
-  total_movies: number;
-  movies: Movie[];
-}
-
-export function meta() {
-  return [
-    { title: "SilverStream - Home" },
-    { name: "description", content: "Browse our collection of English movies" },
-  ];
-}
-
-const MOVIES_PER_PAGE = 20;
-
-export default function Home() {
-  const [moviesData, setMoviesData] = useState<MoviesData | null>(null);
-  // read search params first
-  const [searchParams, setSearchParams] = useSearchParams();
-
-  // initialize current page from URL param `page` so pagination is reflected in the URL
-  const [currentPage, setCurrentPage] = useState(() => {
-    const p = parseInt((typeof window !== 'undefined' ? new URLSearchParams(window.location.search).get('page') : null) || "1", 10);
-    return Number.isNaN(p) || p < 1 ? 1 : p;
+import {
+  redirect,
+  useNavigation,
+  type ShouldRevalidateFunctionArgs,
+} from "react-router";
+
+import type { Route } from "./+types/home";
+import { GridControls } from "~/components/grid-controls";
+import { MovieGrid } from "~/components/movie-card";
+import { FilterPanel, useFilterParams } from "~/components/movie-filters";
+import { Pagination } from "~/components/pagination";
+import { SiteHeader } from "~/components/site-header";
+import { VirtualMovieGrid } from "~/components/virtual-movie-grid";
+import {
+  filterMovies,
+  getFilterOptions,
+  paginate,
+  type Catalog,
+} from "~/lib/catalog";
+import { getCatalog } from "~/lib/catalog.server";
+import { getMetaTranslator, useTranslation } from "~/lib/i18n";
+import { getListingCatalog } from "~/lib/link-health.server";
+import {
+  SCROLL_CHUNK_SIZE,
+  hasActiveFilters,
+  migrateLegacyFilterParams,
+  movieFiltersToParams,
+  parseGridOptions,
+  parseMovieFilters,
+} from "~/lib/movies";
+import { withOfflineFallback } from "~/lib/offline";
+import { listingMeta } from "~/lib/seo";
+
+export function meta({ data, matches }: Route.MetaArgs) {
+  const i18n = getMetaTranslator(matches);
+  if (!data) return [{ title: `SilverStream - ${i18n.t("home.title")}` }];
+  return listingMeta({
+    path: "/",
+    filters: data.filters,
+    totalResults: data.totalResults,
+    totalPages: data.totalPages,
+    i18n,
   });
-  const [loading, setLoading] = useState(true);
-  const [error, setError] = useState<string | null>(null);
-  
-
-  // Initialize filter states from URL parameters
-  const [searchTerm, setSearchTerm] = useState(
-    searchParams.get("search") || ""
-  );
-  const [selectedGenre, setSelectedGenre] = useState(
-    searchParams.get("genre") || ""
-  );
-  const [selectedYear, setSelectedYear] = useState(
-    searchParams.get("year") || ""
-  );
-  const [selectedRating, setSelectedRating] = useState(
-    searchParams.get("rating") || ""
-  );
-
-  // Update URL when filters change
-  useEffect(() => {
-    const params = new URLSearchParams();
-    if (searchTerm) params.set("search", searchTerm);
-    if (selectedGenre) params.set("genre", selectedGenre);
-    if (selectedYear) params.set("year", selectedYear);
-    if (selectedRating) params.set("rating", selectedRating);
-    // include page param only when greater than 1 to keep URLs tidy
-    if (currentPage && currentPage > 1) params.set("page", String(currentPage));
-
-    setSearchParams(params);
-  }, [
-    searchTerm,
-    selectedGenre,
-    selectedYear,
-    selectedRating,
-    currentPage,
-    setSearchParams,
-  ]);
-
-  // Update filters from URL when it changes (e.g., browser back/forward)
-  useEffect(() => {
-    ignoreFilterChangesFromURL.current = true;
-    setSearchTerm(searchParams.get("search") || "");
-    setSelectedGenre(searchParams.get("genre") || "");
-    setSelectedYear(searchParams.get("year") || "");
-    setSelectedRating(searchParams.get("rating") || "");
-    // sync page param too
-    const p = parseInt(searchParams.get("page") || "1", 10);
-    setCurrentPage(Number.isNaN(p) || p < 1 ? 1 : p);
-  }, [searchParams]);
-
-  useEffect(() => {
-    const loadMovies = async () => {
-      try {
-        setLoading(true);
-        const response = await fetch("/data/movies.json");
-        if (!response.ok) {
-          throw new Error("Failed to load movies");
-        }
-        const data: MoviesData = await response.json();
-        setMoviesData(data);
-      } catch (err) {
-        setError(err instanceof Error ? err.message : "Unknown error");
-      } finally {
-        setLoading(false);
-      }
-    };
-
-    loadMovies();
-  }, []);
-
-  // Track initial mount to prevent reset on first load
-  const isInitialMount = useRef(true);
-  const ignoreFilterChangesFromURL = useRef(false);
-
-  // Reset to first page when filters change (after initial load)
-  useEffect(() => {
-    if (isInitialMount.current) {
-      isInitialMount.current = false;
-      return;
-    }
-
-    if (ignoreFilterChangesFromURL.current) return;
-
-    setCurrentPage(1);
-  }, [searchTerm, selectedGenre, selectedYear, selectedRating]);
-
-  // Reset URL change flag after state updates
-  useEffect(() => {
-    ignoreFilterChangesFromURL.current = false;
-  }, [searchTerm, selectedGenre, selectedYear, selectedRating, currentPage]);
-
-  // Get unique values for filters
-  const filterOptions = useMemo(() => {
-    if (!moviesData) return { genres: [], years: [], ratings: [] };
-
-    const allGenres = new Set<string>();
-    const allYears = new Set<string>();
-    const allRatings = new Set<string>();
-
-    moviesData.movies.forEach((movie) => {
-      movie.genres.forEach((genre) => allGenres.add(genre));
-      allYears.add(movie.year);
-      allRatings.add(movie.rating);
-    });
-
-    return {
-      genres: Array.from(allGenres).sort(),
-      years: Array.from(allYears).sort((a, b) => parseInt(b) - parseInt(a)),
-      ratings: Array.from(allRatings).sort(),
-    };
-  }, [moviesData]);
-
-  // Filter movies based on search and filter criteria
-  const filteredMovies = useMemo(() => {
-    if (!moviesData) return [];
-
-    return moviesData.movies.filter((movie) => {
-      const matchesSearch =
-        searchTerm === "" ||
-        movie.title.toLowerCase().includes(searchTerm.toLowerCase());
-
-      const matchesGenre =
-        selectedGenre === "" || movie.genres.includes(selectedGenre);
-
-      const matchesYear = selectedYear === "" || movie.year === selectedYear;
-
-      const matchesRating =
-        selectedRating === "" || movie.rating === selectedRating;
-
-      return matchesSearch && matchesGenre && matchesYear && matchesRating;
-    });
-  }, [moviesData, searchTerm, selectedGenre, selectedYear, selectedRating]);
+}
 
-  // Clear all filters
-  const clearFilters = () => {
-    setSearchTerm("");
-    setSelectedGenre("");
-    setSelectedYear("");
-    setSelectedRating("");
-    setCurrentPage(1);
+// Shared by the server loader and the offline fallback
+function loadMovies(catalog: Catalog, url: URL) {
+  const filters = parseMovieFilters(url.searchParams);
+  const grid = parseGridOptions(url.searchParams);
+  const { movies, highlightTerms, facets } = filterMovies(catalog, filters);
+
+  return {
+    // Continuous mode starts with the chunk around the saved position and
+    // fetches the rest from the API while scrolling
+    ...(grid.view === "scroll"
+      ? paginate(
+          movies,
+          Math.floor(grid.position / SCROLL_CHUNK_SIZE) + 1,
+          SCROLL_CHUNK_SIZE
+        )
+      : paginate(movies, filters.page, grid.perPage)),
+    highlightTerms,
+    facets,
+    filters,
+    grid,
+    filterOptions: getFilterOptions(catalog),
   };
+}
 
-  if (loading) {
-    return (
-      <div className="min-h-screen bg-gray-50 dark:bg-gray-900 flex items-center justify-center">
-        <div className="text-center">
-          <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-blue-600 mx-auto"></div>
-          <p className="mt-4 text-gray-600 dark:text-gray-400">
-            Loading movies...
-          </p>
-        </div>
-      </div>
-    );
-  }
-
-  if (error) {
-    return (
-      <div className="min-h-screen bg-gray-50 dark:bg-gray-900 flex items-center justify-center">
-        <div className="text-center">
-          <p className="text-red-600 dark:text-red-400">Error: {error}</p>
-        </div>
-      </div>
-    );
-  }
-
-  if (!moviesData) {
-    return null;
+export async function loader({ request }: Route.LoaderArgs) {
+  const url = new URL(request.url);
+  // Old shared links used exact `year` and `rating` values
+  const migrated = migrateLegacyFilterParams(url.searchParams);
+  if (migrated) {
+    throw redirect(`${url.pathname}?${migrated}`, 301);
   }
 
-  const totalPages = Math.ceil(filteredMovies.length / MOVIES_PER_PAGE);
-  const startIndex = (currentPage - 1) * MOVIES_PER_PAGE;
-  const endIndex = startIndex + MOVIES_PER_PAGE;
-  const currentMovies = filteredMovies.slice(startIndex, endIndex);
+  return loadMovies(await getListingCatalog(await getCatalog()), url);
+}
 
-  const handlePageChange = (page: number) => {
-    setCurrentPage(page);
-    // effect above will update the URL accordingly
-    window.scrollTo({ top: 0, behavior: "smooth" });
-  };
+export async function clientLoader({
+  request,
+  serverLoader,
+}: Route.ClientLoaderArgs) {
+  return withOfflineFallback(serverLoader, (catalog) =>
+    loadMovies(catalog, new URL(request.url))
+  );
+}
 
-  const hasActiveFilters =
-    searchTerm || selectedGenre || selectedYear || selectedRating;
+// Scrolling in continuous mode only rewrites `pos`, the list stays the same
+export function shouldRevalidate({
+  currentUrl,
+  nextUrl,
+  defaultShouldRevalidate,
+}: ShouldRevalidateFunctionArgs) {
+  if (currentUrl.pathname !== nextUrl.pathname) return defaultShouldRevalidate;
+  const current = new URLSearchParams(currentUrl.search);
+  const next = new URLSearchParams(nextUrl.search);
+  current.delete("pos");
+  next.delete("pos");
+  current.sort();
+  next.sort();
+  if (current.toString() === next.toString()) return false;
+  return defaultShouldRevalidate;
+}
 
-  const location = useLocation();
+export default function Home({ loaderData }: Route.ComponentProps) {
+  const {
+    movies,
+    highlightTerms,
+    facets,
+    filters,
+    grid,
+    filterOptions,
+    ...page
+  } = loaderData;
+  const navigation = useNavigation();
+  const { clearFilters } = useFilterParams();
+  const { t } = useTranslation();
+
+  const isLoading = navigation.state === "loading";
+  const listQuery = movieFiltersToParams({ ...filters, page: 1 }).toString();
+  const filtersActive = hasActiveFilters(filters);
 
   return (
     <div className="min-h-screen bg-gray-50 dark:bg-gray-900">
-      {/* Header */}
-      <div className="bg-white dark:bg-gray-800 shadow-sm border-b border-gray-200 dark:border-gray-700">
-        <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-6">
-          <div className="flex items-center gap-4">
-            <Link to="/">
-              <img
-                src="/silver1.png"
-                alt="SilverStream Logo"
-                className="h-16 w-auto"
-              />
-            </Link>
-            <div>
-              <h1 className="text-3xl font-bold text-gray-900 dark:text-white">
-                SilverStream
-              </h1>
-              <p className="mt-2 text-gray-600 dark:text-gray-400">
-                Discover amazing movies from our collection
-                {hasActiveFilters &&
-                  ` • ${filteredMovies.length} matching results`}
-              </p>
-            </div>
-          </div>
-        </div>
-      </div>
+      <SiteHeader
+        subtitle={
+          <>
+            {t("home.subtitle")}
+            {filtersActive &&
+              ` • ${t("home.matchingResults", { count: page.totalResults })}`}
+          </>
+        }
+      />
 
       {/* Search and Filter Section */}
-      <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-6">
-        <div className="bg-white dark:bg-gray-800 rounded-lg shadow-md p-6 mb-8">
-          <h2 className="text-lg font-semibold text-gray-900 dark:text-white mb-4">
-            Search & Filter
-          </h2>
-
-          {/* Search Bar */}
-          <div className="mb-4">
-            <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-2">
-              Search Movies
-            </label>
-            <input
-              type="text"
-              value={searchTerm}
-              onChange={(e) => setSearchTerm(e.target.value)}
-              placeholder="Search by movie title..."
-              className="w-full px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-transparent dark:bg-gray-700 dark:text-white"
-            />
-          </div>
-
-          {/* Filter Dropdowns */}
-          <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-4 gap-4 mb-4">
-            <div>
-              <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-2">
-                Genre
-              </label>
-              <select
-                value={selectedGenre}
-                onChange={(e) => setSelectedGenre(e.target.value)}
-                className="w-full px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-transparent dark:bg-gray-700 dark:text-white"
-              >
-                <option value="">All Genres</option>
-                {filterOptions.genres.map((genre) => (
-                  <option key={genre} value={genre}>
-                    {genre}
-                  </option>
-                ))}
-              </select>
-            </div>
-
-            <div>
-              <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-2">
-                Year
-              </label>
-              <select
-                value={selectedYear}
-                onChange={(e) => setSelectedYear(e.target.value)}
-                className="w-full px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-transparent dark:bg-gray-700 dark:text-white"
-              >
-                <option value="">All Years</option>
-                {filterOptions.years.map((year) => (
-                  <option key={year} value={year}>
-                    {year}
-                  </option>
-                ))}
-              </select>
-            </div>
-
-            <div>
-              <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-2">
-                Rating
-              </label>
-              <select
-                value={selectedRating}
-                onChange={(e) => setSelectedRating(e.target.value)}
-                className="w-full px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-transparent dark:bg-gray-700 dark:text-white"
-              >
-                <option value="">All Ratings</option>
-                {filterOptions.ratings.map((rating) => (
-                  <option key={rating} value={rating}>
-                    {rating}
-                  </option>
-                ))}
-              </select>
-            </div>
-          </div>
-
-          {/* Clear Filters Button */}
-          {hasActiveFilters && (
-            <button
-              onClick={clearFilters}
-              className="bg-red-600 hover:bg-red-700 text-white text-sm px-4 py-2 rounded-md transition-colors"
-            >
-              Clear All Filters
-            </button>
-          )}
-        </div>
-      </div>
+      <FilterPanel
+        filters={filters}
+        facets={facets}
+        filterOptions={filterOptions}
+      />
 
       {/* Movies Grid */}
-      <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-8">
-        {filteredMovies.length === 0 ? (
-          <div className="text-center py-12">
-            <p className="text-gray-600 dark:text-gray-400 text-lg">
-              No movies found matching your criteria.
-            </p>
-            {hasActiveFilters && (
-              <button
-                onClick={clearFilters}
-                className="mt-4 bg-blue-600 hover:bg-blue-700 text-white px-4 py-2 rounded-md transition-colors"
-              >
-                Clear Filters
-              </button>
-            )}
-          </div>
+      <div
+        className={`max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-8 transition-opacity ${
+          isLoading ? "opacity-50" : ""
+        }`}
+      >
+        {page.totalResults > 0 && (
+          <GridControls grid={grid} startIndex={page.startIndex} />
+        )}
+        {grid.view === "scroll" && page.totalResults > 0 ? (
+          <VirtualMovieGrid
+            // A new list (filters or sort) starts over from its saved position
+            key={listQuery}
+            movies={movies}
+            startIndex={page.startIndex}
+            position={grid.position}
+            totalResults={page.totalResults}
+            highlightTerms={highlightTerms}
+            apiSearch={listQuery}
+          />
         ) : (
           <>
-            <div className="grid grid-cols-1 sm:grid-cols-2 md:grid-cols-3 lg:grid-cols-4 xl:grid-cols-5 gap-6">
-              {currentMovies.map((movie, index) => (
-                <div
-                  key={`${movie.title}-${startIndex + index}`}
-                  className="bg-white dark:bg-gray-800 rounded-lg shadow-md overflow-hidden hover:shadow-lg transition-shadow duration-300"
-                >
-                  <Link
-                    to={`/movie/${encodeURIComponent(movie.title)}`}
-                    state={{ from: location }}
-                    className="block"
-                  >
-                    <div className="aspect-[2/3] relative">
-                      <img
-                        src={movie.image_url}
-                        alt={movie.title}
-                        className="w-full h-full object-cover"
-                        onError={(e) => {
-                          const target = e.target as HTMLImageElement;
-                          target.src = "https://picsum.photos/200/300";
-                        }}
-                      />
-                      <div className="absolute top-2 right-2 bg-black bg-opacity-75 text-white text-xs px-2 py-1 rounded">
-                        {movie.rating}
-                      </div>
-                    </div>
-                  </Link>
-                  <div className="p-4">
-                    <Link
-                      to={`/movie/${encodeURIComponent(movie.title)}`}
-                      state={{ from: location }}
-                      className="block hover:text-blue-600 dark:hover:text-blue-400 transition-colors"
-                    >
-                      <h3 className="font-semibold text-gray-900 dark:text-white text-sm mb-2 line-clamp-2 hover:text-blue-600 dark:hover:text-blue-400">
-                        {movie.title}
-                      </h3>
-                    </Link>
-                    <div className="flex items-center justify-between text-xs text-gray-600 dark:text-gray-400 mb-2">
-                      <span>{movie.year}</span>
-                      <div className="flex flex-wrap gap-1 flex-row">
-                        {movie.genres.slice(0, 2).map((genre) => (
-                          <span
-                            key={genre}
-                            className="bg-gray-100 dark:bg-gray-700 px-2 py-1 rounded text-xs"
-                          >
-                            {genre}
-                          </span>
-                        ))}
-                      </div>
-                    </div>
-                    <div className="flex gap-2">
-                      <Link
-                        to={`/movie/${encodeURIComponent(movie.title)}`}
-                        state={{ from: location }}
-                        className="flex-1 bg-blue-600 hover:bg-blue-700 text-white text-xs px-3 py-2 rounded text-center transition-colors"
-                      >
-                        Details
-                      </Link>
-                      <a
-                        href={movie.video_source}
-                        target="_blank"
-                        rel="noopener noreferrer"
-                        className="flex-1 bg-green-600 hover:bg-green-700 text-white text-xs px-3 py-2 rounded text-center transition-colors"
-                      >
-                        Watch
-                      </a>
-                    </div>
-                  </div>
-                </div>
-              ))}
-            </div>
-
-            {/* Pagination */}
-            {totalPages > 1 && (
-              <div className="mt-12 flex flex-col items-center">
-                <div className="flex items-center space-x-2">
-                  {/* Previous Button */}
-                  <button
-                    onClick={() => handlePageChange(currentPage - 1)}
-                    disabled={currentPage === 1}
-                    className="px-3 py-2 text-sm font-medium text-gray-500 bg-white border border-gray-300 rounded-md hover:bg-gray-50 disabled:opacity-50 disabled:cursor-not-allowed dark:bg-gray-800 dark:text-gray-400 dark:border-gray-600 dark:hover:bg-gray-700"
-                  >
-                    Previous
-                  </button>
-
-                  {/* Page Numbers */}
-                  <div className="flex space-x-1">
-                    {Array.from({ length: Math.min(5, totalPages) }, (_, i) => {
-                      let pageNum;
-                      if (totalPages <= 5) {
-                        pageNum = i + 1;
-                      } else if (currentPage <= 3) {
-                        pageNum = i + 1;
-                      } else if (currentPage >= totalPages - 2) {
-                        pageNum = totalPages - 4 + i;
-                      } else {
-                        pageNum = currentPage - 2 + i;
-                      }
-
-                      return (
-                        <button
-                          key={pageNum}
-                          onClick={() => handlePageChange(pageNum)}
-                          className={`px-3 py-2 text-sm font-medium rounded-md cursor-pointer ${
-                            currentPage === pageNum
-                              ? "bg-blue-600 text-white"
-                              : "text-gray-500 bg-white border border-gray-300 hover:bg-gray-50 dark:bg-gray-800 dark:text-gray-400 dark:border-gray-600 dark:hover:bg-gray-700"
-                          }`}
-                        >
-                          {pageNum}
-                        </button>
-                      );
-                    })}
-                  </div>
-
-                  {/* Next Button */}
-                  <button
-                    onClick={() => handlePageChange(currentPage + 1)}
-                    disabled={currentPage === totalPages}
-                    className="px-3 py-2 text-sm font-medium text-gray-500 bg-white border border-gray-300 rounded-md hover:bg-gray-50 disabled:opacity-50 disabled:cursor-not-allowed dark:bg-gray-800 dark:text-gray-400 dark:border-gray-600 dark:hover:bg-gray-700"
-                  >
-                    Next
-                  </button>
-                </div>
-
-                <div className="mt-4 text-sm text-gray-600 dark:text-gray-400">
-                  Page {currentPage} of {totalPages} • Showing {startIndex + 1}-
-                  {Math.min(endIndex, filteredMovies.length)} of{" "}
-                  {filteredMovies.length} movies
-                </div>
-              </div>
-            )}
+            <MovieGrid
+              movies={movies}
+              highlightTerms={highlightTerms}
+              emptyMessage={t("grid.emptyFiltered")}
+              onClear={filtersActive ? clearFilters : undefined}
+            />
+            <Pagination {...page} />
           </>
         )}
       </div>
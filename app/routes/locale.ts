@@ -0,0 +1,22 @@
+import { data, redirect } from "react-router";
+
+import type { Route } from "./+types/locale";
+import { isLocale } from "~/lib/i18n";
+import { localeCookie } from "~/lib/i18n.server";
+import { safeRedirect } from "~/lib/redirect.server";
+
+// POST /locale, from the language switcher in the site header
+export async function action({ request }: Route.ActionArgs) {
+  const formData = await request.formData();
+  const locale = formData.get("locale");
+  if (!isLocale(locale)) {
+    throw data("Unknown locale", { status: 400 });
+  }
+  return redirect(safeRedirect(formData.get("redirectTo")), {
+    headers: { "Set-Cookie": await localeCookie.serialize(locale) },
+  });
+}
+
+export function loader() {
+  return redirect("/");
+}
@@ -0,0 +1,312 @@
+import { useEffect, useState } from "react";
+import { data, Link, useSearchParams } from "react-router";
+
+import type { Route } from "./+types/movie-watch";
+import { ErrorPage } from "~/components/error-page";
+import {
+  filterMovies,
+  findGenreBySlug,
+  findMovieById,
+  findMoviesByTitleOrImdbId,
+  indexMovies,
+  moviesInGenre,
+  moviesInYear,
+  type Catalog,
+} from "~/lib/catalog";
+import { getCatalog } from "~/lib/catalog.server";
+import { getMetaTranslator, useTranslation } from "~/lib/i18n";
+import { getListingCatalog } from "~/lib/link-health.server";
+import {
+  moviePath,
+  parseMovieFilters,
+  parseWatchList,
+  parseYear,
+  watchPath,
+  type Movie,
+} from "~/lib/movies";
+import {
+  fetchWatchlistMovies,
+  getWatchlist,
+  isWatchlistView,
+  markStarted,
+  watchlistIds,
+} from "~/lib/watchlist";
+
+// Embeds that haven't loaded by then get the fallback panel
+const EMBED_TIMEOUT_MS = 15000;
+
+// No popups or top-level navigation, embedded players are full of ads
+const EMBED_SANDBOX =
+  "allow-scripts allow-same-origin allow-presentation allow-forms";
+
+export function meta({ data, matches }: Route.MetaArgs) {
+  const { t } = getMetaTranslator(matches);
+  const title = data
+    ? t("watch.title", { title: data.movie.title })
+    : t("movie.watch");
+  return [
+    { title: `${title} - SilverStream` },
+    { name: "robots", content: "noindex" },
+  ];
+}
+
+// The movies of the list the player was opened from, the way that list
+// shows them: Home without the movies it hides, genre, year and title pages
+// as is. The watchlist only exists in the browser, see clientLoader.
+async function listMovies(
+  catalog: Catalog,
+  list: { pathname: string; search: string }
+): Promise<Movie[]> {
+  const [, section, value = ""] = list.pathname.split("/");
+  switch (section) {
+    case "":
+      return filterMovies(
+        await getListingCatalog(catalog),
+        parseMovieFilters(new URLSearchParams(list.search))
+      ).movies;
+    case "genre": {
+      const genre = findGenreBySlug(catalog, value);
+      return genre ? moviesInGenre(catalog, genre) : [];
+    }
+    case "year": {
+      const year = parseYear(value);
+      return year === null ? [] : moviesInYear(catalog, year);
+    }
+    case "title":
+      try {
+        return findMoviesByTitleOrImdbId(catalog, decodeURIComponent(value));
+      } catch {
+        return [];
+      }
+    default:
+      return [];
+  }
+}
+
+// Previous and next movie in a list and the position within it
+function listNeighbours(movies: Movie[], id: string) {
+  const index = movies.findIndex((m) => m.id === id);
+  const neighbour = (i: number) =>
+    index !== -1 && movies[i]
+      ? { id: movies[i].id, title: movies[i].title }
+      : null;
+  return {
+    previous: neighbour(index - 1),
+    next: neighbour(index + 1),
+    position: index === -1 ? null : { index: index + 1, total: movies.length },
+  };
+}
+
+export async function loader({ params, request }: Route.LoaderArgs) {
+  const catalog = await getCatalog();
+  const movie = findMovieById(catalog, params.id);
+  if (!movie) {
+    throw data("Movie not found", { status: 404 });
+  }
+
+  const list = parseWatchList(new URL(request.url).searchParams);
+  return {
+    movie,
+    ...listNeighbours(await listMovies(catalog, list), movie.id),
+  };
+}
+
+export async function clientLoader({
+  request,
+  serverLoader,
+}: Route.ClientLoaderArgs) {
+  const serverData = await serverLoader();
+  const list = parseWatchList(new URL(request.url).searchParams);
+  if (list.pathname !== "/watchlist") return serverData;
+
+  // Same movies and order as the watchlist page
+  const params = new URLSearchParams(list.search);
+  const view = params.get("list");
+  const ids = watchlistIds(
+    getWatchlist(),
+    isWatchlistView(view) ? view : "watchlist"
+  );
+  const { movies } = filterMovies(
+    indexMovies(await fetchWatchlistMovies(ids)),
+    parseMovieFilters(params)
+  );
+  return { ...serverData, ...listNeighbours(movies, serverData.movie.id) };
+}
+
+clientLoader.hydrate = true as const;
+
+function Fallback({
+  source,
+  reason,
+  onRetry,
+}: {
+  source: string;
+  reason: string;
+  onRetry?: () => void;
+}) {
+  const { t } = useTranslation();
+  return (
+    <div className="absolute inset-0 flex flex-col items-center justify-center gap-4 p-6 text-center text-gray-300">
+      <p className="text-lg">{reason}</p>
+      <div className="flex gap-3">
+        {onRetry && (
+          <button
+            onClick={onRetry}
+            className="px-4 py-2 rounded-md bg-gray-700 hover:bg-gray-600 text-white transition-colors"
+          >
+            {t("watch.retry")}
+          </button>
+        )}
+        {source && (
+          <a
+            href={source}
+            target="_blank"
+            rel="noopener noreferrer"
+            className="px-4 py-2 rounded-md bg-green-600 hover:bg-green-700 text-white transition-colors"
+          >
+            {t("watch.openSource")}
+          </a>
+        )}
+      </div>
+    </div>
+  );
+}
+
+function Player({ title, source }: { title: string; source: string }) {
+  const [status, setStatus] = useState<"loading" | "loaded" | "failed">(
+    "loading"
+  );
+  // Changing the key remounts the iframe for a retry
+  const [attempt, setAttempt] = useState(0);
+  // The iframe is only rendered after hydration, a load event fired before
+  // that would be missed and the embed reported as failed
+  const [hydrated, setHydrated] = useState(false);
+  const { t } = useTranslation();
+
+  useEffect(() => setHydrated(true), []);
+
+  // Cross-origin frames don't report load errors, so a slow load counts as failed
+  useEffect(() => {
+    if (status !== "loading") return;
+    const timeout = setTimeout(() => setStatus("failed"), EMBED_TIMEOUT_MS);
+    return () => clearTimeout(timeout);
+  }, [status, attempt]);
+
+  if (!source) {
+    return <Fallback source="" reason={t("watch.noSource")} />;
+  }
+
+  return (
+    <>
+      {hydrated && status !== "failed" && (
+        <iframe
+          key={`${source}#${attempt}`}
+          src={source}
+          title={title}
+          sandbox={EMBED_SANDBOX}
+          allow="autoplay; encrypted-media; fullscreen; picture-in-picture"
+          allowFullScreen
+          referrerPolicy="no-referrer"
+          onLoad={() => setStatus("loaded")}
+          onError={() => setStatus("failed")}
+          className="absolute inset-0 w-full h-full border-0"
+        />
+      )}
+      {status === "loading" && (
+        <div className="absolute inset-0 flex items-center justify-center text-gray-400 pointer-events-none">
+          {t("watch.loading")}
+        </div>
+      )}
+      {status === "failed" && (
+        <Fallback
+          source={source}
+          reason={t("watch.failed")}
+          onRetry={() => {
+            setAttempt((n) => n + 1);
+            setStatus("loading");
+          }}
+        />
+      )}
+    </>
+  );
+}
+
+const navLinkClassName =
+  "px-3 py-2 rounded-md text-sm bg-gray-800 hover:bg-gray-700 text-gray-200 transition-colors";
+
+export default function MovieWatch({ loaderData }: Route.ComponentProps) {
+  const { movie, previous, next, position } = loaderData;
+  const [searchParams] = useSearchParams();
+  const list = parseWatchList(searchParams);
+  const { t } = useTranslation();
+
+  useEffect(() => {
+    markStarted(movie.id);
+  }, [movie.id]);
+
+  return (
+    <div className="min-h-screen flex flex-col bg-black text-white">
+      {/* Title Bar */}
+      <div className="flex flex-wrap items-center gap-4 px-4 py-3 bg-gray-900 border-b border-gray-800">
+        <Link to="/">
+          <img
+            src="/silver1.png"
+            alt={t("header.logoAlt")}
+            className="h-8 w-auto"
+          />
+        </Link>
+        <Link
+          to={moviePath(movie)}
+          className="text-sm text-blue-400 hover:text-blue-300 transition-colors"
+        >
+          {t("watch.back")}
+        </Link>
+        <h1 className="flex-1 min-w-0 truncate text-lg font-semibold">
+          {movie.title}{" "}
+          <span className="text-gray-400 font-normal">({movie.year})</span>
+        </h1>
+        <nav className="flex items-center gap-2">
+          {previous && (
+            <Link
+              to={watchPath(previous, list)}
+              title={previous.title}
+              className={navLinkClassName}
+            >
+              {t("watch.previous")}
+            </Link>
+          )}
+          {position && position.total > 1 && (
+            <span className="text-sm text-gray-400">
+              {t("watch.position", position)}
+            </span>
+          )}
+          {next && (
+            <Link
+              to={watchPath(next, list)}
+              title={next.title}
+              className={navLinkClassName}
+            >
+              {t("watch.next")}
+            </Link>
+          )}
+        </nav>
+      </div>
+
+      {/* Player */}
+      <div className="flex-1 flex items-center justify-center p-4">
+        <div className="relative w-full max-w-6xl aspect-video bg-gray-900 rounded-lg overflow-hidden">
+          <Player
+            key={movie.id}
+            title={movie.title}
+            source={movie.video_source}
+          />
+        </div>
+      </div>
+    </div>
+  );
+}
+
+export function ErrorBoundary({ error }: Route.ErrorBoundaryProps) {
+  const { t } = useTranslation();
+  return <ErrorPage error={error} notFoundMessage={t("detail.notFound")} />;
+}
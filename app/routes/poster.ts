@@ -0,0 +1,23 @@
+import type { Route } from "./+types/poster";
+import { findMovieById } from "~/lib/catalog";
+import { getCatalog } from "~/lib/catalog.server";
+import { DEFAULT_POSTER_WIDTH } from "~/lib/posters";
+import { posterResponse } from "~/lib/posters.server";
+
+// GET /posters/:id?w=&v=, `v` only tells versions of image_url apart
+export async function loader({ request, params }: Route.LoaderArgs) {
+  const movie = findMovieById(await getCatalog(), params.id);
+  if (!movie) {
+    return new Response("Movie not found", {
+      status: 404,
+      headers: { "Content-Type": "text/plain; charset=utf-8" },
+    });
+  }
+
+  const width = parseInt(new URL(request.url).searchParams.get("w") || "", 10);
+  return posterResponse(
+    request,
+    movie,
+    Number.isNaN(width) || width <= 0 ? DEFAULT_POSTER_WIDTH : width
+  );
+}
@@ -0,0 +1,7 @@
+import { getCatalog } from "~/lib/catalog.server";
+import { robotsTxt, textResponse } from "~/lib/sitemap.server";
+
+// GET /robots.txt
+export async function loader() {
+  return textResponse(robotsTxt(await getCatalog()), "text/plain");
+}
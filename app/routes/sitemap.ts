@@ -0,0 +1,7 @@
+import { getCatalog } from "~/lib/catalog.server";
+import { sitemapXml, textResponse } from "~/lib/sitemap.server";
+
+// GET /sitemap.xml
+export async function loader() {
+  return textResponse(sitemapXml(await getCatalog()), "application/xml");
+}
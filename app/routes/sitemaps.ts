@@ -0,0 +1,14 @@
+import { data } from "react-router";
+
+import type { Route } from "./+types/sitemaps";
+import { getCatalog } from "~/lib/catalog.server";
+import { namedSitemapXml, textResponse } from "~/lib/sitemap.server";
+
+// GET /sitemaps/pages-1.xml, /sitemaps/genre-<slug>.xml
+export async function loader({ params }: Route.LoaderArgs) {
+  const xml = namedSitemapXml(await getCatalog(), params.name);
+  if (xml === null) {
+    throw data("Sitemap not found", { status: 404 });
+  }
+  return textResponse(xml, "application/xml");
+}
@@ -0,0 +1,22 @@
+import { data, redirect } from "react-router";
+
+import type { Route } from "./+types/theme";
+import { safeRedirect } from "~/lib/redirect.server";
+import { isTheme } from "~/lib/theme";
+import { themeCookie } from "~/lib/theme.server";
+
+// POST /theme, from the theme switcher in the site header
+export async function action({ request }: Route.ActionArgs) {
+  const formData = await request.formData();
+  const theme = formData.get("theme");
+  if (!isTheme(theme)) {
+    throw data("Unknown theme", { status: 400 });
+  }
+  return redirect(safeRedirect(formData.get("redirectTo")), {
+    headers: { "Set-Cookie": await themeCookie.serialize(theme) },
+  });
+}
+
+export function loader() {
+  return redirect("/");
+}
@@ -0,0 +1,86 @@
+import { data, Link, redirect, useLocation } from "react-router";
+
+import type { Route } from "./+types/title-matches";
+import { ErrorPage } from "~/components/error-page";
+import { MoviePoster } from "~/components/movie-poster";
+import { SiteHeader } from "~/components/site-header";
+import { findMoviesByTitleOrImdbId } from "~/lib/catalog";
+import { getCatalog } from "~/lib/catalog.server";
+import { getMetaTranslator, useTranslation } from "~/lib/i18n";
+import { moviePath } from "~/lib/movies";
+import { pageMeta } from "~/lib/seo";
+
+export function meta({ params, matches }: Route.MetaArgs) {
+  const { locale, t } = getMetaTranslator(matches);
+  return pageMeta({
+    title: `${params.title} - SilverStream`,
+    description: t("titleMatches.description", { title: params.title }),
+    path: `/title/${encodeURIComponent(params.title)}`,
+    locale,
+  });
+}
+
+export async function loader({ params }: Route.LoaderArgs) {
+  const catalog = await getCatalog();
+  const matches = findMoviesByTitleOrImdbId(catalog, params.title);
+
+  if (matches.length === 0) {
+    throw data("Movie not found", { status: 404 });
+  }
+  if (matches.length === 1) {
+    throw redirect(moviePath(matches[0]), 301);
+  }
+
+  return { title: params.title, movies: matches };
+}
+
+export default function TitleMatches({ loaderData }: Route.ComponentProps) {
+  const { title, movies } = loaderData;
+  const location = useLocation();
+  const { t, genreName } = useTranslation();
+
+  return (
+    <div className="min-h-screen bg-gray-50 dark:bg-gray-900">
+      <SiteHeader
+        subtitle={t("titleMatches.subtitle", { count: movies.length, title })}
+      />
+
+      {/* Matching Movies */}
+      <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-8">
+        <h2 className="text-xl font-semibold text-gray-900 dark:text-white mb-6">
+          {t("titleMatches.heading")}
+        </h2>
+        <div className="grid grid-cols-1 sm:grid-cols-2 md:grid-cols-3 lg:grid-cols-4 xl:grid-cols-5 gap-6">
+          {movies.map((movie) => (
+            <Link
+              key={movie.id}
+              to={moviePath(movie)}
+              state={{ from: location }}
+              className="block bg-white dark:bg-gray-800 rounded-lg shadow-md overflow-hidden hover:shadow-lg transition-shadow duration-300"
+            >
+              <div className="aspect-[2/3] relative">
+                <MoviePoster movie={movie} />
+                <div className="absolute top-2 right-2 bg-black bg-opacity-75 text-white text-xs px-2 py-1 rounded">
+                  {movie.rating}
+                </div>
+              </div>
+              <div className="p-4">
+                <h3 className="font-semibold text-gray-900 dark:text-white text-sm mb-2 line-clamp-2">
+                  {movie.title}
+                </h3>
+                <div className="text-xs text-gray-600 dark:text-gray-400">
+                  {movie.year} • {movie.genres.map(genreName).join(", ")}
+                </div>
+              </div>
+            </Link>
+          ))}
+        </div>
+      </div>
+    </div>
+  );
+}
+
+export function ErrorBoundary({ error }: Route.ErrorBoundaryProps) {
+  const { t } = useTranslation();
+  return <ErrorPage error={error} notFoundMessage={t("detail.notFound")} />;
+}
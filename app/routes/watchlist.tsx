@@ -0,0 +1,218 @@
+import { useEffect, useRef, useState } from "react";
+import { Link, useNavigation, useRevalidator } from "react-router";
+
+import type { Route } from "./+types/watchlist";
+import { MovieGrid } from "~/components/movie-card";
+import { FilterPanel, useFilterParams } from "~/components/movie-filters";
+import { Pagination } from "~/components/pagination";
+import { SiteHeader } from "~/components/site-header";
+import {
+  filterMovies,
+  getFilterOptions,
+  indexMovies,
+  paginate,
+} from "~/lib/catalog";
+import { getMetaTranslator, useTranslation, type MessageKey } from "~/lib/i18n";
+import { hasActiveFilters, parseMovieFilters } from "~/lib/movies";
+import {
+  WATCHLIST_VIEWS,
+  WatchlistImportError,
+  exportWatchlist,
+  fetchWatchlistMovies,
+  getWatchlist,
+  importWatchlist,
+  isWatchlistView,
+  subscribeToWatchlist,
+  watchlistIds,
+  type WatchlistView,
+} from "~/lib/watchlist";
+
+export function meta({ matches }: Route.MetaArgs) {
+  const { t } = getMetaTranslator(matches);
+  return [
+    { title: `${t("header.watchlist")} - SilverStream` },
+    { name: "description", content: t("watchlist.subtitle") },
+  ];
+}
+
+export async function clientLoader({ request }: Route.ClientLoaderArgs) {
+  const url = new URL(request.url);
+  const list = url.searchParams.get("list");
+  const view: WatchlistView = isWatchlistView(list) ? list : "watchlist";
+
+  const state = getWatchlist();
+  const ids = watchlistIds(state, view);
+  const catalog = indexMovies(await fetchWatchlistMovies(ids));
+  const filters = parseMovieFilters(url.searchParams);
+  const { movies, highlightTerms, facets } = filterMovies(catalog, filters);
+
+  return {
+    ...paginate(movies, filters.page),
+    highlightTerms,
+    facets,
+    filters,
+    filterOptions: getFilterOptions(catalog),
+    view,
+    counts: {
+      watchlist: watchlistIds(state, "watchlist").length,
+      continue: watchlistIds(state, "continue").length,
+      watched: watchlistIds(state, "watched").length,
+    },
+  };
+}
+
+clientLoader.hydrate = true as const;
+
+export function HydrateFallback() {
+  const { t } = useTranslation();
+  return (
+    <div className="min-h-screen bg-gray-50 dark:bg-gray-900">
+      <SiteHeader subtitle={t("header.watchlist")} />
+      <p className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-12 text-center text-gray-600 dark:text-gray-400">
+        {t("watchlist.loading")}
+      </p>
+    </div>
+  );
+}
+
+const EMPTY_MESSAGES: Record<WatchlistView, MessageKey> = {
+  watchlist: "watchlist.emptyWatchlist",
+  continue: "watchlist.emptyContinue",
+  watched: "watchlist.emptyWatched",
+};
+
+function WatchlistTransfer() {
+  const fileInput = useRef<HTMLInputElement>(null);
+  const [message, setMessage] = useState<string | null>(null);
+  const { t } = useTranslation();
+
+  const handleExport = () => {
+    const blob = new Blob([exportWatchlist()], { type: "application/json" });
+    const link = document.createElement("a");
+    link.href = URL.createObjectURL(blob);
+    link.download = `silverstream-watchlist-${new Date().toISOString().slice(0, 10)}.json`;
+    link.click();
+    URL.revokeObjectURL(link.href);
+  };
+
+  const handleImport = async (file: File) => {
+    try {
+      const count = importWatchlist(await file.text());
+      setMessage(t("watchlist.imported", { count }));
+    } catch (err) {
+      if (!(err instanceof WatchlistImportError)) throw err;
+      setMessage(t(err.messageKey, err.params));
+    }
+  };
+
+  return (
+    <div className="flex items-center gap-2 text-sm">
+      {message && (
+        <span className="text-gray-600 dark:text-gray-400">{message}</span>
+      )}
+      <button
+        onClick={handleExport}
+        className="px-3 py-2 rounded-md border border-gray-300 dark:border-gray-600 text-gray-700 dark:text-gray-300 hover:bg-gray-100 dark:hover:bg-gray-700 transition-colors"
+      >
+        {t("watchlist.export")}
+      </button>
+      <button
+        onClick={() => fileInput.current?.click()}
+        className="px-3 py-2 rounded-md border border-gray-300 dark:border-gray-600 text-gray-700 dark:text-gray-300 hover:bg-gray-100 dark:hover:bg-gray-700 transition-colors"
+      >
+        {t("watchlist.import")}
+      </button>
+      <input
+        ref={fileInput}
+        type="file"
+        accept="application/json,.json"
+        className="hidden"
+        onChange={(e) => {
+          const file = e.target.files?.[0];
+          e.target.value = "";
+          if (file) handleImport(file);
+        }}
+      />
+    </div>
+  );
+}
+
+export default function Watchlist({ loaderData }: Route.ComponentProps) {
+  const {
+    movies,
+    highlightTerms,
+    facets,
+    filters,
+    filterOptions,
+    view,
+    counts,
+    ...page
+  } = loaderData;
+  const navigation = useNavigation();
+  const { revalidate } = useRevalidator();
+  const { clearFilters } = useFilterParams();
+  const { t } = useTranslation();
+
+  // Reload when the list changes, here or in another tab
+  // `revalidate` is stable, the revalidator object changes with its state
+  useEffect(() => subscribeToWatchlist(() => revalidate()), [revalidate]);
+
+  const isLoading = navigation.state === "loading";
+  const filtersActive = hasActiveFilters(filters);
+
+  return (
+    <div className="min-h-screen bg-gray-50 dark:bg-gray-900">
+      <SiteHeader
+        subtitle={
+          <>
+            {t("watchlist.subtitle")}
+            {filtersActive &&
+              ` • ${t("home.matchingResults", { count: page.totalResults })}`}
+          </>
+        }
+      />
+
+      <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 pt-6 flex flex-wrap items-center justify-between gap-4">
+        <nav className="flex gap-2">
+          {Object.entries(WATCHLIST_VIEWS).map(([key, label]) => (
+            <Link
+              key={key}
+              to={key === "watchlist" ? "/watchlist" : `/watchlist?list=${key}`}
+              className={`px-4 py-2 rounded-full text-sm transition-colors ${
+                view === key
+                  ? "bg-blue-600 text-white"
+                  : "bg-white text-gray-700 border border-gray-300 hover:bg-gray-100 dark:bg-gray-800 dark:text-gray-300 dark:border-gray-600 dark:hover:bg-gray-700"
+              }`}
+            >
+              {t(label)} ({counts[key as WatchlistView]})
+            </Link>
+          ))}
+        </nav>
+        <WatchlistTransfer />
+      </div>
+
+      <FilterPanel
+        filters={filters}
+        facets={facets}
+        filterOptions={filterOptions}
+        defaultSortLabel={t("watchlist.recentlyAdded")}
+      />
+
+      <div
+        className={`max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-8 transition-opacity ${
+          isLoading ? "opacity-50" : ""
+        }`}
+      >
+        <MovieGrid
+          movies={movies}
+          highlightTerms={highlightTerms}
+          emptyMessage={
+            filtersActive ? t("grid.emptyFiltered") : t(EMPTY_MESSAGES[view])
+          }
+          onClear={filtersActive ? clearFilters : undefined}
+        />
+        <Pagination {...page} />
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,92 @@
+import { data } from "react-router";
+
+import type { Route } from "./+types/year";
+import { ErrorPage } from "~/components/error-page";
+import { MovieLanding } from "~/components/movie-landing";
+import { moviesInYear, paginate, sortMovies } from "~/lib/catalog";
+import { getCatalog } from "~/lib/catalog.server";
+import { getMetaTranslator, useTranslation } from "~/lib/i18n";
+import {
+  parseMovieFilters,
+  parseYear,
+  toMovieSummary,
+  yearPath,
+} from "~/lib/movies";
+import { RELATED_LIMIT } from "~/lib/recommendations";
+import { pageMeta } from "~/lib/seo";
+
+export function meta({ data, matches }: Route.MetaArgs) {
+  const { locale, t } = getMetaTranslator(matches);
+  if (!data) return [{ title: `${t("year.notFound")} - SilverStream` }];
+  const { year, page } = data;
+  const pageSuffix =
+    page.currentPage > 1
+      ? ` - ${t("landing.page", { page: page.currentPage })}`
+      : "";
+  return pageMeta({
+    title: `${t("year.heading", { year })}${pageSuffix} - SilverStream`,
+    description: t("year.description", { count: page.totalResults, year }),
+    path: `${yearPath(year)}${page.currentPage > 1 ? `?page=${page.currentPage}` : ""}`,
+    locale,
+  });
+}
+
+export async function loader({ params, request }: Route.LoaderArgs) {
+  const year = parseYear(params.year);
+  const catalog = await getCatalog();
+  if (year === null || !catalog.years.includes(String(year))) {
+    throw data("Year not found", { status: 404 });
+  }
+
+  const { page } = parseMovieFilters(new URL(request.url).searchParams);
+  const movies = moviesInYear(catalog, year);
+
+  // catalog.years is newest first
+  const position = catalog.years.indexOf(String(year));
+  return {
+    year: String(year),
+    newerYear: catalog.years[position - 1] ?? null,
+    olderYear: catalog.years[position + 1] ?? null,
+    topRated: sortMovies(movies, "rating-desc")
+      .slice(0, RELATED_LIMIT)
+      .map(toMovieSummary),
+    page: paginate(movies, page),
+  };
+}
+
+export default function Year({ loaderData }: Route.ComponentProps) {
+  const { year, newerYear, olderYear, topRated, page } = loaderData;
+  const { t } = useTranslation();
+
+  return (
+    <MovieLanding
+      heading={t("year.heading", { year })}
+      description={t("year.subtitle", { count: page.totalResults, year })}
+      links={[
+        ...(olderYear
+          ? [{ to: yearPath(olderYear), label: `← ${olderYear}` }]
+          : []),
+        ...(newerYear
+          ? [{ to: yearPath(newerYear), label: `${newerYear} →` }]
+          : []),
+      ]}
+      rows={[
+        {
+          title: t("year.topRated", { year }),
+          movies: topRated,
+          moreLink: {
+            to: `/?year_from=${year}&year_to=${year}&sort=rating-desc`,
+            label: t("landing.seeAll"),
+          },
+        },
+      ]}
+      listTitle={t("year.all", { year })}
+      page={page}
+    />
+  );
+}
+
+export function ErrorBoundary({ error }: Route.ErrorBoundaryProps) {
+  const { t } = useTranslation();
+  return <ErrorPage error={error} notFoundMessage={t("year.notFound")} />;
+}
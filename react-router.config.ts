@@ -4,4 +4,7 @@ export default {
   // Config options...
   // Server-side render by default, to enable SPA mode set this to `false`
   ssr: true,
+  // Ship the whole route manifest with the page so client navigations don't
+  // need /__manifest requests, which fail offline
+  routeDiscovery: { mode: "initial" },
 } satisfies Config;
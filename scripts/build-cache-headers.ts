@@ -0,0 +1,45 @@
+/**
+ * Write the caching rules for the client build
+ *
+ *   tsx scripts/build-cache-headers.ts [build/client]
+ *
+ * Runs after `react-router build` and writes `build/client/_headers` for
+ * Netlify from the policy in app/lib/cache-policy.ts. There is one rule per
+ * top-level file or directory so no two rules overlap. Pages aren't listed,
+ * their headers come from the route `headers` exports.
+ */
+
+import { readdir, writeFile } from "node:fs/promises";
+import path from "node:path";
+import { CACHE_CONTROL, staticCachePolicy } from "../app/lib/cache-policy";
+
+async function main() {
+  const clientDir = process.argv[2] ?? "build/client";
+  const rules: { pattern: string; cacheControl: string }[] = [];
+
+  const entries = await readdir(clientDir, { withFileTypes: true });
+  for (const entry of entries.sort((a, b) => a.name.localeCompare(b.name))) {
+    if (entry.name.startsWith(".") || entry.name === "_headers") continue;
+    const pattern = entry.isDirectory() ? `/${entry.name}/*` : `/${entry.name}`;
+    // Any path inside a directory gets the directory's policy
+    const policy = staticCachePolicy(pattern.replace(/\*$/, "file"));
+    rules.push({ pattern, cacheControl: CACHE_CONTROL[policy] });
+  }
+
+  await writeFile(
+    path.join(clientDir, "_headers"),
+    "# Generated by scripts/build-cache-headers.ts, edit app/lib/cache-policy.ts instead\n\n" +
+      rules
+        .map(
+          ({ pattern, cacheControl }) =>
+            `${pattern}\n  Cache-Control: ${cacheControl}\n`
+        )
+        .join("\n")
+  );
+  console.log(`${clientDir}/_headers: ${rules.length} cache rules`);
+}
+
+main().catch((err) => {
+  console.error(err);
+  process.exitCode = 1;
+});
@@ -0,0 +1,64 @@
+/**
+ * Write build/client/offline.html from scripts/offline.html
+ *
+ *   tsx scripts/build-offline-page.ts [build/client]
+ *
+ * Runs after `react-router build` and before the service worker is built, so
+ * the page is precached. The service worker shows it for pages that weren't
+ * saved for offline use. It carries its text in every language from
+ * app/locales and shows the saved or the browser's language.
+ */
+
+import { readFile, writeFile } from "node:fs/promises";
+import path from "node:path";
+import {
+  DEFAULT_LOCALE,
+  getTranslator,
+  LOCALE_CODES,
+  type Locale,
+} from "../app/lib/i18n";
+
+function escapeHtml(value: string) {
+  return value
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;");
+}
+
+function pageTitle(locale: Locale) {
+  return `${getTranslator(locale).t("offline.title")} - SilverStream`;
+}
+
+async function main() {
+  const clientDir = process.argv[2] ?? "build/client";
+  // The default language shows until the script has picked one
+  const sections = LOCALE_CODES.map((locale) => {
+    const { t } = getTranslator(locale);
+    return [
+      `      <section lang="${locale}" data-title="${escapeHtml(pageTitle(locale))}"${locale === DEFAULT_LOCALE ? "" : " hidden"}>`,
+      `        <h1>${escapeHtml(t("offline.title"))}</h1>`,
+      `        <p>${escapeHtml(t("offline.unsaved"))}</p>`,
+      `        <a href="/">${escapeHtml(t("offline.browse"))}</a>`,
+      `      </section>`,
+    ].join("\n");
+  });
+
+  const template = await readFile(
+    new URL("./offline.html", import.meta.url),
+    "utf8"
+  );
+  const html = template
+    .replace("{{lang}}", DEFAULT_LOCALE)
+    .replace("{{title}}", escapeHtml(pageTitle(DEFAULT_LOCALE)))
+    .replace(/^ *{{sections}}$/m, () => sections.join("\n"));
+  await writeFile(path.join(clientDir, "offline.html"), html);
+  console.log(
+    `${clientDir}/offline.html: ${LOCALE_CODES.length} languages (${LOCALE_CODES.join(", ")})`
+  );
+}
+
+main().catch((err) => {
+  console.error(err);
+  process.exitCode = 1;
+});
@@ -0,0 +1,58 @@
+/**
+ * Write build/client/sw.js from scripts/service-worker.js
+ *
+ *   tsx scripts/build-service-worker.ts [build/client]
+ *
+ * Runs after `react-router build`. Every file in the client build is
+ * precached, and the version is a hash of their contents so any change to
+ * the assets or the catalog installs a new service worker.
+ */
+
+import { createHash } from "node:crypto";
+import { readdir, readFile, writeFile } from "node:fs/promises";
+import path from "node:path";
+
+// Served by the worker's own rules or not meant for browsers
+const EXCLUDED = new Set(["sw.js", "_headers", "data/movies.json"]);
+
+async function listFiles(dir: string, base = dir): Promise<string[]> {
+  const files: string[] = [];
+  for (const entry of await readdir(dir, { withFileTypes: true })) {
+    const file = path.join(dir, entry.name);
+    if (entry.isDirectory()) files.push(...(await listFiles(file, base)));
+    else if (!entry.name.startsWith(".")) files.push(path.relative(base, file));
+  }
+  return files.sort();
+}
+
+async function main() {
+  const clientDir = process.argv[2] ?? "build/client";
+  const hash = createHash("sha256");
+  const precache: string[] = [];
+
+  for (const file of await listFiles(clientDir)) {
+    const urlPath = file.split(path.sep).join("/");
+    hash.update(urlPath).update(await readFile(path.join(clientDir, file)));
+    if (!EXCLUDED.has(urlPath)) precache.push(`/${urlPath}`);
+  }
+
+  const version = hash.digest("hex").slice(0, 12);
+  const template = await readFile(
+    new URL("./service-worker.js", import.meta.url),
+    "utf8"
+  );
+  await writeFile(
+    path.join(clientDir, "sw.js"),
+    `const VERSION = ${JSON.stringify(version)};\n` +
+      `const PRECACHE_URLS = ${JSON.stringify(precache)};\n\n` +
+      template
+  );
+  console.log(
+    `${clientDir}/sw.js: version ${version}, ${precache.length} files precached`
+  );
+}
+
+main().catch((err) => {
+  console.error(err);
+  process.exitCode = 1;
+});
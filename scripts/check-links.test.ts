@@ -0,0 +1,101 @@
+import { execFile } from "node:child_process";
+import { mkdtemp, readFile, rm, writeFile } from "node:fs/promises";
+import { createServer, type Server } from "node:http";
+import type { AddressInfo } from "node:net";
+import { tmpdir } from "node:os";
+import path from "node:path";
+import { promisify } from "node:util";
+import { afterAll, beforeAll, describe, expect, it } from "vitest";
+import type { LinkHealthReport } from "../app/lib/link-health";
+
+const run = promisify(execFile);
+
+let server: Server;
+let origin: string;
+let dir: string;
+
+beforeAll(async () => {
+  server = createServer((req, res) => {
+    if (req.url === "/poster.jpg") {
+      res.writeHead(200, { "Content-Type": "image/jpeg" }).end();
+    } else if (req.url === "/embed/tt0000001/") {
+      res.writeHead(200, { "Content-Type": "text/html" }).end();
+    } else {
+      res.writeHead(404).end();
+    }
+  });
+  await new Promise<void>((resolve) => server.listen(0, "127.0.0.1", resolve));
+  origin = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+  dir = await mkdtemp(path.join(tmpdir(), "check-links-"));
+});
+
+afterAll(async () => {
+  server.closeAllConnections();
+  server.close();
+  await rm(dir, { recursive: true, force: true });
+});
+
+function movie(title: string, image: string, video: string) {
+  return {
+    title,
+    year: "2001",
+    rating: "7.0",
+    genres: ["Drama"],
+    url: "",
+    image_url: `${origin}${image}`,
+    video_source: `${origin}${video}`,
+    description: "",
+  };
+}
+
+describe("check-links", () => {
+  it("saves the result per movie and fails on broken links", async () => {
+    const catalog = path.join(dir, "catalog.json");
+    const report = path.join(dir, "link-health.json");
+    await writeFile(
+      catalog,
+      JSON.stringify({
+        total_movies: 2,
+        movies: [
+          movie("Working", "/poster.jpg", "/embed/tt0000001/"),
+          movie("Gone", "/gone.jpg", "/embed/tt0000002/"),
+        ],
+      })
+    );
+
+    const result = await run(
+      process.execPath,
+      [
+        "--import",
+        "tsx",
+        "scripts/check-links.ts",
+        "--retries",
+        "0",
+        "--fail-on-broken",
+      ],
+      {
+        env: {
+          ...process.env,
+          CATALOG_STORE_PATH: catalog,
+          LINK_HEALTH_PATH: report,
+          POSTER_ORIGIN: "",
+        },
+      }
+    ).then(
+      () => ({ code: 0 }),
+      (err: { code: number; stdout: string }) => err
+    );
+    expect(result.code).toBe(1);
+
+    const saved: LinkHealthReport = JSON.parse(await readFile(report, "utf8"));
+    expect(saved.checked_at).not.toBeNull();
+    expect(saved.movies["working-2001"].links).toMatchObject({
+      image: { status: "ok" },
+      video: { status: "ok" },
+    });
+    expect(saved.movies["gone-2001"].links).toMatchObject({
+      image: { status: "broken", http_status: 404 },
+      video: { status: "broken", http_status: 404 },
+    });
+  }, 30_000);
+});
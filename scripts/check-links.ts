@@ -0,0 +1,180 @@
+/**
+ * Check every movie's image_url and video_source
+ *
+ *   tsx scripts/check-links.ts [--only image|video] [--movie id]...
+ *     [--concurrency 8] [--per-host 2] [--timeout 10000] [--retries 2]
+ *     [--fail-on-broken]
+ *
+ * Reads the catalog the server would load, checks its links (see
+ * app/lib/link-checker.server.ts) and saves the result per movie to
+ * LINK_HEALTH_PATH (data/link-health.json), where the admin area and the
+ * home grid pick it up. Checks of links that weren't rechecked are kept,
+ * movies no longer in the catalog are dropped. Posters are checked at
+ * POSTER_ORIGIN when it is set.
+ */
+
+import { parseArgs } from "node:util";
+import { createCatalog } from "../app/lib/catalog";
+import { readMoviesData } from "../app/lib/catalog.server";
+import { writeFileAtomic } from "../app/lib/files.server";
+import {
+  checkLinks,
+  DEFAULT_LINK_CHECK_OPTIONS,
+  type LinkCheckOptions,
+  type LinkJob,
+} from "../app/lib/link-checker.server";
+import {
+  countLinkStatuses,
+  LINK_KINDS,
+  type LinkCheck,
+  type LinkKind,
+} from "../app/lib/link-health";
+import {
+  LINK_HEALTH_PATH,
+  movieLinkJobs,
+  readLinkHealth,
+  setMovieLinkHealth,
+} from "../app/lib/link-health.server";
+
+const MAX_LISTED_LINKS = 20;
+const PROGRESS_STEPS = 10;
+
+function isLinkKind(value: string): value is LinkKind {
+  return (LINK_KINDS as readonly string[]).includes(value);
+}
+
+function intOption(
+  name: string,
+  value: string | undefined,
+  fallback: number,
+  min: number
+) {
+  if (value === undefined) return fallback;
+  const number = Number(value);
+  if (!Number.isInteger(number) || number < min) {
+    throw new RangeError(
+      `--${name} must be a whole number of at least ${min}, got "${value}"`
+    );
+  }
+  return number;
+}
+
+async function main() {
+  const { values } = parseArgs({
+    options: {
+      only: { type: "string" },
+      movie: { type: "string", multiple: true },
+      concurrency: { type: "string" },
+      "per-host": { type: "string" },
+      timeout: { type: "string" },
+      retries: { type: "string" },
+      "fail-on-broken": { type: "boolean", default: false },
+    },
+  });
+  if (values.only !== undefined && !isLinkKind(values.only)) {
+    throw new RangeError(`--only must be "image" or "video"`);
+  }
+  const kinds = values.only ? [values.only] : LINK_KINDS;
+  const defaults = DEFAULT_LINK_CHECK_OPTIONS;
+  const options: LinkCheckOptions = {
+    concurrency: intOption(
+      "concurrency",
+      values.concurrency,
+      defaults.concurrency,
+      1
+    ),
+    perHost: intOption("per-host", values["per-host"], defaults.perHost, 1),
+    timeoutMs: intOption("timeout", values.timeout, defaults.timeoutMs, 1),
+    retries: intOption("retries", values.retries, defaults.retries, 0),
+  };
+
+  const catalog = createCatalog(await readMoviesData());
+  const selected = values.movie
+    ? values.movie.map((id) => {
+        const movie = catalog.byId.get(id.toLowerCase());
+        if (!movie) throw new RangeError(`No movie with id "${id}"`);
+        return movie;
+      })
+    : catalog.movies;
+
+  const jobs: (LinkJob & { movieIndex: number })[] = selected.flatMap(
+    (movie, movieIndex) =>
+      movieLinkJobs(movie, kinds).map((job) => ({ ...job, movieIndex }))
+  );
+  console.log(
+    `Checking ${jobs.length} links of ${selected.length} movies ` +
+      `(${options.concurrency} at a time, ${options.perHost} per host)`
+  );
+
+  let done = 0;
+  const step = Math.max(1, Math.ceil(jobs.length / PROGRESS_STEPS));
+  const checks = await checkLinks(jobs, options, () => {
+    done++;
+    if (done % step === 0 || done === jobs.length) {
+      console.log(`  ${done}/${jobs.length}`);
+    }
+  });
+
+  const byMovie = new Map<number, { kind: LinkKind; check: LinkCheck }[]>();
+  jobs.forEach((job, i) => {
+    const entries = byMovie.get(job.movieIndex) ?? [];
+    entries.push({ kind: job.kind, check: checks[i] });
+    byMovie.set(job.movieIndex, entries);
+  });
+
+  const report = structuredClone(await readLinkHealth());
+  for (const id of Object.keys(report.movies)) {
+    if (!catalog.byId.has(id)) delete report.movies[id];
+  }
+  selected.forEach((movie, index) => {
+    // A full check also forgets links the movie no longer has
+    if (!values.only) delete report.movies[movie.id];
+    setMovieLinkHealth(report, movie, byMovie.get(index) ?? []);
+  });
+  report.checked_at = new Date().toISOString();
+  await writeFileAtomic(
+    LINK_HEALTH_PATH,
+    `${JSON.stringify(report, null, 2)}\n`
+  );
+
+  const counts = countLinkStatuses(report);
+  console.log();
+  for (const kind of LINK_KINDS) {
+    const { ok, broken, unknown } = counts[kind];
+    console.log(`${kind}: ${ok} ok, ${broken} broken, ${unknown} unknown`);
+  }
+
+  const failed = jobs
+    .map((job, i) => ({ job, check: checks[i] }))
+    .filter(({ check }) => check.status !== "ok");
+  if (failed.length > 0) {
+    console.log(`\nFailed in this run (${failed.length}):`);
+    for (const { job, check } of failed.slice(0, MAX_LISTED_LINKS)) {
+      const movie = selected[job.movieIndex];
+      console.log(
+        `  ${check.status.padEnd(7)} ${job.kind} ${movie.id}: ` +
+          `${check.reason ?? ""} (${check.url})`
+      );
+    }
+    if (failed.length > MAX_LISTED_LINKS) {
+      console.log(`  ... and ${failed.length - MAX_LISTED_LINKS} more`);
+    }
+  }
+  console.log(`\nSaved to ${LINK_HEALTH_PATH}`);
+
+  if (
+    values["fail-on-broken"] &&
+    failed.some(({ check }) => check.status === "broken")
+  ) {
+    process.exitCode = 1;
+  }
+}
+
+main().catch((err) => {
+  if (err instanceof RangeError) {
+    console.error(err.message);
+  } else {
+    console.error(err);
+  }
+  process.exitCode = 1;
+});
@@ -0,0 +1,222 @@
+/**
+ * Merge a scrape batch into the catalog
+ *
+ *   tsx scripts/ingest-catalog.ts <batch.json|batch.csv>... [--catalog file]
+ *     [--format json|csv] [--prune] [--dry-run]
+ *
+ * A JSON batch is an array of movie records or a `{ "movies": [...] }` file,
+ * a CSV batch has a header row naming the record fields, with genres
+ * separated by `|`, `;` or `,`. Batch records go through the same checks as
+ * the catalog, then existing movies are matched by IMDb id and title, or by
+ * title and year, and updated (their listing `url` and id are kept), new
+ * ones are added and `total_movies` is recomputed.
+ * `--prune` removes catalog movies missing from the batch, `--dry-run` only
+ * prints the summary. Works on local files only.
+ *
+ * The catalog is the file the server reads: the admin store
+ * (CATALOG_STORE_PATH, data/catalog.json) once it exists, else
+ * public/data/movies.json. A running server picks the change up on restart.
+ */
+
+import { access, readFile } from "node:fs/promises";
+import path from "node:path";
+import { parseArgs } from "node:util";
+import {
+  mergeCatalog,
+  parseCsv,
+  type MergeDiff,
+} from "../app/lib/catalog-merge";
+import {
+  CatalogStructureError,
+  normalizeMoviesData,
+  summarizeReport,
+  type CatalogIssue,
+} from "../app/lib/catalog-schema";
+import { CATALOG_STORE_PATH } from "../app/lib/catalog.server";
+import { writeFileAtomic } from "../app/lib/files.server";
+import type { MovieRecord } from "../app/lib/movies";
+
+const MAX_LISTED_CHANGES = 20;
+const BUILD_CATALOG_PATH = "public/data/movies.json";
+
+// Same order as the server, see CATALOG_PATHS in catalog.server.ts
+async function defaultCatalogFile() {
+  try {
+    await access(CATALOG_STORE_PATH);
+    return CATALOG_STORE_PATH;
+  } catch {
+    return BUILD_CATALOG_PATH;
+  }
+}
+
+// Input the catalog schema couldn't read
+class BatchFormatError extends Error {
+  constructor(file: string, message: string) {
+    super(`${file}: ${message}`);
+    this.name = "BatchFormatError";
+  }
+}
+
+function csvRecords(file: string, source: string) {
+  const [header, ...rows] = parseCsv(source.replace(/^\uFEFF/, ""));
+  if (!header) throw new BatchFormatError(file, "empty CSV file");
+  const columns = header.map((name) => name.trim().toLowerCase());
+  if (!columns.includes("title") || !columns.includes("year")) {
+    throw new BatchFormatError(file, `CSV needs "title" and "year" columns`);
+  }
+  return rows.map((cells) => {
+    const record: Record<string, unknown> = {};
+    columns.forEach((column, i) => {
+      const value = cells[i] ?? "";
+      record[column] =
+        column === "genres" ? value.split(/[|;,]/).filter(Boolean) : value;
+    });
+    return record;
+  });
+}
+
+function jsonRecords(file: string, source: string): unknown[] {
+  const parsed: unknown = JSON.parse(source);
+  if (Array.isArray(parsed)) return parsed;
+  if (
+    typeof parsed === "object" &&
+    parsed !== null &&
+    Array.isArray((parsed as { movies?: unknown }).movies)
+  ) {
+    return (parsed as { movies: unknown[] }).movies;
+  }
+  throw new BatchFormatError(
+    file,
+    `expected an array of movies or a { "movies": [...] } object`
+  );
+}
+
+async function readBatch(file: string, format?: string) {
+  const source = await readFile(file, "utf8");
+  const type =
+    format ?? (path.extname(file).toLowerCase() === ".csv" ? "csv" : "json");
+  return type === "csv" ? csvRecords(file, source) : jsonRecords(file, source);
+}
+
+function printIssues(label: string, issues: CatalogIssue[]) {
+  if (issues.length === 0) return;
+  console.log(`\n${label} (${issues.length}):`);
+  for (const issue of issues.slice(0, MAX_LISTED_CHANGES)) {
+    const field = issue.field ? ` [${issue.field}]` : "";
+    console.log(
+      `  #${issue.index} ${issue.title ?? "?"}${field}: ${issue.message}`
+    );
+  }
+  if (issues.length > MAX_LISTED_CHANGES) {
+    console.log(`  ... and ${issues.length - MAX_LISTED_CHANGES} more`);
+  }
+}
+
+function printList<T>(label: string, items: T[], line: (item: T) => string) {
+  if (items.length === 0) return;
+  console.log(`\n${label} (${items.length}):`);
+  for (const item of items.slice(0, MAX_LISTED_CHANGES)) {
+    console.log(`  ${line(item)}`);
+  }
+  if (items.length > MAX_LISTED_CHANGES) {
+    console.log(`  ... and ${items.length - MAX_LISTED_CHANGES} more`);
+  }
+}
+
+const describe = (record: MovieRecord) => `${record.title} (${record.year})`;
+
+// Long descriptions would drown the summary
+function shorten(value: string, length = 60) {
+  return value.length > length ? `${value.slice(0, length - 1)}…` : value;
+}
+
+function printDiff(diff: MergeDiff) {
+  console.log(
+    `\n${diff.added.length} added, ${diff.updated.length} updated, ` +
+      `${diff.removed.length} removed, ${diff.unchanged} unchanged`
+  );
+  printList("Added", diff.added, describe);
+  printList("Updated", diff.updated, ({ record, changes }) =>
+    [
+      describe(record),
+      ...changes.map(
+        ({ field, from, to }) =>
+          `    ${field}: ${JSON.stringify(shorten(from))} -> ${JSON.stringify(shorten(to))}`
+      ),
+    ].join("\n")
+  );
+  printList("Removed", diff.removed, describe);
+}
+
+async function main() {
+  const { values, positionals } = parseArgs({
+    allowPositionals: true,
+    options: {
+      catalog: { type: "string" },
+      format: { type: "string" },
+      prune: { type: "boolean", default: false },
+      "dry-run": { type: "boolean", default: false },
+    },
+  });
+  const { format, prune } = values;
+  if (
+    positionals.length === 0 ||
+    (format !== undefined && format !== "json" && format !== "csv")
+  ) {
+    console.error(
+      "Usage: tsx scripts/ingest-catalog.ts <batch.json|batch.csv>... " +
+        "[--catalog file] [--format json|csv] [--prune] [--dry-run]\n" +
+        `The catalog defaults to ${CATALOG_STORE_PATH} when it exists ` +
+        `(the admin store, which the server prefers), else ${BUILD_CATALOG_PATH}`
+    );
+    process.exitCode = 1;
+    return;
+  }
+  const catalogFile = values.catalog ?? (await defaultCatalogFile());
+  console.log(`Catalog: ${catalogFile}`);
+
+  const rawBatch: unknown[] = [];
+  for (const file of positionals) {
+    rawBatch.push(...(await readBatch(file, format)));
+  }
+  const batch = normalizeMoviesData({ movies: rawBatch });
+  console.log(`Batch: ${summarizeReport(batch.report)}`);
+  printIssues("Rejected", batch.report.rejected);
+  printIssues("Duplicates in batch", batch.report.duplicates);
+
+  const source = await readFile(catalogFile, "utf8");
+  const catalog = normalizeMoviesData(JSON.parse(source));
+  const { data: merged, diff } = mergeCatalog(catalog.data, batch.data.movies, {
+    prune,
+  });
+
+  // Updated titles or years can turn two movies into duplicates
+  const result = normalizeMoviesData(merged);
+  printDiff(diff);
+  printIssues("Duplicates after merge", result.report.duplicates);
+
+  const output = JSON.stringify(result.data);
+  if (values["dry-run"]) {
+    console.log(`\nDry run, ${catalogFile} was not changed`);
+    return;
+  }
+  if (output === source.trim()) {
+    console.log(`\nNothing to change in ${catalogFile}`);
+    return;
+  }
+  await writeFileAtomic(catalogFile, output);
+  console.log(`\nWrote ${result.data.total_movies} movies to ${catalogFile}`);
+}
+
+main().catch((err) => {
+  if (
+    err instanceof BatchFormatError ||
+    err instanceof CatalogStructureError ||
+    err instanceof SyntaxError
+  ) {
+    console.error(`Invalid input: ${err.message}`);
+  } else {
+    console.error(err);
+  }
+  process.exitCode = 1;
+});
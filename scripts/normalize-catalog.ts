@@ -0,0 +1,77 @@
+/**
+ * Validate, normalize and de-duplicate public/data/movies.json
+ *
+ *   tsx scripts/normalize-catalog.ts [file] [--check] [--report report.json]
+ *
+ * Rewrites the file in place unless `--check` is given, in which case it only
+ * fails when the file still needs normalizing. Structural errors always fail.
+ */
+
+import { readFile, writeFile } from "node:fs/promises";
+import { parseArgs } from "node:util";
+import {
+  CatalogStructureError,
+  normalizeMoviesData,
+  summarizeReport,
+  type CatalogIssue,
+} from "../app/lib/catalog-schema";
+
+const MAX_LISTED_ISSUES = 20;
+
+function printIssues(label: string, issues: CatalogIssue[]) {
+  if (issues.length === 0) return;
+  console.log(`\n${label} (${issues.length}):`);
+  for (const issue of issues.slice(0, MAX_LISTED_ISSUES)) {
+    const field = issue.field ? ` [${issue.field}]` : "";
+    console.log(
+      `  #${issue.index} ${issue.title ?? "?"}${field}: ${issue.message}`
+    );
+  }
+  if (issues.length > MAX_LISTED_ISSUES) {
+    console.log(`  ... and ${issues.length - MAX_LISTED_ISSUES} more`);
+  }
+}
+
+async function main() {
+  const { values, positionals } = parseArgs({
+    allowPositionals: true,
+    options: {
+      check: { type: "boolean", default: false },
+      report: { type: "string" },
+    },
+  });
+  const file = positionals[0] ?? "public/data/movies.json";
+
+  const source = await readFile(file, "utf8");
+  const { data, report } = normalizeMoviesData(JSON.parse(source));
+  const output = JSON.stringify(data);
+
+  console.log(`${file}: ${summarizeReport(report)}`);
+  printIssues("Rejected", report.rejected);
+  printIssues("Duplicates removed", report.duplicates);
+  printIssues("Repaired", report.repaired);
+
+  if (values.report) {
+    await writeFile(values.report, JSON.stringify(report, null, 2) + "\n");
+  }
+
+  if (output === source.trim()) return;
+  if (values.check) {
+    console.error(
+      `\n${file} is not normalized, run "npm run catalog:normalize"`
+    );
+    process.exitCode = 1;
+    return;
+  }
+  await writeFile(file, output);
+  console.log(`\nWrote normalized catalog to ${file}`);
+}
+
+main().catch((err) => {
+  if (err instanceof CatalogStructureError || err instanceof SyntaxError) {
+    console.error(`Invalid catalog: ${err.message}`);
+  } else {
+    console.error(err);
+  }
+  process.exitCode = 1;
+});
@@ -0,0 +1,168 @@
+/**
+ * SilverStream service worker
+ * `npm run build` prepends VERSION and PRECACHE_URLS and writes the result to
+ * build/client/sw.js (see scripts/build-service-worker.ts).
+ *
+ * - Hashed assets and the app shell are precached and served cache-first
+ * - Pages are network-first, the last copy of each is kept for offline use
+ * - The catalog (/api/v1/catalog) is served from cache and refreshed in the
+ *   background, open tabs get a "catalog-updated" message when it changed
+ * - Posters are cached as they are viewed, their URL changes with the
+ *   movie's image_url (see posterPath)
+ */
+
+/* global VERSION, PRECACHE_URLS */
+
+const CACHE_PREFIX = "silverstream-";
+const SHELL_CACHE = `${CACHE_PREFIX}shell-${VERSION}`;
+const PAGE_CACHE = `${CACHE_PREFIX}pages`;
+const DATA_CACHE = `${CACHE_PREFIX}data`;
+const POSTER_CACHE = `${CACHE_PREFIX}posters`;
+
+const CATALOG_URL = "/api/v1/catalog";
+const OFFLINE_URL = "/offline.html";
+// Background catalog checks on navigation happen at most this often
+const CATALOG_CHECK_INTERVAL_MS = 60 * 60 * 1000;
+const MAX_CACHED_PAGES = 50;
+const MAX_CACHED_POSTERS = 500;
+
+let lastCatalogCheck = 0;
+
+self.addEventListener("install", (event) => {
+  event.waitUntil(
+    (async () => {
+      const shell = await caches.open(SHELL_CACHE);
+      await shell.addAll(PRECACHE_URLS);
+      // Saved pages reference the previous build's assets. The home page
+      // works offline right away, not only after a second visit.
+      await caches.delete(PAGE_CACHE);
+      const pages = await caches.open(PAGE_CACHE);
+      await pages.add(new Request("/", { cache: "reload" }));
+      const data = await caches.open(DATA_CACHE);
+      await data.add(new Request(CATALOG_URL, { cache: "reload" }));
+      lastCatalogCheck = Date.now();
+      await self.skipWaiting();
+    })()
+  );
+});
+
+self.addEventListener("activate", (event) => {
+  event.waitUntil(
+    (async () => {
+      for (const name of await caches.keys()) {
+        if (name.startsWith(`${CACHE_PREFIX}shell-`) && name !== SHELL_CACHE) {
+          await caches.delete(name);
+        }
+      }
+      await self.clients.claim();
+    })()
+  );
+});
+
+// Oldest entries go first, caches keep insertion order
+async function trimCache(name, maxEntries) {
+  const cache = await caches.open(name);
+  const keys = await cache.keys();
+  for (const request of keys.slice(0, keys.length - maxEntries)) {
+    await cache.delete(request);
+  }
+}
+
+async function notifyClients(message) {
+  for (const client of await self.clients.matchAll({ type: "window" })) {
+    client.postMessage(message);
+  }
+}
+
+// Same ETag, or same size and date when there is none, means same catalog
+function sameResponse(a, b) {
+  const etag = (response) => response.headers.get("ETag");
+  if (etag(a) || etag(b)) return etag(a) === etag(b);
+  return ["Content-Length", "Last-Modified"].every(
+    (header) => a.headers.get(header) === b.headers.get(header)
+  );
+}
+
+async function refreshCatalog() {
+  lastCatalogCheck = Date.now();
+  const cache = await caches.open(DATA_CACHE);
+  const cached = await cache.match(CATALOG_URL);
+  const response = await fetch(CATALOG_URL, { cache: "no-cache" });
+  if (!response.ok) return;
+  if (cached && sameResponse(cached, response)) return;
+  await cache.put(CATALOG_URL, response);
+  if (cached) await notifyClients({ type: "catalog-updated" });
+}
+
+async function catalogResponse(event) {
+  const cached = await caches.match(CATALOG_URL);
+  if (!cached) {
+    const response = await fetch(event.request);
+    if (response.ok) {
+      const cache = await caches.open(DATA_CACHE);
+      await cache.put(CATALOG_URL, response.clone());
+    }
+    return response;
+  }
+  event.waitUntil(refreshCatalog().catch(() => {}));
+  return cached;
+}
+
+async function pageResponse(event) {
+  if (Date.now() - lastCatalogCheck > CATALOG_CHECK_INTERVAL_MS) {
+    event.waitUntil(refreshCatalog().catch(() => {}));
+  }
+  try {
+    const response = await fetch(event.request);
+    // Private pages, e.g. the admin area, are never kept
+    const noStore = response.headers.get("Cache-Control")?.includes("no-store");
+    if (response.ok && !noStore) {
+      const cache = await caches.open(PAGE_CACHE);
+      await cache.put(event.request, response.clone());
+      event.waitUntil(trimCache(PAGE_CACHE, MAX_CACHED_PAGES));
+    }
+    return response;
+  } catch (err) {
+    const cached = await caches.match(event.request, { cacheName: PAGE_CACHE });
+    return cached ?? (await caches.match(OFFLINE_URL)) ?? Response.error();
+  }
+}
+
+// Cache-first, an edited poster has a new URL
+async function posterResponse(event) {
+  const cache = await caches.open(POSTER_CACHE);
+  const cached = await cache.match(event.request);
+  if (cached) return cached;
+  const response = await fetch(event.request);
+  // Generated placeholders are left out so the real poster is tried again
+  const isPlaceholder = response.headers
+    .get("Content-Type")
+    ?.startsWith("image/svg+xml");
+  if (response.ok && !isPlaceholder) {
+    await cache.put(event.request, response.clone());
+    event.waitUntil(trimCache(POSTER_CACHE, MAX_CACHED_POSTERS));
+  }
+  return response;
+}
+
+async function shellResponse(event) {
+  const cached = await caches.match(event.request, { cacheName: SHELL_CACHE });
+  return cached ?? fetch(event.request);
+}
+
+self.addEventListener("fetch", (event) => {
+  const { request } = event;
+  const url = new URL(request.url);
+  if (request.method !== "GET" || url.origin !== self.location.origin) return;
+
+  if (request.mode === "navigate") {
+    event.respondWith(pageResponse(event));
+  } else if (url.pathname === CATALOG_URL) {
+    event.respondWith(catalogResponse(event));
+  } else if (url.pathname.startsWith("/posters/")) {
+    event.respondWith(posterResponse(event));
+  } else if (PRECACHE_URLS.includes(url.pathname)) {
+    event.respondWith(shellResponse(event));
+  }
+  // Everything else, e.g. loader data and the JSON API, goes to the network
+});
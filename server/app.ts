@@ -0,0 +1,137 @@
+/**
+ * Express app
+ * Static files with the caching policy, health checks, JSON request logs and
+ * the React Router request handler.
+ */
+
+import { createHash } from "node:crypto";
+import { readFile } from "node:fs/promises";
+import path from "node:path";
+import { fileURLToPath } from "node:url";
+import { createRequestHandler } from "@react-router/express";
+import compression from "compression";
+import express, { type ErrorRequestHandler } from "express";
+import * as build from "virtual:react-router/server-build";
+import {
+  CACHE_CONTROL,
+  CONTENT_HASHED_PATHS,
+  staticCachePolicy,
+} from "~/lib/cache-policy";
+import { getCatalog } from "~/lib/catalog.server";
+import type { ServerConfig } from "./config";
+import type { Logger } from "./logger";
+
+// This module ends up in build/server/index.js
+const CLIENT_DIR = fileURLToPath(new URL("../client", import.meta.url));
+
+const HEALTH_PATHS = new Set(["/healthz", "/readyz"]);
+
+export interface AppOptions {
+  config: ServerConfig;
+  logger: Logger;
+  // True once SIGTERM was received
+  isShuttingDown: () => boolean;
+}
+
+async function contentEtags() {
+  const etags = new Map<string, string>();
+  for (const urlPath of CONTENT_HASHED_PATHS) {
+    try {
+      const content = await readFile(path.join(CLIENT_DIR, urlPath));
+      const hash = createHash("sha256").update(content).digest("base64url");
+      etags.set(urlPath, `"${hash}"`);
+    } catch (err) {
+      if ((err as NodeJS.ErrnoException).code !== "ENOENT") throw err;
+    }
+  }
+  return etags;
+}
+
+export async function createApp({
+  config,
+  logger,
+  isShuttingDown,
+}: AppOptions) {
+  const app = express();
+  app.disable("x-powered-by");
+  app.set("trust proxy", config.trustProxy);
+
+  app.use((req, res, next) => {
+    const start = process.hrtime.bigint();
+    // Keep-alive connections would hold the server open during shutdown
+    if (isShuttingDown()) res.set("Connection", "close");
+    res.on("finish", () => {
+      const fields = {
+        method: req.method,
+        path: req.originalUrl,
+        status: res.statusCode,
+        duration_ms: Number(process.hrtime.bigint() - start) / 1e6,
+        bytes: Number(res.getHeader("Content-Length")) || undefined,
+        ip: req.ip,
+        user_agent: req.get("User-Agent"),
+      };
+      // Probes hit these every few seconds
+      if (HEALTH_PATHS.has(req.path)) logger.debug("request", fields);
+      else logger.info("request", fields);
+    });
+    next();
+  });
+
+  // Liveness: the process is up and serving
+  app.get("/healthz", (req, res) => {
+    res.set("Cache-Control", CACHE_CONTROL.none).json({ status: "ok" });
+  });
+
+  // Readiness: the catalog is loaded and we aren't shutting down
+  app.get("/readyz", async (req, res) => {
+    res.set("Cache-Control", CACHE_CONTROL.none);
+    if (isShuttingDown()) {
+      res.status(503).json({ status: "shutting_down" });
+      return;
+    }
+    try {
+      const catalog = await getCatalog();
+      res.json({ status: "ready", movies: catalog.movies.length });
+    } catch (err) {
+      logger.warn("readiness check failed", { error: err });
+      res.status(503).json({
+        status: "not_ready",
+        error: err instanceof Error ? err.message : String(err),
+      });
+    }
+  });
+
+  app.use(compression());
+
+  const etags = await contentEtags();
+  app.use(
+    express.static(CLIENT_DIR, {
+      cacheControl: false,
+      setHeaders(res, filePath) {
+        const urlPath = `/${path.relative(CLIENT_DIR, filePath).split(path.sep).join("/")}`;
+        res.setHeader(
+          "Cache-Control",
+          CACHE_CONTROL[staticCachePolicy(urlPath)]
+        );
+        const etag = etags.get(urlPath);
+        if (etag) res.setHeader("ETag", etag);
+      },
+    })
+  );
+
+  // Pages get their Cache-Control from the route `headers` exports
+  app.use(createRequestHandler({ build, mode: config.nodeEnv }));
+
+  const errorHandler: ErrorRequestHandler = (err, req, res, next) => {
+    logger.error("unhandled request error", {
+      method: req.method,
+      path: req.originalUrl,
+      error: err,
+    });
+    if (res.headersSent) return next(err);
+    res.status(500).type("text/plain").send("Internal Server Error");
+  };
+  app.use(errorHandler);
+
+  return app;
+}
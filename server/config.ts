@@ -0,0 +1,104 @@
+/**
+ * Server configuration
+ * Read from the environment once at startup. Every problem is reported
+ * together so a bad deploy fails fast with one clear message.
+ */
+
+import { LINK_HEALTH_MODES } from "~/lib/link-health.server";
+import { isLogLevel, LOG_LEVELS, type LogLevel } from "./logger";
+
+export interface ServerConfig {
+  port: number;
+  host: string;
+  nodeEnv: string;
+  logLevel: LogLevel;
+  // How long in-flight requests get to finish after SIGTERM
+  shutdownTimeoutMs: number;
+  // Express `trust proxy`, set when running behind a load balancer
+  trustProxy: boolean;
+}
+
+export class ConfigError extends Error {
+  constructor(public issues: string[]) {
+    super(`Invalid configuration: ${issues.join("; ")}`);
+    this.name = "ConfigError";
+  }
+}
+
+export function loadConfig(env: NodeJS.ProcessEnv = process.env): ServerConfig {
+  const issues: string[] = [];
+
+  const integer = (
+    name: string,
+    fallback: number,
+    min: number,
+    max: number
+  ) => {
+    const raw = env[name];
+    if (raw === undefined || raw === "") return fallback;
+    const value = Number(raw);
+    if (!Number.isInteger(value) || value < min || value > max) {
+      issues.push(
+        `${name} must be an integer from ${min} to ${max}, got "${raw}"`
+      );
+      return fallback;
+    }
+    return value;
+  };
+
+  const boolean = (name: string, fallback: boolean) => {
+    const raw = env[name];
+    if (raw === undefined || raw === "") return fallback;
+    if (raw === "true" || raw === "1") return true;
+    if (raw === "false" || raw === "0") return false;
+    issues.push(`${name} must be true or false, got "${raw}"`);
+    return fallback;
+  };
+
+  // Settings read elsewhere, checked here so a typo doesn't surface on the
+  // first request that needs them
+  const url = (name: string) => {
+    const raw = env[name];
+    if (!raw) return;
+    try {
+      new URL(raw);
+    } catch {
+      issues.push(`${name} must be an absolute URL, got "${raw}"`);
+    }
+  };
+
+  const oneOf = (name: string, allowed: readonly string[]) => {
+    const raw = env[name];
+    if (raw && !allowed.includes(raw)) {
+      issues.push(`${name} must be one of ${allowed.join(", ")}, got "${raw}"`);
+    }
+  };
+
+  const logLevel = env.LOG_LEVEL || "info";
+  if (!isLogLevel(logLevel)) {
+    issues.push(
+      `LOG_LEVEL must be one of ${LOG_LEVELS.join(", ")}, got "${logLevel}"`
+    );
+  }
+  url("POSTER_ORIGIN");
+  url("SITE_URL");
+  oneOf("LINK_HEALTH_MODE", LINK_HEALTH_MODES);
+  // Admin sessions are signed with SESSION_SECRET (app/lib/admin-auth.server.ts)
+  if (env.ADMIN_PASSWORD && (env.SESSION_SECRET ?? "").length < 32) {
+    issues.push(
+      "SESSION_SECRET must be at least 32 characters when ADMIN_PASSWORD is set"
+    );
+  }
+
+  const config: ServerConfig = {
+    port: integer("PORT", 3000, 1, 65535),
+    host: env.HOST || "0.0.0.0",
+    nodeEnv: env.NODE_ENV || "production",
+    logLevel: isLogLevel(logLevel) ? logLevel : "info",
+    shutdownTimeoutMs: integer("SHUTDOWN_TIMEOUT_MS", 10_000, 0, 300_000),
+    trustProxy: boolean("TRUST_PROXY", false),
+  };
+
+  if (issues.length > 0) throw new ConfigError(issues);
+  return config;
+}
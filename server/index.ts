@@ -0,0 +1,81 @@
+/**
+ * Production server
+ * Bundled with the app into build/server/index.js by the SSR build (see
+ * vite.config.ts) and started by `npm start`. `npm run dev` still uses the
+ * React Router dev server.
+ */
+
+import { getCatalog } from "~/lib/catalog.server";
+import { createApp } from "./app";
+import { ConfigError, loadConfig, type ServerConfig } from "./config";
+import { createLogger } from "./logger";
+
+async function main() {
+  let config: ServerConfig;
+  try {
+    config = loadConfig();
+  } catch (err) {
+    if (!(err instanceof ConfigError)) throw err;
+    createLogger().error("invalid configuration", { issues: err.issues });
+    process.exit(1);
+  }
+
+  const logger = createLogger(config.logLevel);
+  let shuttingDown = false;
+  const app = await createApp({
+    config,
+    logger,
+    isShuttingDown: () => shuttingDown,
+  });
+
+  const server = app.listen(config.port, config.host, () => {
+    logger.info("server listening", {
+      host: config.host,
+      port: config.port,
+      node_env: config.nodeEnv,
+    });
+  });
+
+  // Load the catalog now instead of on the first request, /readyz reports
+  // ready once this has finished
+  getCatalog()
+    .then((catalog) =>
+      logger.info("catalog loaded", { movies: catalog.movies.length })
+    )
+    .catch((err) => logger.error("catalog failed to load", { error: err }));
+
+  // Stop taking connections, let in-flight requests finish, then exit.
+  // Requests still running after the timeout are cut off.
+  const shutdown = (signal: NodeJS.Signals) => {
+    if (shuttingDown) return;
+    shuttingDown = true;
+    logger.info("shutting down", {
+      signal,
+      timeout_ms: config.shutdownTimeoutMs,
+    });
+
+    server.close((err) => {
+      if (err) {
+        logger.error("error while closing the server", { error: err });
+        process.exit(1);
+      }
+      logger.info("server closed");
+      process.exit(0);
+    });
+    server.closeIdleConnections();
+
+    setTimeout(() => {
+      logger.warn("shutdown timed out, closing open connections");
+      server.closeAllConnections();
+      process.exit(1);
+    }, config.shutdownTimeoutMs).unref();
+  };
+
+  process.on("SIGTERM", shutdown);
+  process.on("SIGINT", shutdown);
+}
+
+main().catch((err) => {
+  createLogger().error("server failed to start", { error: err });
+  process.exit(1);
+});
@@ -0,0 +1,59 @@
+/**
+ * Structured logging
+ * One JSON object per line on stdout (errors on stderr), ready for any log
+ * collector: `{"time":"...","level":"info","msg":"...", ...fields}`.
+ */
+
+export const LOG_LEVELS = ["debug", "info", "warn", "error"] as const;
+export type LogLevel = (typeof LOG_LEVELS)[number];
+
+export type LogFields = Record<string, unknown>;
+
+export interface Logger {
+  debug(msg: string, fields?: LogFields): void;
+  info(msg: string, fields?: LogFields): void;
+  warn(msg: string, fields?: LogFields): void;
+  error(msg: string, fields?: LogFields): void;
+}
+
+export function isLogLevel(value: string): value is LogLevel {
+  return (LOG_LEVELS as readonly string[]).includes(value);
+}
+
+// Errors don't serialize with JSON.stringify, keep what's useful
+function serialize(value: unknown) {
+  if (value instanceof Error) {
+    return { name: value.name, message: value.message, stack: value.stack };
+  }
+  return value;
+}
+
+export function createLogger(level: LogLevel = "info"): Logger {
+  const minLevel = LOG_LEVELS.indexOf(level);
+
+  const write = (entryLevel: LogLevel, msg: string, fields: LogFields = {}) => {
+    if (LOG_LEVELS.indexOf(entryLevel) < minLevel) return;
+    const entry: LogFields = {
+      time: new Date().toISOString(),
+      level: entryLevel,
+      msg,
+    };
+    for (const [key, value] of Object.entries(fields)) {
+      entry[key] = serialize(value);
+    }
+    const stream = entryLevel === "error" ? process.stderr : process.stdout;
+    stream.write(`${JSON.stringify(entry)}\n`);
+  };
+
+  return {
+    debug: (msg, fields) => write("debug", msg, fields),
+    info: (msg, fields) => write("info", msg, fields),
+    warn: (msg, fields) => write("warn", msg, fields),
+    error: (msg, fields) => write("error", msg, fields),
+  };
+}
+
+// For the app's server modules, which have no logger passed in. Same level
+// as the server's, LOG_LEVEL is checked by loadConfig.
+const envLevel = process.env.LOG_LEVEL ?? "";
+export const logger = createLogger(isLogLevel(envLevel) ? envLevel : "info");
@@ -3,13 +3,15 @@ import tailwindcss from "@tailwindcss/vite";
 import { defineConfig } from "vite";
 import tsconfigPaths from "vite-tsconfig-paths";
 
-export default defineConfig({
+export default defineConfig(({ isSsrBuild }) => ({
   plugins: [tailwindcss(), reactRouter(), tsconfigPaths()],
   build: {
     // Optimize for production
     cssMinify: true,
     minify: "esbuild",
     rollupOptions: {
+      // The server build is our Express server with the app bundled in
+      ...(isSsrBuild && { input: "./server/index.ts" }),
       output: {
         // Add cache-busting for assets
         assetFileNames: "assets/[name]-[hash][extname]",
@@ -25,4 +27,4 @@ export default defineConfig({
     port: 5173,
     host: true,
   },
-});
+}));